@@ -1,22 +1,47 @@
 import jwt from 'jsonwebtoken';
 import User from '../models/User.js';
+import Session from '../models/Session.js';
+import { ACCESS_COOKIE, getJwtSecret } from '../services/sessions.js';
+
+// How often a session's last-seen time is written
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
 
 export const authenticate = async (req, res, next) => {
   try {
-    const token = req.headers.authorization?.split(' ')[1];
+    // The access token cookie, or a bearer token for API clients
+    const token = req.headers.authorization?.split(' ')[1] || req.cookies?.[ACCESS_COOKIE];
 
     if (!token) {
       return res.status(401).json({ message: 'Authentication required' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET ?? 'fallback-secret');
-    const user = await User.findById(decoded.userId).select('-password');
+    const decoded = jwt.verify(token, getJwtSecret());
+    if (!decoded.sessionId) {
+      return res.status(401).json({ message: 'Invalid or expired token' });
+    }
+
+    const [user, session] = await Promise.all([
+      User.findById(decoded.userId).select('-password'),
+      Session.findOne({ _id: decoded.sessionId, userId: decoded.userId }).select('lastSeenAt').lean(),
+    ]);
 
     if (!user) {
       return res.status(401).json({ message: 'User not found' });
     }
 
+    // Signed out or revoked from another device
+    if (!session) {
+      return res.status(401).json({ message: 'Session has ended' });
+    }
+
+    if (Date.now() - session.lastSeenAt > LAST_SEEN_INTERVAL_MS) {
+      Session.updateOne({ _id: session._id }, { lastSeenAt: new Date() }).catch((error) =>
+        console.error('Error updating session last seen:', error)
+      );
+    }
+
     req.user = user;
+    req.sessionId = session._id;
     next();
   } catch (error) {
     res.status(401).json({ message: 'Invalid or expired token' });
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+
+// A single-use token: a password reset or email verification link sent by email, or
+// the challenge between the password and two-factor steps of a login. Only a hash of
+// the token is stored.
+const authTokenSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: ['password-reset', 'email-verification', 'two-factor-login'],
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    // The address the link was sent to; a verification only counts for that address
+    email: {
+      type: String,
+      required: true,
+    },
+    // Wrong codes entered against a two-factor login challenge
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+authTokenSchema.index({ tokenHash: 1, purpose: 1 });
+authTokenSchema.index({ userId: 1, purpose: 1 });
+// MongoDB removes tokens once they have expired
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model('AuthToken', authTokenSchema);
@@ -1,4 +1,8 @@
 import mongoose from 'mongoose';
+import { TRACKING_TYPES } from '../utils/tracking.js';
+
+export const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Full Body', 'Other'];
+export const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Bodyweight', 'Cable', 'Kettlebell', 'Other'];
 
 const exerciseLibrarySchema = new mongoose.Schema(
   {
@@ -6,23 +10,39 @@ const exerciseLibrarySchema = new mongoose.Schema(
       type: String,
       required: [true, 'Exercise name is required'],
       trim: true,
-      unique: true,
-      index: true,
+      maxlength: [100, 'Exercise name must be at most 100 characters'],
     },
     muscleGroup: {
       type: String,
-      enum: ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Full Body', 'Other'],
+      enum: MUSCLE_GROUPS,
       required: true,
     },
+    secondaryMuscles: {
+      type: [{ type: String, enum: MUSCLE_GROUPS }],
+      default: [],
+    },
     equipment: {
       type: String,
-      enum: ['Barbell', 'Dumbbell', 'Machine', 'Bodyweight', 'Cable', 'Kettlebell', 'Other'],
+      enum: EQUIPMENT_TYPES,
       required: true,
     },
+    // How sets are measured; entries without one use defaultTrackingType
+    trackingType: {
+      type: String,
+      enum: [...TRACKING_TYPES, null],
+      default: null,
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Notes must be at most 1000 characters'],
+      default: '',
+    },
     isCustom: {
       type: Boolean,
       default: false,
     },
+    // Owner of a custom exercise; null for the shared entries everyone sees
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -39,6 +59,11 @@ const exerciseLibrarySchema = new mongoose.Schema(
   }
 );
 
+// A name is unique among the shared entries and within each user's custom exercises
+exerciseLibrarySchema.index(
+  { name: 1, createdBy: 1 },
+  { unique: true, collation: { locale: 'en', strength: 2 } }
+);
 // Index for search
 exerciseLibrarySchema.index({ name: 'text', muscleGroup: 1, equipment: 1 });
 
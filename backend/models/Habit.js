@@ -50,6 +50,11 @@ const habitSchema = new mongoose.Schema(
       type: Boolean,
       default: false,
     },
+    // Local date key (YYYY-MM-DD) of the last reminder sent, so each day's fires once
+    lastReminderSentOn: {
+      type: String,
+      default: null,
+    },
     goalType: {
       type: String,
       enum: ['yes_no', 'numeric'],
@@ -85,11 +90,26 @@ const habitSchema = new mongoose.Schema(
         },
       },
     ],
+    // Freezes available to spend; earned automatically as the streak grows
     streakFreeze: {
       type: Number,
       default: 0,
       min: 0,
     },
+    // Missed due days a freeze was spent on
+    frozenDays: {
+      type: [Date],
+      default: [],
+    },
+    // The streak that last earned a freeze: its first day (or week) and its length then
+    freezeStreakStart: {
+      type: Date,
+      default: null,
+    },
+    freezeStreakLength: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
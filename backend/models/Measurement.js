@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+
+// One entry per user per calendar day; any subset of the values can be logged
+const measurementSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    weight: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    weightUnit: {
+      type: String,
+      enum: ['kg', 'lb'],
+      default: 'kg',
+    },
+    bodyFat: {
+      type: Number,
+      default: null,
+      min: 0,
+      max: 100,
+    },
+    waist: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    chest: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    arms: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    hips: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    lengthUnit: {
+      type: String,
+      enum: ['cm', 'in'],
+      default: 'cm',
+    },
+    notes: {
+      type: String,
+      default: '',
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+measurementSchema.index({ userId: 1, date: 1 }, { unique: true });
+
+export default mongoose.model('Measurement', measurementSchema);
@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+
+// One entry each time a record fell, so the latest entry per exercise, type and rep
+// count is the current record and the earlier ones are its history
+const personalRecordSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    exerciseName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    // Lowercased name, so "bench press" and "Bench Press" share records
+    exerciseKey: {
+      type: String,
+      required: true,
+    },
+    // repMax: heaviest weight for at least `reps` reps; estimated1RM: best estimated 1RM
+    type: {
+      type: String,
+      enum: ['repMax', 'estimated1RM'],
+      required: true,
+    },
+    reps: {
+      type: Number,
+      default: null,
+    },
+    value: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    weightUnit: {
+      type: String,
+      enum: ['kg', 'lb'],
+      default: 'kg',
+    },
+    // The set that set the record
+    set: {
+      reps: Number,
+      weight: Number,
+    },
+    previousValue: {
+      type: Number,
+      default: null,
+    },
+    workoutId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Workout',
+      required: true,
+    },
+    achievedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+personalRecordSchema.index({ userId: 1, exerciseKey: 1, achievedAt: -1 });
+personalRecordSchema.index({ workoutId: 1 });
+
+export default mongoose.model('PersonalRecord', personalRecordSchema);
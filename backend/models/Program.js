@@ -0,0 +1,178 @@
+import mongoose from 'mongoose';
+import { addDays, startOfDay } from '../utils/dates.js';
+import { EQUIPMENT_TYPES, MUSCLE_GROUPS } from './ExerciseLibrary.js';
+
+const programExerciseSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Exercise name is required'],
+    trim: true,
+  },
+  muscleGroup: {
+    type: String,
+    enum: MUSCLE_GROUPS,
+    default: null,
+  },
+  equipment: {
+    type: String,
+    enum: EQUIPMENT_TYPES,
+    default: null,
+  },
+  sets: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  reps: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  progressionType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    default: 'fixed',
+  },
+  // Percentage progression: weekly percentages of the training max, cycled
+  trainingMax: {
+    type: Number,
+    default: null,
+    min: 0,
+  },
+  weekPercentages: {
+    type: [Number],
+    default: [],
+  },
+  // Fixed progression: starting weight
+  startWeight: {
+    type: Number,
+    default: null,
+    min: 0,
+  },
+  // Added to the weight every week (fixed) or to the training max every cycle (percentage)
+  increment: {
+    type: Number,
+    default: 0,
+  },
+});
+
+const programSessionSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Session name is required'],
+    trim: true,
+  },
+  dayOfWeek: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 6,
+  },
+  workoutType: {
+    type: String,
+    enum: ['Push', 'Pull', 'Legs', 'Full Body', 'Upper', 'Lower', 'Cardio', 'Other'],
+    default: null,
+  },
+  exercises: [programExerciseSchema],
+});
+
+const programSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Program name is required'],
+      trim: true,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    weeks: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 52,
+    },
+    weightUnit: {
+      type: String,
+      enum: ['kg', 'lb'],
+      default: 'kg',
+    },
+    sessions: [programSessionSchema],
+    status: {
+      type: String,
+      enum: ['active', 'completed'],
+      default: 'active',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Round a target to the smallest plate jump for the unit
+const roundToPlates = (weight, weightUnit) => {
+  const step = weightUnit === 'lb' ? 5 : 2.5;
+  return Math.round(weight / step) * step;
+};
+
+// Target weight for an exercise in a given (zero-based) program week
+programSchema.methods.targetWeightForWeek = function (exercise, week) {
+  if (exercise.progressionType === 'percentage') {
+    if (!exercise.trainingMax || exercise.weekPercentages.length === 0) return null;
+    const cycleLength = exercise.weekPercentages.length;
+    const cycle = Math.floor(week / cycleLength);
+    const trainingMax = exercise.trainingMax + cycle * (exercise.increment ?? 0);
+    const percentage = exercise.weekPercentages[week % cycleLength];
+    return roundToPlates((trainingMax * percentage) / 100, this.weightUnit);
+  }
+
+  if (exercise.startWeight === null || exercise.startWeight === undefined) return null;
+  return roundToPlates(exercise.startWeight + week * (exercise.increment ?? 0), this.weightUnit);
+};
+
+// Build the planned workouts for every session of every week
+programSchema.methods.buildPlannedWorkouts = function () {
+  // Planned sessions land on calendar dates (UTC midnight), like habit completions
+  const start = startOfDay(this.startDate);
+
+  const workouts = [];
+  for (let week = 0; week < this.weeks; week++) {
+    this.sessions.forEach((session) => {
+      const date = addDays(start, week * 7 + ((session.dayOfWeek - start.getUTCDay() + 7) % 7));
+
+      workouts.push({
+        userId: this.userId,
+        date,
+        status: 'planned',
+        workoutType: session.workoutType ?? null,
+        weightUnit: this.weightUnit,
+        programId: this._id,
+        programWeek: week + 1,
+        sessionName: session.name,
+        exercises: session.exercises.map((exercise, index) => ({
+          name: exercise.name,
+          muscleGroup: exercise.muscleGroup,
+          equipment: exercise.equipment,
+          targetSets: exercise.sets,
+          targetReps: exercise.reps,
+          targetWeight: this.targetWeightForWeek(exercise, week),
+          sets: [],
+          order: index,
+        })),
+      });
+    });
+  }
+
+  return workouts;
+};
+
+// Indexes for efficient queries (production optimization)
+programSchema.index({ userId: 1, status: 1 });
+
+export default mongoose.model('Program', programSchema);
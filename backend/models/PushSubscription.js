@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+
+// A browser's Web Push subscription; a user has one per device/browser
+const pushSubscriptionSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    endpoint: {
+      type: String,
+      required: [true, 'Subscription endpoint is required'],
+    },
+    keys: {
+      p256dh: {
+        type: String,
+        required: true,
+      },
+      auth: {
+        type: String,
+        required: true,
+      },
+    },
+    userAgent: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+pushSubscriptionSchema.index({ endpoint: 1 }, { unique: true });
+pushSubscriptionSchema.index({ userId: 1 });
+
+export default mongoose.model('PushSubscription', pushSubscriptionSchema);
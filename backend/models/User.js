@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ONE_REP_MAX_FORMULAS } from '../utils/weights.js';
 
 const userSchema = new mongoose.Schema(
   {
@@ -16,11 +17,82 @@ const userSchema = new mongoose.Schema(
       trim: true,
       match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
     },
+    // Set once the user opens the link from the verification email
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: {
+      type: Date,
+      default: null,
+    },
     password: {
       type: String,
       required: [true, 'Password is required'],
       minlength: [6, 'Password must be at least 6 characters'],
     },
+    // Two-factor authentication with an authenticator app. The secrets and recovery code
+    // hashes are never selected unless asked for.
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    // Secret shown during setup; becomes twoFactorSecret once a code from it is confirmed
+    twoFactorPendingSecret: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    // Last time step a code was accepted for, so a code can't be used twice
+    twoFactorLastStep: {
+      type: Number,
+      default: null,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    // IANA timezone (e.g. "Europe/Berlin") used to schedule reminders
+    timezone: {
+      type: String,
+      default: 'UTC',
+    },
+    // Unit analytics, records and history are shown in, whatever unit each workout was logged in
+    weightUnit: {
+      type: String,
+      enum: ['kg', 'lb'],
+      default: 'kg',
+    },
+    // Formula for estimated one-rep maxes in analytics and personal records
+    oneRepMaxFormula: {
+      type: String,
+      enum: ONE_REP_MAX_FORMULAS,
+      default: 'epley',
+    },
+    // Whether the personal records of every logged exercise have been built, see
+    // backfillPersonalRecords
+    personalRecordsBuilt: {
+      type: Boolean,
+      default: false,
+      select: false,
+    },
+    // Habit reminders via Web Push; needs a subscription from the browser too
+    notificationsEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    // When set, the account and all its data are purged at this time unless the user undoes it
+    deletionScheduledFor: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -43,5 +115,6 @@ userSchema.methods.comparePassword = async function (candidatePassword) {
 // Email is already unique, but explicit index helps with queries
 userSchema.index({ email: 1 }, { unique: true });
 userSchema.index({ createdAt: -1 });
+userSchema.index({ deletionScheduledFor: 1 }, { partialFilterExpression: { deletionScheduledFor: { $type: 'date' } } });
 
 export default mongoose.model('User', userSchema);
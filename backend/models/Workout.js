@@ -1,14 +1,34 @@
 import mongoose from 'mongoose';
+import { estimateOneRepMax, loadedSets } from '../utils/weights.js';
+import { TRACKING_TYPES } from '../utils/tracking.js';
+import { EQUIPMENT_TYPES, MUSCLE_GROUPS } from './ExerciseLibrary.js';
 
+export const SET_TYPES = ['warmup', 'working', 'drop', 'failure', 'amrap'];
+// superset: 2 exercises back to back; giantSet: 3 or more; circuit: any number, repeated in rounds
+export const GROUP_TYPES = ['superset', 'circuit', 'giantSet'];
+
+// Which fields a set needs depends on its exercise's trackingType (see utils/tracking.js)
 const setSchema = new mongoose.Schema({
   reps: {
     type: Number,
-    required: true,
+    default: 0,
     min: 0,
   },
   weight: {
     type: Number,
-    required: true,
+    default: 0,
+    min: 0,
+  },
+  // Seconds
+  duration: {
+    type: Number,
+    default: null,
+    min: 0,
+  },
+  // Metres
+  distance: {
+    type: Number,
+    default: null,
     min: 0,
   },
   restTime: {
@@ -26,6 +46,22 @@ const setSchema = new mongoose.Schema({
     type: Boolean,
     default: true,
   },
+  // When a set was logged during a live workout; rest before the next set is timed from it
+  loggedAt: {
+    type: Date,
+    default: null,
+  },
+  // Warm-up sets are logged but left out of volume, 1RM estimates and records
+  setType: {
+    type: String,
+    enum: SET_TYPES,
+    default: 'working',
+  },
+  // Id generated by an offline client, used to skip replayed duplicates
+  clientId: {
+    type: String,
+    default: null,
+  },
 });
 
 const exerciseSchema = new mongoose.Schema({
@@ -37,19 +73,53 @@ const exerciseSchema = new mongoose.Schema({
   },
   muscleGroup: {
     type: String,
-    enum: ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Full Body'],
+    enum: MUSCLE_GROUPS,
     default: null,
   },
   equipment: {
     type: String,
-    enum: ['Barbell', 'Dumbbell', 'Machine', 'Bodyweight', 'Cable', 'Kettlebell', 'Other'],
+    enum: EQUIPMENT_TYPES,
     default: null,
   },
+  trackingType: {
+    type: String,
+    enum: TRACKING_TYPES,
+    default: 'weightReps',
+  },
   sets: [setSchema],
+  targetSets: {
+    type: Number,
+    default: null,
+    min: 1,
+  },
+  targetReps: {
+    type: Number,
+    default: null,
+    min: 1,
+  },
+  targetWeight: {
+    type: Number,
+    default: null,
+    min: 0,
+  },
   order: {
     type: Number,
     default: 0,
   },
+  // Exercises sharing a groupId are done together as a superset, circuit or giant set
+  groupId: {
+    type: String,
+    default: null,
+  },
+  groupType: {
+    type: String,
+    enum: [...GROUP_TYPES, null],
+    default: null,
+  },
+  clientId: {
+    type: String,
+    default: null,
+  },
 });
 
 const workoutSchema = new mongoose.Schema(
@@ -114,16 +184,58 @@ const workoutSchema = new mongoose.Schema(
       enum: ['kg', 'lb'],
       default: 'kg',
     },
+    templateId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'WorkoutTemplate',
+      default: null,
+    },
+    programId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Program',
+      default: null,
+    },
+    programWeek: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    sessionName: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    // Id of a workout started offline, so a replayed start is not duplicated
+    clientId: {
+      type: String,
+      default: null,
+    },
+    // Source app and start time of a workout imported from another app's export
+    importKey: {
+      type: String,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
-// Virtual for total volume calculation
+// The user's bodyweight at the workout date, in its weightUnit. Set by attachBodyweights and
+// not stored, since weigh-ins logged later can change it.
+workoutSchema
+  .virtual('bodyweight')
+  .get(function () {
+    return this.$locals.bodyweight ?? null;
+  })
+  .set(function (value) {
+    this.$locals.bodyweight = value;
+  });
+
+// Virtual for total volume calculation (warm-up sets excluded, bodyweight exercises
+// including the bodyweight when one is attached)
 workoutSchema.virtual('totalVolume').get(function () {
   return this.exercises.reduce((total, exercise) => {
-    const exerciseVolume = exercise.sets.reduce((sum, set) => {
+    const exerciseVolume = loadedSets(exercise, this.bodyweight).reduce((sum, set) => {
       return sum + (set.reps * set.weight);
     }, 0);
     return total + exerciseVolume;
@@ -142,16 +254,18 @@ workoutSchema.virtual('totalReps').get(function () {
   }, 0);
 });
 
-// Method to calculate 1RM estimate (Epley formula)
-workoutSchema.methods.estimate1RM = function (weight, reps) {
-  if (reps === 1) return weight;
-  return weight * (1 + reps / 30);
+// Method to calculate 1RM estimate with one of ONE_REP_MAX_FORMULAS (Epley by default)
+workoutSchema.methods.estimate1RM = function (weight, reps, formula = 'epley', rpe = null) {
+  return estimateOneRepMax(weight, reps, formula, rpe);
 };
 
 // Indexes for efficient queries (production optimization)
 workoutSchema.index({ userId: 1, date: -1 });
 workoutSchema.index({ userId: 1, createdAt: -1 });
 workoutSchema.index({ userId: 1, status: 1 });
+workoutSchema.index({ userId: 1, programId: 1, date: 1 });
+workoutSchema.index({ userId: 1, clientId: 1 });
+workoutSchema.index({ userId: 1, importKey: 1 });
 workoutSchema.index({ 'exercises.name': 'text' });
 
 export default mongoose.model('Workout', workoutSchema);
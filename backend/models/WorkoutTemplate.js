@@ -0,0 +1,100 @@
+import mongoose from 'mongoose';
+import { GROUP_TYPES } from './Workout.js';
+import { TRACKING_TYPES } from '../utils/tracking.js';
+import { EQUIPMENT_TYPES, MUSCLE_GROUPS } from './ExerciseLibrary.js';
+
+const templateExerciseSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Exercise name is required'],
+    trim: true,
+  },
+  muscleGroup: {
+    type: String,
+    enum: MUSCLE_GROUPS,
+    default: null,
+  },
+  equipment: {
+    type: String,
+    enum: EQUIPMENT_TYPES,
+    default: null,
+  },
+  trackingType: {
+    type: String,
+    enum: TRACKING_TYPES,
+    default: 'weightReps',
+  },
+  targetSets: {
+    type: Number,
+    default: null,
+    min: 1,
+  },
+  targetReps: {
+    type: Number,
+    default: null,
+    min: 1,
+  },
+  targetWeight: {
+    type: Number,
+    default: null,
+    min: 0,
+  },
+  order: {
+    type: Number,
+    default: 0,
+  },
+  // Exercises sharing a groupId are done together, as in a workout
+  groupId: {
+    type: String,
+    default: null,
+  },
+  groupType: {
+    type: String,
+    enum: [...GROUP_TYPES, null],
+    default: null,
+  },
+});
+
+const workoutTemplateSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+    },
+    workoutType: {
+      type: String,
+      enum: ['Push', 'Pull', 'Legs', 'Full Body', 'Upper', 'Lower', 'Cardio', 'Other'],
+      default: null,
+    },
+    weightUnit: {
+      type: String,
+      enum: ['kg', 'lb'],
+      default: 'kg',
+    },
+    exercises: [templateExerciseSchema],
+    usageCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for efficient queries (production optimization)
+workoutTemplateSchema.index({ userId: 1, name: 1 }, { unique: true });
+workoutTemplateSchema.index({ userId: 1, lastUsedAt: -1 });
+
+export default mongoose.model('WorkoutTemplate', workoutTemplateSchema);
@@ -1,13 +1,50 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
+import { authenticate } from '../middleware/auth.js';
 import User from '../models/User.js';
+import Session from '../models/Session.js';
+import {
+  clearAuthCookies,
+  describeDevice,
+  readRefreshToken,
+  refreshSession,
+  startSession,
+} from '../services/sessions.js';
+import {
+  consumeToken,
+  issueLoginChallenge,
+  recordLoginChallengeAttempt,
+  sendEmailVerification,
+  sendPasswordReset,
+} from '../services/authTokens.js';
+import {
+  beginSetup,
+  confirmSetup,
+  countRecoveryCodes,
+  disableTwoFactor,
+  replaceRecoveryCodes,
+  verifySecondFactor,
+} from '../services/twoFactor.js';
+import { isValidTimeZone } from '../utils/dates.js';
 
 const router = express.Router();
 
+// The user as returned when a session starts
+const toAuthUser = (user) => ({
+  id: user._id,
+  name: user.name,
+  email: user.email,
+  timezone: user.timezone,
+  weightUnit: user.weightUnit,
+  oneRepMaxFormula: user.oneRepMaxFormula,
+  emailVerified: user.emailVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  deletionScheduledFor: user.deletionScheduledFor,
+});
+
 // Register
 router.post('/register', async (req, res) => {
   try {
-    const { name, email, password } = req.body;
+    const { name, email, password, timezone } = req.body;
 
     if (!name || !email || !password) {
       return res.status(400).json({ message: 'All fields are required' });
@@ -22,21 +59,18 @@ router.post('/register', async (req, res) => {
       return res.status(400).json({ message: 'Email already exists' });
     }
 
-    const user = new User({ name, email, password });
+    // The browser's timezone; days are bucketed in it until the user changes it
+    const user = new User({ name, email, password, timezone: isValidTimeZone(timezone) ? timezone : 'UTC' });
     await user.save();
 
-    const token = jwt.sign({ userId: user._id }, process.env.JWT_SECRET ?? 'fallback-secret', {
-      expiresIn: '7d',
-    });
+    await startSession(req, res, user);
+
+    // Registration still succeeds when the email can't be sent; the user can ask for another
+    await sendEmailVerification(user).catch((error) => console.error('Verification email error:', error.message));
 
     res.status(201).json({
       message: 'User registered successfully',
-      token,
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-      },
+      user: toAuthUser(user),
     });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -62,22 +96,330 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ message: 'Invalid email or password' });
     }
 
-    const token = jwt.sign({ userId: user._id }, process.env.JWT_SECRET ?? 'fallback-secret', {
-      expiresIn: '7d',
+    // With two-factor on, the session only starts once a code is entered
+    if (user.twoFactorEnabled) {
+      return res.json({
+        message: 'Two-factor code required',
+        twoFactorRequired: true,
+        challengeToken: await issueLoginChallenge(user),
+      });
+    }
+
+    await startSession(req, res, user);
+
+    res.json({
+      message: 'Login successful',
+      user: toAuthUser(user),
     });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Second login step: an authenticator or recovery code for the challenge from /login
+router.post('/login/two-factor', async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Challenge token and a code are required' });
+    }
+
+    const challenge = await recordLoginChallengeAttempt(challengeToken);
+    if (!challenge) {
+      return res
+        .status(401)
+        .json({ message: 'Login attempt has expired, please sign in again', challengeExpired: true });
+    }
+
+    const isCodeValid = await verifySecondFactor(challenge.userId, { code, recoveryCode });
+    if (!isCodeValid) {
+      return res.status(401).json({ message: recoveryCode ? 'Invalid recovery code' : 'Invalid code' });
+    }
+
+    await consumeToken(challengeToken, 'two-factor-login');
+    const user = await User.findById(challenge.userId);
+    await startSession(req, res, user);
 
     res.json({
       message: 'Login successful',
-      token,
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-      },
+      user: toAuthUser(user),
+      ...(recoveryCode && { recoveryCodesRemaining: await countRecoveryCodes(user._id) }),
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Exchange the refresh token cookie for new tokens
+router.post('/refresh', async (req, res) => {
+  try {
+    const session = await refreshSession(req, res);
+
+    if (!session) {
+      clearAuthCookies(res);
+      return res.status(401).json({ message: 'Session has ended' });
+    }
+
+    res.json({ message: 'Session refreshed' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Log out this device
+router.post('/logout', async (req, res) => {
+  try {
+    const token = readRefreshToken(req);
+    if (token) {
+      await Session.deleteOne({ _id: token.sessionId });
+    }
+
+    clearAuthCookies(res);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Email a password reset link. Answers the same whether or not the account exists.
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ message: 'Email is required' });
+    }
+
+    const user = await User.findOne({ email: email.trim().toLowerCase() });
+    if (user) {
+      await sendPasswordReset(user);
+    }
+
+    res.json({ message: 'If an account exists for that email, a reset link is on its way' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Choose a new password with the token from a reset link. Logs out every device.
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({ message: 'Token and password are required' });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ message: 'Password must be at least 6 characters' });
+    }
+
+    const resetToken = await consumeToken(token, 'password-reset');
+    const user = resetToken && (await User.findById(resetToken.userId));
+    if (!user) {
+      return res.status(400).json({ message: 'Reset link is invalid or has expired' });
+    }
+
+    user.password = password;
+    // Opening the link proves the user owns the address it was sent to
+    if (user.email === resetToken.email && !user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    await Session.deleteMany({ userId: user._id });
+    clearAuthCookies(res);
+
+    res.json({ message: 'Password reset successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Confirm an email address with the token from a verification link
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: 'Token is required' });
+    }
+
+    const verificationToken = await consumeToken(token, 'email-verification');
+    const user = verificationToken && (await User.findById(verificationToken.userId));
+    if (!user) {
+      return res.status(400).json({ message: 'Verification link is invalid or has expired' });
+    }
+
+    if (user.email !== verificationToken.email) {
+      return res.status(400).json({ message: 'Verification link was sent to a previous email address' });
+    }
+
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+
+    res.json({ message: 'Email verified successfully', emailVerified: true });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Send another verification email to the signed-in user
+router.post('/resend-verification', authenticate, async (req, res) => {
+  try {
+    if (req.user.emailVerified) {
+      return res.status(400).json({ message: 'Email is already verified' });
+    }
+
+    await sendEmailVerification(req.user);
+
+    res.json({ message: 'Verification email sent' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Start two-factor setup: a secret and QR code for an authenticator app
+router.post('/two-factor/setup', authenticate, async (req, res) => {
+  try {
+    if (req.user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json(await beginSetup(req.user));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Finish setup with a code from the app; returns the recovery codes, shown only this once
+router.post('/two-factor/enable', authenticate, async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ message: 'Code is required' });
+    }
+
+    if (req.user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const recoveryCodes = await confirmSetup(req.user._id, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ message: 'Invalid code' });
+    }
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Disabling two-factor or replacing recovery codes needs the password again
+const checkPassword = async (req, res) => {
+  const { password } = req.body;
+
+  if (!password) {
+    res.status(400).json({ message: 'Password is required' });
+    return false;
+  }
+
+  const user = await User.findById(req.user._id);
+  if (!(await user.comparePassword(password))) {
+    res.status(401).json({ message: 'Password is incorrect' });
+    return false;
+  }
+
+  return true;
+};
+
+router.post('/two-factor/disable', authenticate, async (req, res) => {
+  try {
+    if (!(await checkPassword(req, res))) return;
+
+    if (!req.user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    await disableTwoFactor(req.user._id);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Replace the recovery codes, e.g. after using some of them
+router.post('/two-factor/recovery-codes', authenticate, async (req, res) => {
+  try {
+    if (!(await checkPassword(req, res))) return;
+
+    if (!req.user.twoFactorEnabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    res.json({ message: 'Recovery codes replaced', recoveryCodes: await replaceRecoveryCodes(req.user._id) });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// List the devices signed in to this account, most recently active first
+router.get('/sessions', authenticate, async (req, res) => {
+  try {
+    const sessions = await Session.find({ userId: req.user._id }).sort({ lastSeenAt: -1 }).lean();
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        device: describeDevice(session.userAgent),
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session._id.equals(req.sessionId),
+      })),
     });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
+// Log out one device
+router.delete('/sessions/:id', authenticate, async (req, res) => {
+  try {
+    const session = await Session.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+
+    if (!session) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    if (session._id.equals(req.sessionId)) {
+      clearAuthCookies(res);
+    }
+
+    res.json({ message: 'Session logged out', current: session._id.equals(req.sessionId) });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Log out every device, including this one
+router.delete('/sessions', authenticate, async (req, res) => {
+  try {
+    const { deletedCount } = await Session.deleteMany({ userId: req.user._id });
+
+    clearAuthCookies(res);
+    res.json({ message: 'All sessions logged out', count: deletedCount });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,117 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import Habit from '../models/Habit.js';
+import Workout from '../models/Workout.js';
+import { buildArchive } from '../services/archive.js';
+import { toCsv } from '../utils/csv.js';
+import { getUserToday, resolveTimeZone, toDateKey, toLocalDay } from '../utils/dates.js';
+
+const router = express.Router();
+
+// Serve a file download named e.g. workouts-2024-01-15.csv
+const sendDownload = (req, res, name, extension, contentType, body) => {
+  const dateKey = toDateKey(getUserToday(resolveTimeZone(req.user)));
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${name}-${dateKey}.${extension}"`);
+  res.send(body);
+};
+
+// Workouts as CSV, one row per set
+router.get('/workouts.csv', authenticate, async (req, res) => {
+  try {
+    const timeZone = resolveTimeZone(req.user);
+    const workouts = await Workout.find({ userId: req.user._id, status: { $ne: 'planned' } })
+      .sort({ date: 1 })
+      .lean();
+
+    const rows = [];
+    workouts.forEach((workout) => {
+      const date = toDateKey(toLocalDay(workout.date, timeZone));
+      workout.exercises.forEach((exercise) => {
+        exercise.sets.forEach((set, index) => {
+          rows.push([
+            date,
+            workout.workoutType,
+            exercise.name,
+            exercise.muscleGroup,
+            exercise.equipment,
+            exercise.trackingType ?? 'weightReps',
+            index + 1,
+            set.reps,
+            set.weight,
+            workout.weightUnit,
+            set.duration,
+            set.distance,
+            set.rpe,
+            set.setType ?? 'working',
+            exercise.groupType,
+          ]);
+        });
+      });
+    });
+
+    const csv = toCsv(
+      [
+        'date',
+        'workoutType',
+        'exercise',
+        'muscleGroup',
+        'equipment',
+        'trackingType',
+        'set',
+        'reps',
+        'weight',
+        'unit',
+        'durationSeconds',
+        'distanceMetres',
+        'rpe',
+        'setType',
+        'group',
+      ],
+      rows
+    );
+    sendDownload(req, res, 'workouts', 'csv', 'text/csv; charset=utf-8', csv);
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Habits as CSV, one row per completion
+router.get('/habits.csv', authenticate, async (req, res) => {
+  try {
+    const habits = await Habit.find({ userId: req.user._id }).sort({ createdAt: 1 }).lean();
+
+    const rows = [];
+    habits.forEach((habit) => {
+      [...habit.completions]
+        .sort((a, b) => new Date(a.date) - new Date(b.date))
+        .forEach((completion) => {
+          rows.push([
+            toDateKey(completion.date),
+            habit.name,
+            habit.category,
+            habit.frequency,
+            completion.completed,
+            completion.value,
+          ]);
+        });
+    });
+
+    const csv = toCsv(['date', 'habit', 'category', 'frequency', 'completed', 'value'], rows);
+    sendDownload(req, res, 'habits', 'csv', 'text/csv; charset=utf-8', csv);
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Everything the user owns as one JSON document, for backup or re-import
+router.get('/archive', authenticate, async (req, res) => {
+  try {
+    const archive = await buildArchive(req.user);
+    sendDownload(req, res, 'habit-gym-tracker-backup', 'json', 'application/json', JSON.stringify(archive, null, 2));
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import express from 'express';
 import { authenticate } from '../middleware/auth.js';
 import Habit from '../models/Habit.js';
+import { addDays, getUserToday, parseDay, resolveTimeZone, startOfDay, toDateKey } from '../utils/dates.js';
+import { getCompletedDateKeys, getDayStatus, getHabitStats, streakInDays } from '../utils/habitSchedule.js';
+import { awardStreakFreeze } from '../utils/streakFreezes.js';
 
 const router = express.Router();
 
@@ -14,17 +17,10 @@ router.get('/', authenticate, async (req, res) => {
     
     // If date is provided, filter completions for that date
     if (date) {
-      const targetDate = new Date(date);
-      targetDate.setHours(0, 0, 0, 0);
-      const nextDay = new Date(targetDate);
-      nextDay.setDate(nextDay.getDate() + 1);
+      const dateKey = toDateKey(startOfDay(date));
 
       habits.forEach((habit) => {
-        habit.completions = habit.completions.filter((c) => {
-          const completionDate = new Date(c.date);
-          completionDate.setHours(0, 0, 0, 0);
-          return completionDate >= targetDate && completionDate < nextDay;
-        });
+        habit.completions = habit.completions.filter((c) => toDateKey(c.date) === dateKey);
       });
     }
 
@@ -38,67 +34,38 @@ router.get('/', authenticate, async (req, res) => {
 router.get('/summary/daily', authenticate, async (req, res) => {
   try {
     const { date } = req.query;
-    const targetDate = date ? new Date(date) : new Date();
-    targetDate.setHours(0, 0, 0, 0);
-    const nextDay = new Date(targetDate);
-    nextDay.setDate(nextDay.getDate() + 1);
+    const targetDate = parseDay(date, resolveTimeZone(req.user));
 
     const habits = await Habit.find({ userId: req.user._id });
 
+    let dueToday = 0;
     let completedToday = 0;
     let missedToday = 0;
     let totalHabits = habits.length;
     let currentStreak = 0;
 
     habits.forEach((habit) => {
-      const todayCompletion = habit.completions.find((c) => {
-        const cDate = new Date(c.date);
-        cDate.setHours(0, 0, 0, 0);
-        return cDate.getTime() === targetDate.getTime() && c.completed;
-      });
+      const { due, completed, frozen } = getDayStatus(habit, targetDate);
 
-      if (todayCompletion) {
+      if (completed) {
         completedToday++;
-      } else {
-        missedToday++;
       }
-
-      // Calculate best streak across all habits
-      const sortedCompletions = habit.completions
-        .filter((c) => c.completed)
-        .sort((a, b) => new Date(b.date) - new Date(a.date));
-
-      if (sortedCompletions.length > 0) {
-        const lastCompletion = new Date(sortedCompletions[0].date);
-        lastCompletion.setHours(0, 0, 0, 0);
-
-        if (lastCompletion.getTime() === targetDate.getTime() || lastCompletion.getTime() === targetDate.getTime() - 86400000) {
-          let streak = 1;
-          let checkDate = new Date(lastCompletion);
-          checkDate.setDate(checkDate.getDate() - 1);
-
-          for (let i = 1; i < sortedCompletions.length; i++) {
-            const completionDate = new Date(sortedCompletions[i].date);
-            completionDate.setHours(0, 0, 0, 0);
-
-            if (completionDate.getTime() === checkDate.getTime()) {
-              streak++;
-              checkDate.setDate(checkDate.getDate() - 1);
-            } else {
-              break;
-            }
-          }
-
-          currentStreak = Math.max(currentStreak, streak);
-        }
+      if (due) {
+        dueToday++;
+        if (!completed && !frozen) missedToday++;
       }
+
+      // Best current streak across all habits, in days
+      const stats = getHabitStats(habit, { to: targetDate });
+      currentStreak = Math.max(currentStreak, streakInDays(stats.currentStreak, stats.streakUnit));
     });
 
-    const completionRate = totalHabits > 0 ? (completedToday / totalHabits) * 100 : 0;
+    const completionRate = dueToday > 0 ? ((dueToday - missedToday) / dueToday) * 100 : 0;
 
     res.json({
       date: targetDate.toISOString().split('T')[0],
       totalHabits,
+      dueToday,
       completedToday,
       missedToday,
       currentStreak,
@@ -138,7 +105,7 @@ router.post('/', authenticate, async (req, res) => {
       frequency: frequency ?? 'daily',
       weeklyDays: weeklyDays ?? [],
       customFrequency: customFrequency ?? null,
-      startDate: startDate ? new Date(startDate) : new Date(),
+      startDate: parseDay(startDate, resolveTimeZone(req.user)),
       reminderTime: reminderTime ?? null,
       reminderEnabled: reminderEnabled ?? false,
       goalType: goalType ?? 'yes_no',
@@ -183,7 +150,7 @@ router.put('/:id', authenticate, async (req, res) => {
     if (frequency) habit.frequency = frequency;
     if (weeklyDays !== undefined) habit.weeklyDays = weeklyDays;
     if (customFrequency !== undefined) habit.customFrequency = customFrequency;
-    if (startDate) habit.startDate = new Date(startDate);
+    if (startDate) habit.startDate = startOfDay(startDate);
     if (reminderTime !== undefined) habit.reminderTime = reminderTime;
     if (reminderEnabled !== undefined) habit.reminderEnabled = reminderEnabled;
     if (goalType) habit.goalType = goalType;
@@ -223,15 +190,10 @@ router.post('/:id/complete', authenticate, async (req, res) => {
       return res.status(404).json({ message: 'Habit not found' });
     }
 
-    const completionDate = date ? new Date(date) : new Date();
-    completionDate.setHours(0, 0, 0, 0);
+    const completionDate = parseDay(date, resolveTimeZone(req.user));
 
     // Check if already completed for this date
-    const existingCompletion = habit.completions.find((c) => {
-      const cDate = new Date(c.date);
-      cDate.setHours(0, 0, 0, 0);
-      return cDate.getTime() === completionDate.getTime();
-    });
+    const existingCompletion = habit.completions.find((c) => toDateKey(c.date) === toDateKey(completionDate));
 
     if (existingCompletion) {
       existingCompletion.completed = true;
@@ -246,8 +208,10 @@ router.post('/:id/complete', authenticate, async (req, res) => {
       });
     }
 
+    const freezeEarned = awardStreakFreeze(habit, completionDate);
+
     await habit.save();
-    res.json({ message: 'Habit marked as completed', habit });
+    res.json({ message: 'Habit marked as completed', habit, freezeEarned });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
@@ -263,12 +227,9 @@ router.post('/:id/uncomplete', authenticate, async (req, res) => {
       return res.status(404).json({ message: 'Habit not found' });
     }
 
-    const completionDate = date ? new Date(date) : new Date();
-    completionDate.setHours(0, 0, 0, 0);
+    const completionDate = parseDay(date, resolveTimeZone(req.user));
 
-    const existingCompletion = habit.completions.find(
-      (c) => new Date(c.date).setHours(0, 0, 0, 0) === completionDate.getTime()
-    );
+    const existingCompletion = habit.completions.find((c) => toDateKey(c.date) === toDateKey(completionDate));
 
     if (existingCompletion) {
       existingCompletion.completed = false;
@@ -281,126 +242,102 @@ router.post('/:id/uncomplete', authenticate, async (req, res) => {
   }
 });
 
-// Get habit analytics with date range support
-router.get('/:id/analytics', authenticate, async (req, res) => {
+// Spend a streak freeze on a missed due day so it no longer breaks the streak
+router.post('/:id/freeze', authenticate, async (req, res) => {
   try {
-    const { days = 30 } = req.query;
+    const { date } = req.body;
+
+    if (!date || isNaN(new Date(date).getTime())) {
+      return res.status(400).json({ message: 'A valid date is required' });
+    }
+
     const habit = await Habit.findOne({ _id: req.params.id, userId: req.user._id });
 
     if (!habit) {
       return res.status(404).json({ message: 'Habit not found' });
     }
 
-    const now = new Date();
-    const startDate = new Date(now);
-    startDate.setDate(startDate.getDate() - parseInt(days));
-    startDate.setHours(0, 0, 0, 0);
+    const freezeDate = startOfDay(date);
+    if (freezeDate >= getUserToday(resolveTimeZone(req.user))) {
+      return res.status(400).json({ message: 'Only past days can be frozen' });
+    }
 
-    // Filter completions within date range
-    const filteredCompletions = habit.completions.filter((c) => {
-      const cDate = new Date(c.date);
-      cDate.setHours(0, 0, 0, 0);
-      return cDate >= startDate;
-    });
+    const { due, completed, frozen } = getDayStatus(habit, freezeDate);
+    if (frozen) {
+      return res.status(400).json({ message: 'This day is already frozen' });
+    }
+    if (!due || completed) {
+      return res.status(400).json({ message: 'Only missed due days can be frozen' });
+    }
+    if (habit.streakFreeze < 1) {
+      return res.status(400).json({ message: 'No streak freezes available' });
+    }
 
-    const completedCount = filteredCompletions.filter((c) => c.completed).length;
-    const totalDaysInRange = Math.ceil((now - startDate) / (1000 * 60 * 60 * 24));
-    const completionRate = totalDaysInRange > 0 ? (completedCount / totalDaysInRange) * 100 : 0;
+    habit.frozenDays.push(freezeDate);
+    habit.streakFreeze -= 1;
 
-    // Calculate streaks
-    const sortedCompletions = habit.completions
-      .filter((c) => c.completed)
-      .sort((a, b) => new Date(b.date) - new Date(a.date));
+    await habit.save();
+    res.json({ message: 'Streak freeze applied', habit });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
 
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let tempStreak = 0;
-
-    if (sortedCompletions.length > 0) {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const lastCompletion = new Date(sortedCompletions[0].date);
-      lastCompletion.setHours(0, 0, 0, 0);
-
-      // Calculate current streak
-      if (lastCompletion.getTime() === today.getTime() || lastCompletion.getTime() === today.getTime() - 86400000) {
-        currentStreak = 1;
-        let checkDate = new Date(lastCompletion);
-        checkDate.setDate(checkDate.getDate() - 1);
-
-        for (let i = 1; i < sortedCompletions.length; i++) {
-          const completionDate = new Date(sortedCompletions[i].date);
-          completionDate.setHours(0, 0, 0, 0);
-
-          if (completionDate.getTime() === checkDate.getTime()) {
-            currentStreak++;
-            checkDate.setDate(checkDate.getDate() - 1);
-          } else {
-            break;
-          }
-        }
-      }
+// Get habit analytics with date range support
+router.get('/:id/analytics', authenticate, async (req, res) => {
+  try {
+    const { days = 30 } = req.query;
+    const habit = await Habit.findOne({ _id: req.params.id, userId: req.user._id });
 
-      // Calculate longest streak
-      for (let i = 0; i < sortedCompletions.length; i++) {
-        if (i === 0) {
-          tempStreak = 1;
-          longestStreak = 1;
-        } else {
-          const prevDate = new Date(sortedCompletions[i - 1].date);
-          prevDate.setHours(0, 0, 0, 0);
-          const currDate = new Date(sortedCompletions[i].date);
-          currDate.setHours(0, 0, 0, 0);
-          const daysDiff = Math.floor((prevDate - currDate) / (1000 * 60 * 60 * 24));
-
-          if (daysDiff === 1) {
-            tempStreak++;
-          } else {
-            longestStreak = Math.max(longestStreak, tempStreak);
-            tempStreak = 1;
-          }
-        }
-      }
-      longestStreak = Math.max(longestStreak, tempStreak);
+    if (!habit) {
+      return res.status(404).json({ message: 'Habit not found' });
     }
 
+    const today = getUserToday(resolveTimeZone(req.user));
+    const startDate = addDays(today, -parseInt(days));
+
+    const completedKeys = getCompletedDateKeys(habit);
+    const { completionRate, currentStreak, longestStreak, streakUnit, missedCount } = getHabitStats(habit, {
+      from: startDate,
+      to: today,
+    });
+
+    const completionsInRange = habit.completions.filter((c) => c.completed && startOfDay(c.date) >= startDate);
+
     // Weekly consistency data
     const weeklyData = [];
     for (let i = 0; i < 7; i++) {
       weeklyData.push({ day: i, count: 0 });
     }
-    filteredCompletions
-      .filter((c) => c.completed)
-      .forEach((c) => {
-        const day = new Date(c.date).getDay();
-        weeklyData[day].count++;
-      });
+    completionsInRange.forEach((c) => {
+      const day = new Date(c.date).getUTCDay();
+      weeklyData[day].count++;
+    });
 
     // Heatmap data (last 30 days)
     const heatmapData = [];
     for (let i = 29; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      date.setHours(0, 0, 0, 0);
-
-      const completion = habit.completions.find((c) => {
-        const cDate = new Date(c.date);
-        cDate.setHours(0, 0, 0, 0);
-        return cDate.getTime() === date.getTime() && c.completed;
-      });
+      const date = addDays(today, -i);
+      const { due, completed, frozen } = getDayStatus(habit, date, completedKeys);
+      const completion = habit.completions.find((c) => c.completed && toDateKey(c.date) === toDateKey(date));
 
       heatmapData.push({
-        date: date.toISOString().split('T')[0],
-        completed: !!completion,
+        date: toDateKey(date),
+        due,
+        completed,
+        frozen,
         value: completion?.value ?? null,
       });
     }
 
     res.json({
-      completionRate: Math.round(completionRate * 100) / 100,
+      completionRate,
       currentStreak,
       longestStreak,
-      totalCompletions: completedCount,
+      streakUnit,
+      streakFreezes: habit.streakFreeze,
+      totalCompletions: completionsInRange.length,
+      missedCount,
       weeklyData,
       heatmapData,
     });
@@ -0,0 +1,90 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { commitImport, prepareImport } from '../services/workoutImport.js';
+import { RESTORE_MODES, restoreArchive } from '../services/archive.js';
+import { resolveTimeZone } from '../utils/dates.js';
+
+const router = express.Router();
+
+const readImportRequest = (req) => ({
+  csv: req.body.csv,
+  source: req.body.source,
+  weightUnit: req.body.weightUnit ?? req.user.weightUnit,
+  sourceUnit: req.body.sourceUnit,
+  mappings: req.body.mappings ?? {},
+  userId: req.user._id,
+  timeZone: resolveTimeZone(req.user),
+});
+
+// Dry run: parse an export from another app and show what importing it would create
+router.post('/workouts/preview', authenticate, async (req, res) => {
+  try {
+    const result = await prepareImport(readImportRequest(req));
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+
+    const { source, exercises, workouts, skippedRows } = result;
+    res.json({
+      source,
+      exercises,
+      workouts: workouts.map((workout) => ({
+        importKey: workout.importKey,
+        date: workout.date,
+        duration: workout.duration,
+        notes: workout.notes,
+        duplicate: workout.duplicate,
+        exercises: workout.exercises.map((exercise) => ({ name: exercise.name, sets: exercise.sets.length })),
+      })),
+      summary: {
+        workouts: workouts.length,
+        duplicates: workouts.filter((workout) => workout.duplicate).length,
+        sets: workouts.reduce((sum, w) => sum + w.exercises.reduce((total, e) => total + e.sets.length, 0), 0),
+        skippedRows,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Import the workouts from an export, skipping any already imported
+router.post('/workouts/commit', authenticate, async (req, res) => {
+  try {
+    const result = await prepareImport(readImportRequest(req));
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+
+    const created = await commitImport(result, req.user._id);
+    res.status(201).json({
+      message: `Imported ${created.length} workouts`,
+      imported: created.length,
+      duplicatesSkipped: result.workouts.length - created.length,
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Restore a full account archive from GET /export/archive
+router.post('/archive', authenticate, async (req, res) => {
+  try {
+    const { archive, mode = 'merge' } = req.body;
+
+    if (!RESTORE_MODES.includes(mode)) {
+      return res.status(400).json({ message: 'Mode must be merge or replace' });
+    }
+
+    const { summary, errors } = await restoreArchive(archive, req.user._id, mode);
+    if (errors) {
+      return res.status(400).json({ message: 'Archive is invalid', errors });
+    }
+
+    res.json({ message: 'Archive restored successfully', summary });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,149 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import Measurement from '../models/Measurement.js';
+import { rebuildBodyweightRecords } from '../services/personalRecords.js';
+import { parseDay, resolveTimeZone, startOfDay } from '../utils/dates.js';
+
+const router = express.Router();
+
+const VALUE_FIELDS = ['weight', 'bodyFat', 'waist', 'chest', 'arms', 'hips'];
+
+// Pick the measurement values present in the body. Returns { values } or { error }.
+// null clears a value; anything else must be a non-negative number.
+const pickValues = (body) => {
+  const values = {};
+  for (const field of VALUE_FIELDS) {
+    if (body[field] === undefined || body[field] === '') continue;
+    if (body[field] === null) {
+      values[field] = null;
+      continue;
+    }
+
+    const value = Number(body[field]);
+    if (!Number.isFinite(value) || value < 0) {
+      return { error: `${field} must be a non-negative number` };
+    }
+    if (field === 'bodyFat' && value > 100) {
+      return { error: 'bodyFat must be a percentage between 0 and 100' };
+    }
+    values[field] = value;
+  }
+
+  if (body.weightUnit !== undefined) {
+    if (!['kg', 'lb'].includes(body.weightUnit)) return { error: 'weightUnit must be kg or lb' };
+    values.weightUnit = body.weightUnit;
+  }
+  if (body.lengthUnit !== undefined) {
+    if (!['cm', 'in'].includes(body.lengthUnit)) return { error: 'lengthUnit must be cm or in' };
+    values.lengthUnit = body.lengthUnit;
+  }
+  if (body.notes !== undefined) values.notes = body.notes;
+  return { values };
+};
+
+// Get measurements, oldest first, optionally limited to a date range
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const { from, to } = req.query;
+    const query = { userId: req.user._id };
+
+    if (from || to) {
+      query.date = {};
+      if (from) query.date.$gte = startOfDay(from);
+      if (to) query.date.$lte = startOfDay(to);
+    }
+
+    const measurements = await Measurement.find(query).sort({ date: 1 }).lean();
+    res.json({ measurements });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Log measurements for a day; values merge into that day's entry if one exists
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const { values, error } = pickValues(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (!VALUE_FIELDS.some((field) => values[field] !== undefined && values[field] !== null)) {
+      return res.status(400).json({ message: 'At least one measurement is required' });
+    }
+
+    const date = parseDay(req.body.date, resolveTimeZone(req.user));
+    let measurement = await Measurement.findOne({ userId: req.user._id, date });
+    const created = !measurement;
+
+    if (created) {
+      measurement = new Measurement({ userId: req.user._id, date });
+    }
+    measurement.set(values);
+
+    await measurement.save();
+    if (values.weight !== undefined) await rebuildBodyweightRecords(req.user._id);
+
+    res.status(created ? 201 : 200).json({
+      message: created ? 'Measurement logged successfully' : 'Measurement updated successfully',
+      measurement,
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update a measurement entry
+router.put('/:id', authenticate, async (req, res) => {
+  try {
+    const measurement = await Measurement.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!measurement) {
+      return res.status(404).json({ message: 'Measurement not found' });
+    }
+
+    const { values, error } = pickValues(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (req.body.date) {
+      const date = startOfDay(req.body.date);
+      const existing = await Measurement.findOne({ userId: req.user._id, date, _id: { $ne: measurement._id } });
+      if (existing) {
+        return res.status(400).json({ message: 'There is already an entry for this date' });
+      }
+      measurement.date = date;
+    }
+    measurement.set(values);
+
+    await measurement.save();
+    // Records of bodyweight exercises count the bodyweight of the day
+    if (values.weight !== undefined || (req.body.date && measurement.weight !== null)) {
+      await rebuildBodyweightRecords(req.user._id);
+    }
+
+    res.json({ message: 'Measurement updated successfully', measurement });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete a measurement entry
+router.delete('/:id', authenticate, async (req, res) => {
+  try {
+    const measurement = await Measurement.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+
+    if (!measurement) {
+      return res.status(404).json({ message: 'Measurement not found' });
+    }
+
+    if (measurement.weight !== null) await rebuildBodyweightRecords(req.user._id);
+
+    res.json({ message: 'Measurement deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
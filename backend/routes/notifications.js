@@ -0,0 +1,77 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import PushSubscription from '../models/PushSubscription.js';
+import { isPushConfigured, sendPushToUser } from '../services/push.js';
+
+const router = express.Router();
+
+// Public VAPID key the browser needs to create a push subscription
+router.get('/vapid-public-key', authenticate, (req, res) => {
+  if (!isPushConfigured()) {
+    return res.status(503).json({ message: 'Push notifications are not configured' });
+  }
+  res.json({ publicKey: process.env.VAPID_PUBLIC_KEY });
+});
+
+// Save this browser's push subscription
+router.post('/subscribe', authenticate, async (req, res) => {
+  try {
+    const { subscription } = req.body;
+
+    if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      return res.status(400).json({ message: 'A valid push subscription is required' });
+    }
+
+    // An endpoint belongs to one browser; re-subscribing moves it to the current user
+    const saved = await PushSubscription.findOneAndUpdate(
+      { endpoint: subscription.endpoint },
+      {
+        userId: req.user._id,
+        keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+        userAgent: req.get('user-agent') ?? null,
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+
+    res.status(201).json({ message: 'Subscribed to notifications', subscriptionId: saved._id });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Remove this browser's push subscription
+router.post('/unsubscribe', authenticate, async (req, res) => {
+  try {
+    const { endpoint } = req.body;
+
+    if (!endpoint) {
+      return res.status(400).json({ message: 'Endpoint is required' });
+    }
+
+    await PushSubscription.deleteOne({ endpoint, userId: req.user._id });
+    res.json({ message: 'Unsubscribed from notifications' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Send a test notification to all of the user's browsers
+router.post('/test', authenticate, async (req, res) => {
+  try {
+    if (!isPushConfigured()) {
+      return res.status(503).json({ message: 'Push notifications are not configured' });
+    }
+
+    const delivered = await sendPushToUser(req.user._id, {
+      title: '🔔 Notifications are on',
+      body: 'You will get a reminder at each habit’s reminder time.',
+      url: '/habits',
+    });
+
+    res.json({ message: 'Test notification sent', delivered });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
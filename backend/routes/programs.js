@@ -0,0 +1,172 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import Program from '../models/Program.js';
+import Workout from '../models/Workout.js';
+import { addDays, getUserToday, parseDay, resolveTimeZone } from '../utils/dates.js';
+
+const router = express.Router();
+
+// Returns an error message for the first invalid session/exercise, or null
+const validateSessions = (sessions) => {
+  if (!sessions || !Array.isArray(sessions) || sessions.length === 0) {
+    return 'At least one session is required';
+  }
+
+  for (const session of sessions) {
+    if (!session.name) {
+      return 'Session name is required';
+    }
+    if (!Number.isInteger(session.dayOfWeek) || session.dayOfWeek < 0 || session.dayOfWeek > 6) {
+      return `Session "${session.name}" needs a day of the week between 0 (Sunday) and 6 (Saturday)`;
+    }
+    if (!Array.isArray(session.exercises) || session.exercises.length === 0) {
+      return `Session "${session.name}" needs at least one exercise`;
+    }
+
+    for (const exercise of session.exercises) {
+      if (!exercise.name || !exercise.sets || !exercise.reps) {
+        return `Every exercise in "${session.name}" needs a name, sets and reps`;
+      }
+      if (exercise.progressionType === 'percentage') {
+        if (!exercise.trainingMax || !Array.isArray(exercise.weekPercentages) || exercise.weekPercentages.length === 0) {
+          return `${exercise.name} needs a training max and weekly percentages`;
+        }
+      } else if (exercise.startWeight === undefined || exercise.startWeight === null) {
+        return `${exercise.name} needs a starting weight`;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Get all programs for user with progress
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const programs = await Program.find({ userId: req.user._id }).sort({ createdAt: -1 }).lean();
+
+    const workouts = await Workout.find({
+      userId: req.user._id,
+      programId: { $in: programs.map((p) => p._id) },
+    })
+      .select('programId status')
+      .lean();
+
+    const programsWithProgress = programs.map((program) => {
+      const programWorkouts = workouts.filter((w) => w.programId.equals(program._id));
+      return {
+        ...program,
+        progress: {
+          total: programWorkouts.length,
+          completed: programWorkouts.filter((w) => w.status === 'completed').length,
+          planned: programWorkouts.filter((w) => w.status === 'planned').length,
+        },
+      };
+    });
+
+    res.json({ programs: programsWithProgress });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get today's planned session (must come before /:id route)
+router.get('/today', authenticate, async (req, res) => {
+  try {
+    const today = getUserToday(resolveTimeZone(req.user));
+    const tomorrow = addDays(today, 1);
+
+    const workout = await Workout.findOne({
+      userId: req.user._id,
+      status: 'planned',
+      date: { $gte: today, $lt: tomorrow },
+    })
+      .sort({ date: 1 })
+      .lean();
+
+    if (!workout) {
+      return res.json({ workout: null, program: null });
+    }
+
+    const program = await Program.findById(workout.programId).select('name weeks').lean();
+
+    res.json({ workout, program });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Get a program with its scheduled workouts
+router.get('/:id', authenticate, async (req, res) => {
+  try {
+    const program = await Program.findOne({ _id: req.params.id, userId: req.user._id }).lean();
+
+    if (!program) {
+      return res.status(404).json({ message: 'Program not found' });
+    }
+
+    const workouts = await Workout.find({ userId: req.user._id, programId: program._id })
+      .sort({ date: 1 })
+      .lean();
+
+    res.json({ program, workouts });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create a program and schedule its planned workouts
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const { name, startDate, weeks, weightUnit, sessions } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ message: 'Program name is required' });
+    }
+
+    if (!weeks || weeks < 1 || weeks > 52) {
+      return res.status(400).json({ message: 'Program length must be between 1 and 52 weeks' });
+    }
+
+    const sessionError = validateSessions(sessions);
+    if (sessionError) {
+      return res.status(400).json({ message: sessionError });
+    }
+
+    const program = new Program({
+      userId: req.user._id,
+      name,
+      startDate: parseDay(startDate, resolveTimeZone(req.user)),
+      weeks,
+      weightUnit: weightUnit ?? req.user.weightUnit,
+      sessions,
+    });
+
+    await program.save();
+    const workouts = await Workout.insertMany(program.buildPlannedWorkouts());
+
+    res.status(201).json({ message: 'Program created successfully', program, workouts });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete a program and its remaining planned workouts
+router.delete('/:id', authenticate, async (req, res) => {
+  try {
+    const program = await Program.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+
+    if (!program) {
+      return res.status(404).json({ message: 'Program not found' });
+    }
+
+    // Sessions already trained stay in the workout history
+    await Workout.deleteMany({ userId: req.user._id, programId: program._id, status: 'planned' });
+
+    res.json({ message: 'Program deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
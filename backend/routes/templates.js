@@ -0,0 +1,184 @@
+import express from 'express';
+import { authenticate } from '../middleware/auth.js';
+import WorkoutTemplate from '../models/WorkoutTemplate.js';
+import Workout from '../models/Workout.js';
+import { countedSets } from '../utils/weights.js';
+
+const router = express.Router();
+
+// Normalize the exercise list sent by the client into template exercises
+const buildTemplateExercises = (exercises) =>
+  exercises.map((exercise, index) => ({
+    name: exercise.name,
+    muscleGroup: exercise.muscleGroup ?? null,
+    equipment: exercise.equipment ?? null,
+    trackingType: exercise.trackingType ?? 'weightReps',
+    targetSets: exercise.targetSets ?? null,
+    targetReps: exercise.targetReps ?? null,
+    targetWeight: exercise.targetWeight ?? null,
+    groupId: exercise.groupId ?? null,
+    groupType: exercise.groupType ?? null,
+    order: index,
+  }));
+
+// Get all templates for user
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const templates = await WorkoutTemplate.find({ userId: req.user._id })
+      .sort({ lastUsedAt: -1, name: 1 })
+      .lean();
+
+    res.json({ templates });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create a template from scratch
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const { name, workoutType, weightUnit, exercises } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ message: 'Template name is required' });
+    }
+
+    if (!exercises || !Array.isArray(exercises) || exercises.length === 0) {
+      return res.status(400).json({ message: 'At least one exercise is required' });
+    }
+
+    const existingTemplate = await WorkoutTemplate.findOne({ userId: req.user._id, name });
+    if (existingTemplate) {
+      return res.status(400).json({ message: 'A template with this name already exists' });
+    }
+
+    const template = new WorkoutTemplate({
+      userId: req.user._id,
+      name,
+      workoutType: workoutType ?? null,
+      weightUnit: weightUnit ?? req.user.weightUnit,
+      exercises: buildTemplateExercises(exercises),
+    });
+
+    await template.save();
+    res.status(201).json({ message: 'Template created successfully', template });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Create a template from a finished workout
+router.post('/from-workout/:workoutId', authenticate, async (req, res) => {
+  try {
+    const { name } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ message: 'Template name is required' });
+    }
+
+    const workout = await Workout.findOne({ _id: req.params.workoutId, userId: req.user._id }).lean();
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (workout.status !== 'completed') {
+      return res.status(400).json({ message: 'Only completed workouts can be saved as templates' });
+    }
+
+    if (workout.exercises.length === 0) {
+      return res.status(400).json({ message: 'Workout has no exercises' });
+    }
+
+    const existingTemplate = await WorkoutTemplate.findOne({ userId: req.user._id, name });
+    if (existingTemplate) {
+      return res.status(400).json({ message: 'A template with this name already exists' });
+    }
+
+    // Use the heaviest set of each exercise as the target for the next session, leaving
+    // out warm-ups. Supersets and circuits are kept.
+    const exercises = [...workout.exercises]
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((exercise) => {
+        const sets = countedSets(exercise.sets);
+        const topSet = sets.reduce(
+          (best, set) => (!best || set.weight > best.weight ? set : best),
+          null
+        );
+        return {
+          name: exercise.name,
+          muscleGroup: exercise.muscleGroup,
+          equipment: exercise.equipment,
+          trackingType: exercise.trackingType,
+          targetSets: sets.length > 0 ? sets.length : null,
+          targetReps: topSet?.reps || null,
+          targetWeight: topSet?.weight ?? null,
+          groupId: exercise.groupId ?? null,
+          groupType: exercise.groupType ?? null,
+        };
+      });
+
+    const template = new WorkoutTemplate({
+      userId: req.user._id,
+      name,
+      workoutType: workout.workoutType ?? null,
+      weightUnit: workout.weightUnit ?? 'kg',
+      exercises: buildTemplateExercises(exercises),
+    });
+
+    await template.save();
+    res.status(201).json({ message: 'Template created successfully', template });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update a template
+router.put('/:id', authenticate, async (req, res) => {
+  try {
+    const { name, workoutType, weightUnit, exercises } = req.body;
+    const template = await WorkoutTemplate.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    if (name && name !== template.name) {
+      const existingTemplate = await WorkoutTemplate.findOne({ userId: req.user._id, name });
+      if (existingTemplate) {
+        return res.status(400).json({ message: 'A template with this name already exists' });
+      }
+      template.name = name;
+    }
+    if (workoutType !== undefined) template.workoutType = workoutType;
+    if (weightUnit) template.weightUnit = weightUnit;
+    if (exercises) {
+      if (!Array.isArray(exercises) || exercises.length === 0) {
+        return res.status(400).json({ message: 'At least one exercise is required' });
+      }
+      template.exercises = buildTemplateExercises(exercises);
+    }
+
+    await template.save();
+    res.json({ message: 'Template updated successfully', template });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete a template
+router.delete('/:id', authenticate, async (req, res) => {
+  try {
+    const template = await WorkoutTemplate.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+export default router;
@@ -3,6 +3,13 @@ import { authenticate } from '../middleware/auth.js';
 import User from '../models/User.js';
 import Habit from '../models/Habit.js';
 import Workout from '../models/Workout.js';
+import Session from '../models/Session.js';
+import { sendEmailVerification } from '../services/authTokens.js';
+import { resetPersonalRecords } from '../services/personalRecords.js';
+import { cancelAccountDeletion, DELETION_GRACE_DAYS, scheduleAccountDeletion } from '../services/accountDeletion.js';
+import { getHabitStats, streakInDays } from '../utils/habitSchedule.js';
+import { getUserToday, isValidTimeZone, resolveTimeZone } from '../utils/dates.js';
+import { ONE_REP_MAX_FORMULAS } from '../utils/weights.js';
 import bcrypt from 'bcryptjs';
 
 const router = express.Router();
@@ -32,17 +39,75 @@ router.put('/profile', authenticate, async (req, res) => {
       updateData.email = email;
     }
 
+    // A new address has to be verified again
+    const emailChanged = updateData.email && updateData.email.trim().toLowerCase() !== req.user.email;
+    if (emailChanged) {
+      updateData.emailVerified = false;
+      updateData.emailVerifiedAt = null;
+    }
+
     const user = await User.findByIdAndUpdate(req.user._id, updateData, {
       new: true,
       runValidators: true,
     }).select('-password');
 
+    if (emailChanged) {
+      await sendEmailVerification(user).catch((error) => console.error('Verification email error:', error.message));
+    }
+
     res.json({ message: 'Profile updated successfully', user });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
+// Update notification, timezone, weight unit and one-rep max formula preferences
+router.put('/preferences', authenticate, async (req, res) => {
+  try {
+    const { notificationsEnabled, timezone, weightUnit, oneRepMaxFormula } = req.body;
+    const updateData = {};
+
+    if (notificationsEnabled !== undefined) {
+      if (typeof notificationsEnabled !== 'boolean') {
+        return res.status(400).json({ message: 'notificationsEnabled must be a boolean' });
+      }
+      updateData.notificationsEnabled = notificationsEnabled;
+    }
+    if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        return res.status(400).json({ message: 'Invalid timezone' });
+      }
+      updateData.timezone = timezone;
+    }
+    if (weightUnit !== undefined) {
+      if (!['kg', 'lb'].includes(weightUnit)) {
+        return res.status(400).json({ message: 'weightUnit must be kg or lb' });
+      }
+      updateData.weightUnit = weightUnit;
+    }
+    if (oneRepMaxFormula !== undefined) {
+      if (!ONE_REP_MAX_FORMULAS.includes(oneRepMaxFormula)) {
+        return res.status(400).json({ message: `oneRepMaxFormula must be one of: ${ONE_REP_MAX_FORMULAS.join(', ')}` });
+      }
+      updateData.oneRepMaxFormula = oneRepMaxFormula;
+    }
+
+    const user = await User.findByIdAndUpdate(req.user._id, updateData, {
+      new: true,
+      runValidators: true,
+    }).select('-password');
+
+    // Personal records are rebuilt with the new formula the next time they are read
+    if (oneRepMaxFormula !== undefined && oneRepMaxFormula !== req.user.oneRepMaxFormula) {
+      await resetPersonalRecords(req.user._id);
+    }
+
+    res.json({ message: 'Preferences updated successfully', user });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // Change password
 router.put('/change-password', authenticate, async (req, res) => {
   try {
@@ -66,52 +131,78 @@ router.put('/change-password', authenticate, async (req, res) => {
     user.password = newPassword;
     await user.save();
 
+    // Sign out every other device that knew the old password
+    await Session.deleteMany({ userId: user._id, _id: { $ne: req.sessionId } });
+
     res.json({ message: 'Password changed successfully' });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
+// Schedule the account and all its data for deletion after a grace period
+router.delete('/account', authenticate, async (req, res) => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return res.status(400).json({ message: 'Password is required' });
+    }
+
+    const user = await User.findById(req.user._id);
+    const isPasswordValid = await user.comparePassword(password);
+
+    if (!isPasswordValid) {
+      return res.status(401).json({ message: 'Password is incorrect' });
+    }
+
+    if (user.deletionScheduledFor) {
+      return res.status(400).json({ message: 'Account deletion is already scheduled' });
+    }
+
+    const updatedUser = await scheduleAccountDeletion(user._id, req.sessionId);
+
+    res.json({
+      message: `Account will be deleted in ${DELETION_GRACE_DAYS} days`,
+      deletionScheduledFor: updatedUser.deletionScheduledFor,
+      user: updatedUser,
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Undo a scheduled deletion during the grace period
+router.post('/account/restore', authenticate, async (req, res) => {
+  try {
+    if (!req.user.deletionScheduledFor) {
+      return res.status(400).json({ message: 'Account is not scheduled for deletion' });
+    }
+
+    const user = await cancelAccountDeletion(req.user._id);
+
+    res.json({ message: 'Account deletion cancelled', user });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // Get user stats
 router.get('/stats', authenticate, async (req, res) => {
   try {
     const userId = req.user._id;
 
     const totalHabits = await Habit.countDocuments({ userId });
-    const totalWorkouts = await Workout.countDocuments({ userId });
+    const totalWorkouts = await Workout.countDocuments({ userId, status: { $ne: 'planned' } });
 
-    // Calculate habit streaks
+    // Longest habit streak, in days
     const habits = await Habit.find({ userId });
+    const today = getUserToday(resolveTimeZone(req.user));
     let longestStreak = 0;
 
     for (const habit of habits) {
-      const sortedCompletions = habit.completions
-        .filter((c) => c.completed)
-        .sort((a, b) => new Date(b.date) - new Date(a.date));
-
-      if (sortedCompletions.length > 0) {
-        let streak = 1;
-        let currentDate = new Date(sortedCompletions[0].date);
-        currentDate.setHours(0, 0, 0, 0);
-
-        for (let i = 1; i < sortedCompletions.length; i++) {
-          const prevDate = new Date(sortedCompletions[i - 1].date);
-          prevDate.setHours(0, 0, 0, 0);
-          const checkDate = new Date(prevDate);
-          checkDate.setDate(checkDate.getDate() - 1);
-
-          const currentCompletionDate = new Date(sortedCompletions[i].date);
-          currentCompletionDate.setHours(0, 0, 0, 0);
-
-          if (currentCompletionDate.getTime() === checkDate.getTime()) {
-            streak++;
-          } else {
-            break;
-          }
-        }
-
-        longestStreak = Math.max(longestStreak, streak);
-      }
+      const stats = getHabitStats(habit, { to: today });
+      longestStreak = Math.max(longestStreak, streakInDays(stats.longestStreak, stats.streakUnit));
     }
 
     res.json({
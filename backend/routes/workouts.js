@@ -1,15 +1,64 @@
+import crypto from 'crypto';
 import express from 'express';
 import { authenticate } from '../middleware/auth.js';
-import Workout from '../models/Workout.js';
-import ExerciseLibrary from '../models/ExerciseLibrary.js';
+import Workout, { GROUP_TYPES, SET_TYPES } from '../models/Workout.js';
+import ExerciseLibrary, { EQUIPMENT_TYPES, MUSCLE_GROUPS } from '../models/ExerciseLibrary.js';
+import WorkoutTemplate from '../models/WorkoutTemplate.js';
+import { CASE_INSENSITIVE, findVisibleByName, recordExerciseUsage, visibleTo } from '../services/exerciseLibrary.js';
+import { buildExerciseHistory } from '../services/exerciseHistory.js';
+import { attachBodyweights } from '../services/bodyweight.js';
+import {
+  backfillPersonalRecords,
+  getPersonalRecordHistory,
+  getPersonalRecords,
+  rebuildPersonalRecords,
+  recordInUnit,
+  recordSetPersonalRecords,
+} from '../services/personalRecords.js';
+import { bestOneRepMax, countedSets, loadedSets, normalizeWorkout, workoutVolume } from '../utils/weights.js';
+import { defaultTrackingType, getMissingSetFields, isCardioTracking, paceOf, TRACKING_TYPES } from '../utils/tracking.js';
+import { addDays, getUserToday, resolveTimeZone, toLocalDay } from '../utils/dates.js';
+import { dissolveSingleGroups, gatherGroups, keepsGroupsTogether } from '../utils/exerciseGroups.js';
 
 const router = express.Router();
 
+// When an action happened, as reported by a client replaying offline changes.
+// Never in the future, and never before `notBefore` (e.g. the current start time).
+const resolveActionTime = (occurredAt, notBefore) => {
+  const now = new Date();
+  const time = occurredAt ? new Date(occurredAt) : now;
+  if (isNaN(time.getTime()) || time > now) return now;
+  if (notBefore && time < notBefore) return new Date(notBefore);
+  return time;
+};
+
+// Whether `indexes` lists every index of a list of `length` items exactly once
+const isPermutation = (indexes, length) =>
+  Array.isArray(indexes) &&
+  indexes.length === length &&
+  new Set(indexes.map(Number).filter((index) => Number.isInteger(index) && index >= 0 && index < length)).size === length;
+
+// An index route parameter, or null when it isn't within a list of `length` items
+const parseIndex = (value, length) => {
+  const index = Number(value);
+  return Number.isInteger(index) && index >= 0 && index < length ? index : null;
+};
+
+// Exercises and sets are reordered, corrected and removed one by one while training.
+// Finished and planned workouts are edited as a whole with PUT /:id.
+const isLive = (workout) => workout.status === 'active' || workout.status === 'paused';
+const LIVE_ONLY_MESSAGE = 'Only exercises and sets of an active or paused workout can be changed this way';
+
+// What a workout's exercises accept, which can differ from the exercise library's lists
+const EXERCISE_MUSCLE_GROUPS = Workout.schema.path('exercises.muscleGroup').enumValues;
+const EXERCISE_EQUIPMENT = Workout.schema.path('exercises.equipment').enumValues;
+
 // Get all workouts for user with filters
 router.get('/', authenticate, async (req, res) => {
   try {
-    const { search, muscleGroup, workoutType, sortBy, startDate, endDate } = req.query;
-    const query = { userId: req.user._id };
+    const { search, muscleGroup, workoutType, sortBy, startDate, endDate, status } = req.query;
+    // Planned program sessions are not part of the history unless asked for
+    const query = { userId: req.user._id, status: status ?? { $ne: 'planned' } };
 
     // Date range filter
     if (startDate || endDate) {
@@ -44,17 +93,13 @@ router.get('/', authenticate, async (req, res) => {
       .sort(sortQuery)
       .limit(100)
       .lean();
+    await attachBodyweights(req.user._id, workouts);
 
-    // Calculate total volume for each workout
-    const workoutsWithVolume = workouts.map((workout) => {
-      const totalVolume = workout.exercises.reduce((total, exercise) => {
-        const exerciseVolume = exercise.sets.reduce((sum, set) => {
-          return sum + (set.reps * set.weight);
-        }, 0);
-        return total + exerciseVolume;
-      }, 0);
-      return { ...workout, totalVolume };
-    });
+    // Calculate total volume for each workout, in the user's unit
+    const workoutsWithVolume = workouts.map((workout) => ({
+      ...workout,
+      totalVolume: workoutVolume(normalizeWorkout(workout, req.user.weightUnit)),
+    }));
 
     res.json({ workouts: workoutsWithVolume });
   } catch (error) {
@@ -65,7 +110,15 @@ router.get('/', authenticate, async (req, res) => {
 // Start a new workout
 router.post('/start', authenticate, async (req, res) => {
   try {
-    const { date, workoutType, weightUnit } = req.body;
+    const { date, workoutType, weightUnit, templateId, clientId, occurredAt } = req.body;
+
+    // A replayed offline start returns the workout it already created
+    if (clientId) {
+      const existingWorkout = await Workout.findOne({ userId: req.user._id, clientId });
+      if (existingWorkout) {
+        return res.json({ message: 'Workout already started', workout: existingWorkout });
+      }
+    }
 
     // Check for existing active workout
     const activeWorkout = await Workout.findOne({
@@ -80,18 +133,55 @@ router.post('/start', authenticate, async (req, res) => {
       });
     }
 
+    let template = null;
+    if (templateId) {
+      template = await WorkoutTemplate.findOne({ _id: templateId, userId: req.user._id });
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+    }
+
+    // Seed the session with the template's exercises, in template order
+    const exercises = template
+      ? [...template.exercises]
+          .sort((a, b) => a.order - b.order)
+          .map((exercise, index) => ({
+            name: exercise.name,
+            muscleGroup: exercise.muscleGroup,
+            equipment: exercise.equipment,
+            trackingType: exercise.trackingType,
+            targetSets: exercise.targetSets,
+            targetReps: exercise.targetReps,
+            targetWeight: exercise.targetWeight,
+            groupId: exercise.groupId ?? null,
+            groupType: exercise.groupType ?? null,
+            sets: [],
+            order: index,
+          }))
+      : [];
+
+    const startTime = resolveActionTime(occurredAt);
     const workout = new Workout({
       userId: req.user._id,
-      date: date ? new Date(date) : new Date(),
+      date: date ? new Date(date) : startTime,
       status: 'active',
-      startTime: new Date(),
-      workoutType: workoutType ?? null,
-      weightUnit: weightUnit ?? 'kg',
-      exercises: [],
+      startTime,
+      workoutType: workoutType ?? template?.workoutType ?? null,
+      weightUnit: weightUnit ?? template?.weightUnit ?? req.user.weightUnit,
+      templateId: template?._id ?? null,
+      clientId: clientId ?? null,
+      exercises,
       notes: '',
     });
 
     await workout.save();
+
+    if (template) {
+      template.usageCount += 1;
+      template.lastUsedAt = new Date();
+      await template.save();
+    }
+
     res.status(201).json({ message: 'Workout started successfully', workout });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -110,6 +200,9 @@ router.get('/active/current', authenticate, async (req, res) => {
       return res.json({ workout: null });
     }
 
+    // Counted in the live volume of bodyweight exercises
+    await attachBodyweights(req.user._id, [workout]);
+
     let elapsedDuration = workout.duration ?? 0;
     if (workout.status === 'active') {
       const now = new Date();
@@ -139,12 +232,12 @@ router.get('/stats/summary', authenticate, async (req, res) => {
 
     const workouts = await Workout.find(query).sort({ date: -1 }).lean();
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const startOfWeek = new Date(today);
-    startOfWeek.setDate(today.getDate() - today.getDay());
+    // Bucket workouts by the user's calendar days
+    const timeZone = resolveTimeZone(req.user);
+    const today = getUserToday(timeZone);
+    const startOfWeek = addDays(today, -today.getUTCDay());
 
-    const thisWeekWorkouts = workouts.filter((w) => new Date(w.date) >= startOfWeek);
+    const thisWeekWorkouts = workouts.filter((w) => toLocalDay(w.date, timeZone) >= startOfWeek);
     const totalWorkouts = workouts.length;
     const totalDuration = workouts.reduce((sum, w) => sum + (w.duration ?? 0), 0);
     const totalCalories = workouts.reduce((sum, w) => sum + (w.caloriesBurned ?? 0), 0);
@@ -153,13 +246,12 @@ router.get('/stats/summary', authenticate, async (req, res) => {
     let streak = 0;
     const sortedWorkouts = [...workouts].sort((a, b) => new Date(b.date) - new Date(a.date));
     if (sortedWorkouts.length > 0) {
-      let checkDate = new Date(today);
+      let checkDate = today;
       for (const workout of sortedWorkouts) {
-        const workoutDate = new Date(workout.date);
-        workoutDate.setHours(0, 0, 0, 0);
+        const workoutDate = toLocalDay(workout.date, timeZone);
         if (workoutDate.getTime() === checkDate.getTime()) {
           streak++;
-          checkDate.setDate(checkDate.getDate() - 1);
+          checkDate = addDays(checkDate, -1);
         } else if (workoutDate < checkDate) {
           break;
         }
@@ -197,20 +289,41 @@ router.get('/analytics/progression', authenticate, async (req, res) => {
       query['exercises.muscleGroup'] = muscleGroup;
     }
 
-    const workouts = await Workout.find(query).sort({ date: 1 }).lean();
+    // Sets logged in kg and lb are added up in the user's unit
+    const unit = req.user.weightUnit;
+    const workouts = (
+      await attachBodyweights(req.user._id, await Workout.find(query).sort({ date: 1 }).lean())
+    ).map((workout) => normalizeWorkout(workout, unit));
 
     const exerciseProgress = {};
     const muscleGroupDistribution = {};
     const volumeTrend = [];
     const weeklyVolume = {};
+    // Distance (m) and time (s) of exercises tracked by duration or distance and duration.
+    // Paces only count sessions with both a distance and a time.
+    const cardioTotals = { distance: 0, duration: 0, sessions: 0 };
+    const cardioByExercise = {};
+    const newCardioTotals = () => ({
+      distance: 0,
+      duration: 0,
+      sessions: 0,
+      pacedDistance: 0,
+      pacedDuration: 0,
+      bestPace: null,
+    });
+    const pacedTotals = { distance: 0, duration: 0 };
+
+    const timeZone = resolveTimeZone(req.user);
 
     workouts.forEach((workout) => {
-      const workoutDate = new Date(workout.date);
-      const weekKey = `${workoutDate.getFullYear()}-W${Math.ceil(
-        (workoutDate.getDate() + new Date(workoutDate.getFullYear(), workoutDate.getMonth(), 0).getDay() + 1) / 7
+      const workoutDate = toLocalDay(workout.date, timeZone);
+      const year = workoutDate.getUTCFullYear();
+      const weekKey = `${year}-W${Math.ceil(
+        (workoutDate.getUTCDate() + new Date(Date.UTC(year, workoutDate.getUTCMonth(), 0)).getUTCDay() + 1) / 7
       )}`;
 
       let workoutVolume = 0;
+      let hasCardio = false;
 
       workout.exercises.forEach((exercise) => {
         if (exerciseName && exercise.name.toLowerCase() !== exerciseName.toLowerCase()) {
@@ -221,32 +334,54 @@ router.get('/analytics/progression', authenticate, async (req, res) => {
           exerciseProgress[exercise.name] = [];
         }
 
-        const maxWeight = exercise.sets.length > 0
-          ? Math.max(...exercise.sets.map((s) => s.weight))
+        // Warm-up sets are left out; bodyweight exercises count the bodyweight lifted
+        const sets = loadedSets(exercise, workout.bodyweight);
+        const maxWeight = sets.length > 0
+          ? Math.max(...sets.map((s) => s.weight))
           : 0;
-        const totalVolume = exercise.sets.reduce((sum, set) => sum + set.reps * set.weight, 0);
-        const maxReps = exercise.sets.length > 0
-          ? Math.max(...exercise.sets.map((s) => s.reps))
+        const totalVolume = sets.reduce((sum, set) => sum + set.reps * set.weight, 0);
+        const maxReps = sets.length > 0
+          ? Math.max(...sets.map((s) => s.reps))
           : 0;
 
-        // Estimate 1RM (Epley formula)
-        let estimated1RM = 0;
-        if (maxWeight > 0 && maxReps > 0) {
-          if (maxReps === 1) {
-            estimated1RM = maxWeight;
-          } else {
-            estimated1RM = maxWeight * (1 + maxReps / 30);
-          }
-        }
+        // Best set's estimate with the user's formula; max weight and max reps can come from different sets
+        const estimated1RM = bestOneRepMax(sets, req.user.oneRepMaxFormula);
 
-        exerciseProgress[exercise.name].push({
+        const progress = {
           date: workout.date,
           maxWeight,
           totalVolume,
-          sets: exercise.sets.length,
+          sets: sets.length,
           maxReps,
           estimated1RM,
-        });
+        };
+
+        if (isCardioTracking(exercise.trackingType)) {
+          const cardioSets = countedSets(exercise.sets);
+          const distance = cardioSets.reduce((sum, set) => sum + (set.distance ?? 0), 0);
+          const duration = cardioSets.reduce((sum, set) => sum + (set.duration ?? 0), 0);
+          Object.assign(progress, { distance, duration, pace: paceOf(distance, duration) });
+
+          if (!cardioByExercise[exercise.name]) {
+            cardioByExercise[exercise.name] = newCardioTotals();
+          }
+          const totals = cardioByExercise[exercise.name];
+          totals.distance += distance;
+          totals.duration += duration;
+          totals.sessions += 1;
+          if (progress.pace !== null) {
+            totals.pacedDistance += distance;
+            totals.pacedDuration += duration;
+            pacedTotals.distance += distance;
+            pacedTotals.duration += duration;
+            if (totals.bestPace === null || progress.pace < totals.bestPace) totals.bestPace = progress.pace;
+          }
+          cardioTotals.distance += distance;
+          cardioTotals.duration += duration;
+          hasCardio = true;
+        }
+
+        exerciseProgress[exercise.name].push(progress);
 
         workoutVolume += totalVolume;
 
@@ -264,24 +399,41 @@ router.get('/analytics/progression', authenticate, async (req, res) => {
       });
 
       weeklyVolume[weekKey] = (weeklyVolume[weekKey] ?? 0) + workoutVolume;
+      if (hasCardio) cardioTotals.sessions += 1;
     });
 
     res.json({
+      unit,
       exerciseProgress,
       muscleGroupDistribution,
       volumeTrend,
       weeklyVolume: Object.entries(weeklyVolume).map(([week, volume]) => ({ week, volume })),
+      cardio: {
+        ...cardioTotals,
+        averagePace: paceOf(pacedTotals.distance, pacedTotals.duration),
+        exercises: Object.entries(cardioByExercise).map(
+          ([name, { distance, duration, sessions, pacedDistance, pacedDuration, bestPace }]) => ({
+            name,
+            distance,
+            duration,
+            sessions,
+            averagePace: paceOf(pacedDistance, pacedDuration),
+            bestPace,
+          })
+        ),
+      },
     });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
 });
 
-// Get exercise library/autocomplete (must come before /:id route)
+// Get exercise library/autocomplete: shared entries plus the user's own custom exercises
+// (must come before /:id route). `custom=true` lists only the custom ones.
 router.get('/exercises/library', authenticate, async (req, res) => {
   try {
-    const { search, muscleGroup, equipment } = req.query;
-    const query = {};
+    const { search, muscleGroup, equipment, custom } = req.query;
+    const query = custom === 'true' ? { createdBy: req.user._id } : visibleTo(req.user._id);
 
     if (search) {
       query.name = { $regex: search, $options: 'i' };
@@ -295,11 +447,187 @@ router.get('/exercises/library', authenticate, async (req, res) => {
 
     const exercises = await ExerciseLibrary.find(query)
       .sort({ usageCount: -1, name: 1 })
-      .limit(50)
-      .select('name muscleGroup equipment usageCount')
+      .limit(custom === 'true' ? 500 : 50)
+      .select('name muscleGroup equipment trackingType secondaryMuscles notes isCustom createdBy usageCount')
       .lean();
 
-    res.json({ exercises });
+    res.json({
+      exercises: exercises.map(({ createdBy, ...exercise }) => ({
+        ...exercise,
+        trackingType: exercise.trackingType ?? defaultTrackingType(exercise),
+        isCustom: Boolean(createdBy),
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Check the fields of a custom exercise; `partial` skips missing ones (for updates).
+// Returns an error message or null.
+const validateCustomExercise = (body, partial) => {
+  const { name, muscleGroup, equipment, trackingType, secondaryMuscles, notes } = body;
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+    return 'Exercise name is required';
+  }
+  if ((!partial || muscleGroup !== undefined) && !MUSCLE_GROUPS.includes(muscleGroup)) {
+    return `Muscle group must be one of: ${MUSCLE_GROUPS.join(', ')}`;
+  }
+  if ((!partial || equipment !== undefined) && !EQUIPMENT_TYPES.includes(equipment)) {
+    return `Equipment must be one of: ${EQUIPMENT_TYPES.join(', ')}`;
+  }
+  if (trackingType !== undefined && trackingType !== null && !TRACKING_TYPES.includes(trackingType)) {
+    return `Tracking type must be one of: ${TRACKING_TYPES.join(', ')}`;
+  }
+  if (
+    secondaryMuscles !== undefined &&
+    (!Array.isArray(secondaryMuscles) || secondaryMuscles.some((muscle) => !MUSCLE_GROUPS.includes(muscle)))
+  ) {
+    return 'Secondary muscles must be a list of muscle groups';
+  }
+  if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+    return 'Notes must be text';
+  }
+  return null;
+};
+
+const pickCustomExerciseFields = ({ name, muscleGroup, equipment, trackingType, secondaryMuscles, notes }) => {
+  const fields = { name: name?.trim(), muscleGroup, equipment, trackingType, notes: notes ?? undefined };
+  if (secondaryMuscles) {
+    fields.secondaryMuscles = [...new Set(secondaryMuscles)].filter((muscle) => muscle !== muscleGroup);
+  }
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+};
+
+// Create a custom exercise
+router.post('/exercises/library', authenticate, async (req, res) => {
+  try {
+    const validationError = validateCustomExercise(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    if (await findVisibleByName(req.user._id, req.body.name)) {
+      return res.status(400).json({ message: 'An exercise with this name already exists' });
+    }
+
+    const exercise = await ExerciseLibrary.create({
+      ...pickCustomExerciseFields(req.body),
+      isCustom: true,
+      createdBy: req.user._id,
+    });
+
+    res.status(201).json({ message: 'Exercise created successfully', exercise });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update a custom exercise. Past workouts keep the name they were logged with.
+router.put('/exercises/library/:exerciseId', authenticate, async (req, res) => {
+  try {
+    const validationError = validateCustomExercise(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const exercise = await ExerciseLibrary.findOne({ _id: req.params.exerciseId, createdBy: req.user._id });
+    if (!exercise) {
+      return res.status(404).json({ message: 'Exercise not found' });
+    }
+
+    if (req.body.name !== undefined) {
+      const existing = await findVisibleByName(req.user._id, req.body.name);
+      if (existing && !existing._id.equals(exercise._id)) {
+        return res.status(400).json({ message: 'An exercise with this name already exists' });
+      }
+    }
+
+    exercise.set(pickCustomExerciseFields(req.body));
+    await exercise.save();
+
+    res.json({ message: 'Exercise updated successfully', exercise });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Delete a custom exercise. Workouts that used it are not changed.
+router.delete('/exercises/library/:exerciseId', authenticate, async (req, res) => {
+  try {
+    const exercise = await ExerciseLibrary.findOneAndDelete({ _id: req.params.exerciseId, createdBy: req.user._id });
+
+    if (!exercise) {
+      return res.status(404).json({ message: 'Exercise not found' });
+    }
+
+    res.json({ message: 'Exercise deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Full history of one exercise: every session's sets, estimated 1RM trend, PR timeline,
+// saved rep-range records, 1-12 rep maxes and weekly volume (must come before /:id route).
+// Aggregates are in `unit`, by default the user's unit.
+router.get('/exercises/:name/history', authenticate, async (req, res) => {
+  try {
+    const { name } = req.params;
+    const { unit } = req.query;
+
+    if (unit && !['kg', 'lb'].includes(unit)) {
+      return res.status(400).json({ message: 'unit must be kg or lb' });
+    }
+
+    await backfillPersonalRecords(req.user._id);
+    const [workouts, exercise, personalRecords] = await Promise.all([
+      Workout.find({ userId: req.user._id, status: 'completed', 'exercises.name': name })
+        .collation(CASE_INSENSITIVE)
+        .sort({ date: 1 })
+        .lean(),
+      findVisibleByName(req.user._id, name),
+      getPersonalRecordHistory(req.user._id, name),
+    ]);
+
+    await attachBodyweights(req.user._id, workouts);
+    const displayUnit = unit ?? req.user.weightUnit;
+    const history = buildExerciseHistory(workouts, name, {
+      timeZone: resolveTimeZone(req.user),
+      unit: displayUnit,
+      formula: req.user.oneRepMaxFormula,
+    });
+
+    res.json({
+      exercise: exercise && {
+        _id: exercise._id,
+        name: exercise.name,
+        muscleGroup: exercise.muscleGroup,
+        equipment: exercise.equipment,
+        trackingType: exercise.trackingType ?? defaultTrackingType(exercise),
+        secondaryMuscles: exercise.secondaryMuscles ?? [],
+        notes: exercise.notes ?? '',
+        isCustom: Boolean(exercise.createdBy),
+      },
+      name: exercise?.name ?? name,
+      ...history,
+      personalRecords: personalRecords.map((record) => recordInUnit(record, displayUnit)),
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Current rep-range records (1/3/5/8/10RM) and best estimated 1RM per exercise, as saved
+// when each record fell (must come before /:id route)
+router.get('/records', authenticate, async (req, res) => {
+  try {
+    const { exerciseName } = req.query;
+
+    await backfillPersonalRecords(req.user._id);
+    const records = await getPersonalRecords(req.user._id, exerciseName);
+
+    res.json({ records: records.map((record) => recordInUnit(record, req.user.weightUnit)) });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
@@ -309,12 +637,18 @@ router.get('/exercises/library', authenticate, async (req, res) => {
 router.get('/prs', authenticate, async (req, res) => {
   try {
     const { exerciseName } = req.query;
-    const workouts = await Workout.find({
-      userId: req.user._id,
-      status: 'completed',
-    })
-      .sort({ date: 1 })
-      .lean();
+    const unit = req.user.weightUnit;
+    const workouts = (
+      await attachBodyweights(
+        req.user._id,
+        await Workout.find({
+          userId: req.user._id,
+          status: 'completed',
+        })
+          .sort({ date: 1 })
+          .lean()
+      )
+    ).map((workout) => normalizeWorkout(workout, unit));
 
     const prs = {};
     const exerciseHistory = {};
@@ -329,20 +663,24 @@ router.get('/prs', authenticate, async (req, res) => {
           exerciseHistory[exercise.name] = [];
         }
 
-        const maxWeight = exercise.sets.length > 0
-          ? Math.max(...exercise.sets.map((s) => s.weight))
+        // Warm-up sets are left out; bodyweight exercises count the bodyweight lifted
+        const sets = loadedSets(exercise, workout.bodyweight);
+        const maxWeight = sets.length > 0
+          ? Math.max(...sets.map((s) => s.weight))
           : 0;
-        const maxReps = exercise.sets.length > 0
-          ? Math.max(...exercise.sets.map((s) => s.reps))
+        const maxReps = sets.length > 0
+          ? Math.max(...sets.map((s) => s.reps))
           : 0;
-        const totalVolume = exercise.sets.reduce((sum, set) => sum + set.reps * set.weight, 0);
+        const totalVolume = sets.reduce((sum, set) => sum + set.reps * set.weight, 0);
+        const estimated1RM = bestOneRepMax(sets, req.user.oneRepMaxFormula);
 
         exerciseHistory[exercise.name].push({
           date: workout.date,
           maxWeight,
           maxReps,
           totalVolume,
-          sets: exercise.sets.length,
+          estimated1RM,
+          sets: sets.length,
         });
 
         // Track PRs
@@ -351,9 +689,11 @@ router.get('/prs', authenticate, async (req, res) => {
             maxWeight: maxWeight,
             maxReps: maxReps,
             maxVolume: totalVolume,
+            estimated1RM,
             maxWeightDate: workout.date,
             maxRepsDate: workout.date,
             maxVolumeDate: workout.date,
+            estimated1RMDate: workout.date,
           };
         } else {
           if (maxWeight > prs[exercise.name].maxWeight) {
@@ -368,11 +708,15 @@ router.get('/prs', authenticate, async (req, res) => {
             prs[exercise.name].maxVolume = totalVolume;
             prs[exercise.name].maxVolumeDate = workout.date;
           }
+          if (estimated1RM > prs[exercise.name].estimated1RM) {
+            prs[exercise.name].estimated1RM = estimated1RM;
+            prs[exercise.name].estimated1RMDate = workout.date;
+          }
         }
       });
     });
 
-    res.json({ prs, exerciseHistory });
+    res.json({ unit, prs, exerciseHistory });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
@@ -387,12 +731,8 @@ router.get('/:id', authenticate, async (req, res) => {
       return res.status(404).json({ message: 'Workout not found' });
     }
 
-    const totalVolume = workout.exercises.reduce((total, exercise) => {
-      const exerciseVolume = exercise.sets.reduce((sum, set) => {
-        return sum + (set.reps * set.weight);
-      }, 0);
-      return total + exerciseVolume;
-    }, 0);
+    await attachBodyweights(req.user._id, [workout]);
+    const totalVolume = workoutVolume(normalizeWorkout(workout, req.user.weightUnit));
 
     res.json({ workout: { ...workout, totalVolume } });
   } catch (error) {
@@ -400,6 +740,43 @@ router.get('/:id', authenticate, async (req, res) => {
   }
 });
 
+// Turn a planned workout into the active workout
+router.post('/:id/activate', authenticate, async (req, res) => {
+  try {
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (workout.status !== 'planned') {
+      return res.status(400).json({ message: 'Workout is not planned' });
+    }
+
+    const activeWorkout = await Workout.findOne({
+      userId: req.user._id,
+      status: { $in: ['active', 'paused'] },
+    });
+
+    if (activeWorkout) {
+      return res.status(400).json({
+        message: 'You already have an active workout',
+        activeWorkoutId: activeWorkout._id,
+      });
+    }
+
+    const now = new Date();
+    workout.status = 'active';
+    workout.date = now;
+    workout.startTime = now;
+
+    await workout.save();
+    res.json({ message: 'Workout started successfully', workout });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
 // Pause workout
 router.post('/:id/pause', authenticate, async (req, res) => {
   try {
@@ -413,7 +790,7 @@ router.post('/:id/pause', authenticate, async (req, res) => {
       return res.status(400).json({ message: 'Workout is not active' });
     }
 
-    const now = new Date();
+    const now = resolveActionTime(req.body.occurredAt, workout.startTime);
     const elapsedSinceStart = Math.floor((now - new Date(workout.startTime)) / 1000);
     // Add the elapsed time since last resume/start to the total duration
     workout.duration = (workout.duration ?? 0) + elapsedSinceStart;
@@ -440,7 +817,7 @@ router.post('/:id/resume', authenticate, async (req, res) => {
       return res.status(400).json({ message: 'Workout is not paused' });
     }
 
-    const now = new Date();
+    const now = resolveActionTime(req.body.occurredAt, workout.pausedAt);
     const pauseDuration = Math.floor((now - new Date(workout.pausedAt)) / 1000);
     workout.pausedDuration = (workout.pausedDuration ?? 0) + pauseDuration;
     workout.pausedAt = null;
@@ -468,7 +845,10 @@ router.post('/:id/end', authenticate, async (req, res) => {
       return res.status(400).json({ message: 'Workout is not active or paused' });
     }
 
-    const now = new Date();
+    const now = resolveActionTime(
+      req.body.occurredAt,
+      workout.status === 'active' ? workout.startTime : workout.pausedAt
+    );
     let finalDuration = workout.duration ?? 0;
 
     if (workout.status === 'active') {
@@ -506,7 +886,7 @@ router.post('/', authenticate, async (req, res) => {
       exercises,
       notes: notes ?? '',
       workoutType: workoutType ?? null,
-      weightUnit: weightUnit ?? 'kg',
+      weightUnit: weightUnit ?? req.user.weightUnit,
       duration: duration ?? 0,
       caloriesBurned: caloriesBurned ?? null,
       endTime: date ? new Date(date) : new Date(),
@@ -515,22 +895,8 @@ router.post('/', authenticate, async (req, res) => {
     await workout.save();
 
     // Update exercise library usage
-    for (const exercise of exercises) {
-      await ExerciseLibrary.findOneAndUpdate(
-        { name: exercise.name },
-        {
-          $set: {
-            name: exercise.name,
-            muscleGroup: exercise.muscleGroup ?? 'Full Body',
-            equipment: exercise.equipment ?? 'Other',
-            isCustom: true,
-            createdBy: req.user._id,
-          },
-          $inc: { usageCount: 1 },
-        },
-        { upsert: true, setDefaultsOnInsert: true }
-      );
-    }
+    await recordExerciseUsage(req.user._id, exercises);
+    await rebuildPersonalRecords(req.user._id, exercises.map((exercise) => exercise.name));
 
     res.status(201).json({ message: 'Workout created successfully', workout });
   } catch (error) {
@@ -541,7 +907,7 @@ router.post('/', authenticate, async (req, res) => {
 // Add exercise to active workout
 router.post('/:id/exercises', authenticate, async (req, res) => {
   try {
-    const { name, muscleGroup, equipment } = req.body;
+    const { name, muscleGroup, equipment, trackingType, clientId } = req.body;
     const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
 
     if (!workout) {
@@ -552,32 +918,32 @@ router.post('/:id/exercises', authenticate, async (req, res) => {
       return res.status(400).json({ message: 'Exercise name is required' });
     }
 
+    if (trackingType !== undefined && !TRACKING_TYPES.includes(trackingType)) {
+      return res.status(400).json({ message: `Tracking type must be one of: ${TRACKING_TYPES.join(', ')}` });
+    }
+
+    if (clientId && workout.exercises.some((exercise) => exercise.clientId === clientId)) {
+      return res.json({ message: 'Exercise already added', workout });
+    }
+
+    // Without a tracking type, sets are measured the way the library entry is
+    const libraryEntry = trackingType ? null : await findVisibleByName(req.user._id, name);
     const exerciseOrder = workout.exercises.length;
     workout.exercises.push({
       name,
       muscleGroup: muscleGroup ?? null,
       equipment: equipment ?? null,
+      trackingType:
+        trackingType ?? libraryEntry?.trackingType ?? defaultTrackingType(libraryEntry ?? { muscleGroup, equipment }),
       sets: [],
       order: exerciseOrder,
+      clientId: clientId ?? null,
     });
 
     await workout.save();
 
     // Update or create exercise in library
-    await ExerciseLibrary.findOneAndUpdate(
-      { name },
-      {
-        $set: {
-          name,
-          muscleGroup: muscleGroup ?? 'Full Body',
-          equipment: equipment ?? 'Other',
-          isCustom: true,
-          createdBy: req.user._id,
-        },
-        $inc: { usageCount: 1 },
-      },
-      { upsert: true, setDefaultsOnInsert: true }
-    );
+    await recordExerciseUsage(req.user._id, [{ name, muscleGroup, equipment, trackingType }]);
 
     res.json({ message: 'Exercise added', workout });
   } catch (error) {
@@ -588,32 +954,363 @@ router.post('/:id/exercises', authenticate, async (req, res) => {
 // Add set to exercise
 router.post('/:id/exercises/:exerciseIndex/sets', authenticate, async (req, res) => {
   try {
-    const { reps, weight, restTime, rpe, completed } = req.body;
+    const { reps, weight, duration, distance, restTime, rpe, completed, setType, clientId, occurredAt } = req.body;
     const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
 
     if (!workout) {
       return res.status(404).json({ message: 'Workout not found' });
     }
 
-    const exerciseIndex = parseInt(req.params.exerciseIndex);
-    if (exerciseIndex < 0 || exerciseIndex >= workout.exercises.length) {
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    const exerciseIndex = parseIndex(req.params.exerciseIndex, workout.exercises.length);
+    if (exerciseIndex === null) {
       return res.status(400).json({ message: 'Invalid exercise index' });
     }
 
-    if (!reps || !weight) {
-      return res.status(400).json({ message: 'Reps and weight are required' });
+    const { name, sets, trackingType } = workout.exercises[exerciseIndex];
+    const missingFields = getMissingSetFields(trackingType, req.body);
+    if (missingFields.length > 0) {
+      return res.status(400).json({ message: `${missingFields.join(' and ')} required for this exercise` });
+    }
+
+    if (setType !== undefined && !SET_TYPES.includes(setType)) {
+      return res.status(400).json({ message: `Set type must be one of: ${SET_TYPES.join(', ')}` });
+    }
+
+    if (clientId && sets.some((set) => set.clientId === clientId)) {
+      return res.json({ message: 'Set already added', workout, personalRecords: [] });
     }
 
-    workout.exercises[exerciseIndex].sets.push({
-      reps,
-      weight,
+    // Records from sets logged before PRs were tracked, without the new set
+    await backfillPersonalRecords(req.user._id);
+
+    sets.push({
+      reps: reps ?? 0,
+      weight: weight ?? 0,
+      duration: duration ?? null,
+      distance: distance ?? null,
       restTime: restTime ?? null,
       rpe: rpe ?? null,
       completed: completed ?? true,
+      setType: setType ?? 'working',
+      loggedAt: resolveActionTime(occurredAt),
+      clientId: clientId ?? null,
     });
 
     await workout.save();
-    res.json({ message: 'Set added', workout });
+    const personalRecords = await recordSetPersonalRecords(
+      req.user._id,
+      workout,
+      workout.exercises[exerciseIndex],
+      sets[sets.length - 1]
+    );
+
+    res.json({
+      message: 'Set added',
+      workout,
+      personalRecords: personalRecords.map((record) => recordInUnit(record, req.user.weightUnit)),
+    });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Reorder the exercises of a workout. `exerciseIndexes` lists every current index in the new
+// order, and each exercise's `order` becomes its new position.
+router.put('/:id/exercises/order', authenticate, async (req, res) => {
+  try {
+    const { exerciseIndexes } = req.body;
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    if (!isPermutation(exerciseIndexes, workout.exercises.length)) {
+      return res.status(400).json({ message: 'exerciseIndexes must list every exercise index once' });
+    }
+
+    const exercises = exerciseIndexes.map((index) => workout.exercises[index]);
+    if (!keepsGroupsTogether(exercises)) {
+      return res.status(400).json({ message: 'Exercises of a superset, circuit or giant set must stay together' });
+    }
+
+    workout.exercises = exercises.map((exercise, order) => ({ ...exercise.toObject(), order }));
+
+    await workout.save();
+
+    res.json({ message: 'Exercises reordered', workout });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update an exercise of a workout, e.g. to rename one added by mistake
+router.put('/:id/exercises/:exerciseIndex', authenticate, async (req, res) => {
+  try {
+    const { name, muscleGroup, equipment, trackingType, targetSets, targetReps, targetWeight } = req.body;
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    const exerciseIndex = parseIndex(req.params.exerciseIndex, workout.exercises.length);
+    if (exerciseIndex === null) {
+      return res.status(400).json({ message: 'Invalid exercise index' });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ message: 'Exercise name is required' });
+    }
+
+    if (muscleGroup && !EXERCISE_MUSCLE_GROUPS.includes(muscleGroup)) {
+      return res.status(400).json({ message: `Muscle group must be one of: ${EXERCISE_MUSCLE_GROUPS.join(', ')}` });
+    }
+
+    if (equipment && !EXERCISE_EQUIPMENT.includes(equipment)) {
+      return res.status(400).json({ message: `Equipment must be one of: ${EXERCISE_EQUIPMENT.join(', ')}` });
+    }
+
+    if (trackingType !== undefined && !TRACKING_TYPES.includes(trackingType)) {
+      return res.status(400).json({ message: `Tracking type must be one of: ${TRACKING_TYPES.join(', ')}` });
+    }
+
+    const exercise = workout.exercises[exerciseIndex];
+    const previousName = exercise.name;
+    if (name !== undefined) exercise.name = name.trim();
+    if (muscleGroup !== undefined) exercise.muscleGroup = muscleGroup || null;
+    if (equipment !== undefined) exercise.equipment = equipment || null;
+    if (trackingType !== undefined) exercise.trackingType = trackingType;
+    if (targetSets !== undefined) exercise.targetSets = targetSets;
+    if (targetReps !== undefined) exercise.targetReps = targetReps;
+    if (targetWeight !== undefined) exercise.targetWeight = targetWeight;
+
+    await workout.save();
+    if (name !== undefined && name.trim() !== previousName) {
+      await recordExerciseUsage(req.user._id, [exercise]);
+    }
+    await rebuildPersonalRecords(req.user._id, [previousName, exercise.name]);
+
+    res.json({ message: 'Exercise updated', workout });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Remove an exercise and its sets from a workout
+router.delete('/:id/exercises/:exerciseIndex', authenticate, async (req, res) => {
+  try {
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    const exerciseIndex = parseIndex(req.params.exerciseIndex, workout.exercises.length);
+    if (exerciseIndex === null) {
+      return res.status(400).json({ message: 'Invalid exercise index' });
+    }
+
+    const [exercise] = workout.exercises.splice(exerciseIndex, 1);
+    workout.exercises.forEach((remaining, order) => {
+      remaining.order = order;
+    });
+    dissolveSingleGroups(workout);
+
+    await workout.save();
+    await rebuildPersonalRecords(req.user._id, [exercise.name]);
+
+    res.json({ message: 'Exercise removed', workout });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Reorder the sets of an exercise. `setIndexes` lists every current set index in the new order.
+router.put('/:id/exercises/:exerciseIndex/sets/order', authenticate, async (req, res) => {
+  try {
+    const { setIndexes } = req.body;
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    const exerciseIndex = parseIndex(req.params.exerciseIndex, workout.exercises.length);
+    if (exerciseIndex === null) {
+      return res.status(400).json({ message: 'Invalid exercise index' });
+    }
+
+    const exercise = workout.exercises[exerciseIndex];
+    if (!isPermutation(setIndexes, exercise.sets.length)) {
+      return res.status(400).json({ message: 'setIndexes must list every set index once' });
+    }
+
+    exercise.sets = setIndexes.map((index) => exercise.sets[index].toObject());
+
+    await workout.save();
+
+    res.json({ message: 'Sets reordered', workout });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Update a logged set, e.g. to correct its reps, weight or RPE
+router.put('/:id/exercises/:exerciseIndex/sets/:setIndex', authenticate, async (req, res) => {
+  try {
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    const exerciseIndex = parseIndex(req.params.exerciseIndex, workout.exercises.length);
+    if (exerciseIndex === null) {
+      return res.status(400).json({ message: 'Invalid exercise index' });
+    }
+
+    const exercise = workout.exercises[exerciseIndex];
+    const setIndex = parseIndex(req.params.setIndex, exercise.sets.length);
+    if (setIndex === null) {
+      return res.status(400).json({ message: 'Invalid set index' });
+    }
+
+    const set = exercise.sets[setIndex];
+    const changes = {};
+    for (const field of ['reps', 'weight', 'duration', 'distance', 'restTime', 'rpe', 'completed', 'setType']) {
+      if (req.body[field] !== undefined) changes[field] = req.body[field];
+    }
+
+    const missingFields = getMissingSetFields(exercise.trackingType, { ...set.toObject(), ...changes });
+    if (missingFields.length > 0) {
+      return res.status(400).json({ message: `${missingFields.join(' and ')} required for this exercise` });
+    }
+
+    if (changes.setType !== undefined && !SET_TYPES.includes(changes.setType)) {
+      return res.status(400).json({ message: `Set type must be one of: ${SET_TYPES.join(', ')}` });
+    }
+
+    if (changes.rpe != null && !(changes.rpe >= 1 && changes.rpe <= 10)) {
+      return res.status(400).json({ message: 'RPE must be between 1 and 10' });
+    }
+
+    set.set(changes);
+
+    await workout.save();
+    await rebuildPersonalRecords(req.user._id, [exercise.name]);
+
+    res.json({ message: 'Set updated', workout });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Remove a logged set
+router.delete('/:id/exercises/:exerciseIndex/sets/:setIndex', authenticate, async (req, res) => {
+  try {
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    const exerciseIndex = parseIndex(req.params.exerciseIndex, workout.exercises.length);
+    if (exerciseIndex === null) {
+      return res.status(400).json({ message: 'Invalid exercise index' });
+    }
+
+    const exercise = workout.exercises[exerciseIndex];
+    const setIndex = parseIndex(req.params.setIndex, exercise.sets.length);
+    if (setIndex === null) {
+      return res.status(400).json({ message: 'Invalid set index' });
+    }
+
+    exercise.sets.splice(setIndex, 1);
+
+    await workout.save();
+    await rebuildPersonalRecords(req.user._id, [exercise.name]);
+
+    res.json({ message: 'Set removed', workout });
+  } catch (error) {
+    res.status(500).json({ message: 'Server error', error: error.message });
+  }
+});
+
+// Group exercises of a workout into a superset, circuit or giant set, or ungroup them
+// with `groupType: null`. A group left with a single exercise is dissolved, and the
+// exercises of each group are moved next to its first one.
+router.put('/:id/groups', authenticate, async (req, res) => {
+  try {
+    const { exerciseIndexes, groupType, clientId } = req.body;
+    const workout = await Workout.findOne({ _id: req.params.id, userId: req.user._id });
+
+    if (!workout) {
+      return res.status(404).json({ message: 'Workout not found' });
+    }
+
+    if (!isLive(workout)) {
+      return res.status(400).json({ message: LIVE_ONLY_MESSAGE });
+    }
+
+    const indexes = Array.isArray(exerciseIndexes) ? Array.from(new Set(exerciseIndexes.map(Number))) : [];
+    if (indexes.length === 0 || indexes.some((index) => !(index >= 0 && index < workout.exercises.length))) {
+      return res.status(400).json({ message: 'Invalid exercise index' });
+    }
+
+    if (groupType !== null && !GROUP_TYPES.includes(groupType)) {
+      return res.status(400).json({ message: `Group type must be one of: ${GROUP_TYPES.join(', ')}, or null` });
+    }
+
+    if (groupType && indexes.length < 2) {
+      return res.status(400).json({ message: 'A group needs at least two exercises' });
+    }
+
+    // A replayed offline grouping finds its group already created
+    if (clientId && workout.exercises.some((exercise) => exercise.groupId === clientId)) {
+      return res.json({ message: 'Exercises already grouped', workout });
+    }
+
+    const groupId = groupType ? clientId ?? crypto.randomUUID() : null;
+    indexes.forEach((index) => {
+      workout.exercises[index].groupId = groupId;
+      workout.exercises[index].groupType = groupType;
+    });
+
+    dissolveSingleGroups(workout);
+    workout.exercises = gatherGroups(workout.exercises).map((exercise, order) => ({ ...exercise.toObject(), order }));
+
+    await workout.save();
+
+    res.json({ message: groupType ? 'Exercises grouped' : 'Exercises ungrouped', workout });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
   }
@@ -633,6 +1330,7 @@ router.put('/:id', authenticate, async (req, res) => {
       return res.status(400).json({ message: 'Cannot update active or paused workout. End it first.' });
     }
 
+    const previousExerciseNames = workout.exercises.map((exercise) => exercise.name);
     if (date) workout.date = new Date(date);
     if (exercises) workout.exercises = exercises;
     if (notes !== undefined) workout.notes = notes;
@@ -642,6 +1340,11 @@ router.put('/:id', authenticate, async (req, res) => {
     if (caloriesBurned !== undefined) workout.caloriesBurned = caloriesBurned;
 
     await workout.save();
+    await rebuildPersonalRecords(req.user._id, [
+      ...previousExerciseNames,
+      ...workout.exercises.map((exercise) => exercise.name),
+    ]);
+
     res.json({ message: 'Workout updated successfully', workout });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
@@ -657,6 +1360,8 @@ router.delete('/:id', authenticate, async (req, res) => {
       return res.status(404).json({ message: 'Workout not found' });
     }
 
+    await rebuildPersonalRecords(req.user._id, workout.exercises.map((exercise) => exercise.name));
+
     res.json({ message: 'Workout deleted successfully' });
   } catch (error) {
     res.status(500).json({ message: 'Server error', error: error.message });
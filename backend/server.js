@@ -2,11 +2,21 @@ import express from 'express';
 import mongoose from 'mongoose';
 import cors from 'cors';
 import compression from 'compression';
+import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import authRoutes from './routes/auth.js';
 import userRoutes from './routes/user.js';
 import habitRoutes from './routes/habits.js';
 import workoutRoutes from './routes/workouts.js';
+import templateRoutes from './routes/templates.js';
+import programRoutes from './routes/programs.js';
+import notificationRoutes from './routes/notifications.js';
+import measurementRoutes from './routes/measurements.js';
+import exportRoutes from './routes/export.js';
+import importRoutes from './routes/import.js';
+import ExerciseLibrary from './models/ExerciseLibrary.js';
+import { startReminderScheduler } from './services/reminderScheduler.js';
+import { startAccountPurgeScheduler } from './services/accountDeletion.js';
 
 dotenv.config();
 
@@ -40,6 +50,7 @@ const corsOptions = {
   optionsSuccessStatus: 200,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
+  exposedHeaders: ['Content-Disposition'],
 };
 
 app.use(cors(corsOptions));
@@ -47,6 +58,7 @@ app.use(cors(corsOptions));
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+app.use(cookieParser());
 
 // Request logging (development only)
 if (NODE_ENV === 'development') {
@@ -61,6 +73,12 @@ app.use('/api/auth', authRoutes);
 app.use('/api/user', userRoutes);
 app.use('/api/habits', habitRoutes);
 app.use('/api/workouts', workoutRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/programs', programRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/measurements', measurementRoutes);
+app.use('/api/export', exportRoutes);
+app.use('/api/import', importRoutes);
 
 // Enhanced Health check endpoint
 app.get('/api/health', async (req, res) => {
@@ -146,6 +164,13 @@ mongoose
       console.log(`   Environment: ${NODE_ENV}`);
       console.log(`   Health check: http://localhost:${PORT}/api/health`);
     });
+
+    startReminderScheduler();
+    startAccountPurgeScheduler();
+
+    // Exercise names used to be unique across the whole library. Drop that index, now that
+    // names are unique per owner, so users can create custom exercises of the same name.
+    ExerciseLibrary.syncIndexes().catch((error) => console.error('❌ Exercise library index sync failed:', error));
   })
   .catch((error) => {
     console.error('❌ MongoDB connection error:', error);
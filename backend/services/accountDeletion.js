@@ -0,0 +1,69 @@
+import User from '../models/User.js';
+import Habit from '../models/Habit.js';
+import Workout from '../models/Workout.js';
+import WorkoutTemplate from '../models/WorkoutTemplate.js';
+import Program from '../models/Program.js';
+import Measurement from '../models/Measurement.js';
+import PersonalRecord from '../models/PersonalRecord.js';
+import ExerciseLibrary from '../models/ExerciseLibrary.js';
+import PushSubscription from '../models/PushSubscription.js';
+import Session from '../models/Session.js';
+import AuthToken from '../models/AuthToken.js';
+import { sendAccountDeletionEmail } from './mailer.js';
+
+// Account deletion. Deleting an account only schedules it; the user can undo it during
+// the grace period, after which the purge job removes the user and everything they own.
+
+export const DELETION_GRACE_DAYS = 14;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Schedule the purge and sign out every other device. Returns the updated user.
+export const scheduleAccountDeletion = async (userId, currentSessionId) => {
+  const deletionScheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+  const user = await User.findByIdAndUpdate(userId, { deletionScheduledFor }, { new: true }).select('-password');
+
+  await Session.deleteMany({ userId, _id: { $ne: currentSessionId } });
+  await sendAccountDeletionEmail(user).catch((error) => console.error('Deletion email error:', error.message));
+
+  return user;
+};
+
+export const cancelAccountDeletion = (userId) =>
+  User.findByIdAndUpdate(userId, { deletionScheduledFor: null }, { new: true }).select('-password');
+
+// Remove a user and all their data, including exercises they added to the shared library.
+// The user goes last, so a purge interrupted halfway is finished by the next run.
+export const purgeAccount = async (userId) => {
+  await Promise.all([
+    Habit.deleteMany({ userId }),
+    Workout.deleteMany({ userId }),
+    WorkoutTemplate.deleteMany({ userId }),
+    Program.deleteMany({ userId }),
+    Measurement.deleteMany({ userId }),
+    PersonalRecord.deleteMany({ userId }),
+    ExerciseLibrary.deleteMany({ createdBy: userId }),
+    PushSubscription.deleteMany({ userId }),
+    Session.deleteMany({ userId }),
+    AuthToken.deleteMany({ userId }),
+  ]);
+  await User.deleteOne({ _id: userId });
+};
+
+const purgeDueAccounts = async (now = new Date()) => {
+  const users = await User.find({ deletionScheduledFor: { $ne: null, $lte: now } }).select('_id');
+
+  for (const user of users) {
+    await purgeAccount(user._id);
+    console.log(`🗑️  Purged account ${user._id}`);
+  }
+};
+
+// Purge accounts whose grace period is over, hourly. Purging is idempotent, so it is
+// safe to run on every PM2 instance.
+export const startAccountPurgeScheduler = () => {
+  const tick = () => purgeDueAccounts().catch((error) => console.error('Account purge error:', error));
+  const interval = setInterval(tick, PURGE_INTERVAL_MS);
+  tick();
+
+  return () => clearInterval(interval);
+};
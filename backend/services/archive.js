@@ -0,0 +1,258 @@
+import Habit from '../models/Habit.js';
+import Workout from '../models/Workout.js';
+import WorkoutTemplate from '../models/WorkoutTemplate.js';
+import Program from '../models/Program.js';
+import Measurement from '../models/Measurement.js';
+import { resetPersonalRecords } from './personalRecords.js';
+import { toDateKey } from '../utils/dates.js';
+
+// The full account archive: everything a user owns as one JSON document, and restoring it.
+// Restores match records on natural keys rather than ids, so uploading the same archive
+// twice changes nothing the second time:
+// - habits and templates by name
+// - programs by name and start date
+// - workouts by start time, measurements by day
+
+export const ARCHIVE_FORMAT = 'habit-gym-tracker-archive';
+export const ARCHIVE_VERSION = 1;
+export const RESTORE_MODES = ['merge', 'replace'];
+
+// Collections in restore order: templates and programs first, so workouts can point at them
+const COLLECTIONS = [
+  { key: 'templates', Model: WorkoutTemplate },
+  { key: 'programs', Model: Program },
+  { key: 'habits', Model: Habit },
+  { key: 'workouts', Model: Workout },
+  { key: 'measurements', Model: Measurement },
+];
+
+const MAX_ERRORS = 20;
+
+// Drop owner fields so an archive can be restored into any account
+const stripOwner = ({ userId, __v, ...doc }) => doc;
+
+export const buildArchive = async (user) => {
+  const userId = user._id;
+  const [habits, workouts, templates, programs, measurements] = await Promise.all([
+    Habit.find({ userId }).sort({ createdAt: 1 }).lean(),
+    Workout.find({ userId }).sort({ date: 1 }).lean(),
+    WorkoutTemplate.find({ userId }).sort({ createdAt: 1 }).lean(),
+    Program.find({ userId }).sort({ createdAt: 1 }).lean(),
+    Measurement.find({ userId }).sort({ date: 1 }).lean(),
+  ]);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    user: {
+      name: user.name,
+      email: user.email,
+      timezone: user.timezone,
+      notificationsEnabled: user.notificationsEnabled,
+    },
+    habits: habits.map(stripOwner),
+    workouts: workouts.map(stripOwner),
+    templates: templates.map(stripOwner),
+    programs: programs.map(stripOwner),
+    measurements: measurements.map(stripOwner),
+  };
+};
+
+// "exercises.0.sets.1.reps" -> "exercises[0].sets[1].reps"
+const formatPath = (path) => path.replace(/\.(\d+)(?=\.|$)/g, '[$1]');
+
+// Check the archive and build an unsaved document for every record. Returns { documents }
+// or { errors } listing each offending record, e.g. "workouts[4].exercises[0].sets[1].reps".
+const prepareDocuments = (archive, userId) => {
+  if (!archive || typeof archive !== 'object' || archive.format !== ARCHIVE_FORMAT) {
+    return { errors: [{ path: 'format', message: 'Not a Habit & Gym Tracker archive' }] };
+  }
+  if (!Number.isInteger(archive.version) || archive.version > ARCHIVE_VERSION) {
+    return { errors: [{ path: 'version', message: `Unsupported archive version ${archive.version}` }] };
+  }
+
+  const errors = [];
+  const documents = {};
+
+  for (const { key, Model } of COLLECTIONS) {
+    const records = archive[key] ?? [];
+    if (!Array.isArray(records)) {
+      errors.push({ path: key, message: 'Must be a list' });
+      continue;
+    }
+
+    documents[key] = records.map((record, index) => {
+      if (!record || typeof record !== 'object') {
+        errors.push({ path: `${key}[${index}]`, message: 'Must be an object' });
+        return null;
+      }
+
+      const { _id, ...fields } = stripOwner(record);
+      const document = new Model({ ...fields, userId });
+      const validationError = document.validateSync();
+      Object.entries(validationError?.errors ?? {}).forEach(([path, error]) => {
+        errors.push({ path: `${key}[${index}].${formatPath(path)}`, message: error.message });
+      });
+
+      // Keep the archived id so workouts can be pointed at their restored template or program
+      return { archivedId: _id ? String(_id) : null, document };
+    });
+  }
+
+  return errors.length > 0 ? { errors: errors.slice(0, MAX_ERRORS) } : { documents };
+};
+
+const nameKey = (name) => name.trim().toLowerCase();
+
+const isLive = (workout) => workout.status === 'active' || workout.status === 'paused';
+
+// Only one workout can be in progress: another live one is restored as completed, ended at
+// its last pause or start with the time already recorded
+const endLiveWorkout = (workout) => {
+  workout.endTime = workout.pausedAt ?? workout.startTime ?? workout.date;
+  workout.status = 'completed';
+  workout.pausedAt = null;
+};
+
+// Save the prepared documents an account doesn't have yet. Returns the summary counts.
+const writeDocuments = async (documents, userId) => {
+  const summary = Object.fromEntries(COLLECTIONS.map(({ key }) => [key, { created: 0, merged: 0, skipped: 0 }]));
+  const restoredIds = { templates: new Map(), programs: new Map() };
+
+  // Templates: by name
+  const templates = await WorkoutTemplate.find({ userId }).select('name').lean();
+  const templatesByName = new Map(templates.map((template) => [nameKey(template.name), template._id]));
+  for (const { archivedId, document } of documents.templates) {
+    const existingId = templatesByName.get(nameKey(document.name));
+    if (existingId) {
+      restoredIds.templates.set(archivedId, existingId);
+      summary.templates.skipped++;
+      continue;
+    }
+    await document.save();
+    templatesByName.set(nameKey(document.name), document._id);
+    restoredIds.templates.set(archivedId, document._id);
+    summary.templates.created++;
+  }
+
+  // Programs: by name and start date
+  const programKey = (program) => `${nameKey(program.name)}|${toDateKey(program.startDate)}`;
+  const programs = await Program.find({ userId }).select('name startDate').lean();
+  const programsByKey = new Map(programs.map((program) => [programKey(program), program._id]));
+  for (const { archivedId, document } of documents.programs) {
+    const existingId = programsByKey.get(programKey(document));
+    if (existingId) {
+      restoredIds.programs.set(archivedId, existingId);
+      summary.programs.skipped++;
+      continue;
+    }
+    await document.save();
+    programsByKey.set(programKey(document), document._id);
+    restoredIds.programs.set(archivedId, document._id);
+    summary.programs.created++;
+  }
+
+  // Habits: by name, adding completions and frozen days the existing habit lacks
+  const habits = await Habit.find({ userId });
+  const habitsByName = new Map(habits.map((habit) => [nameKey(habit.name), habit]));
+  for (const { document } of documents.habits) {
+    const existing = habitsByName.get(nameKey(document.name));
+    if (!existing) {
+      await document.save();
+      habitsByName.set(nameKey(document.name), document);
+      summary.habits.created++;
+      continue;
+    }
+
+    const completedKeys = new Set(existing.completions.map((c) => toDateKey(c.date)));
+    const frozenKeys = new Set(existing.frozenDays.map(toDateKey));
+    const completions = document.completions.filter((c) => !completedKeys.has(toDateKey(c.date)));
+    const frozenDays = document.frozenDays.filter((day) => !frozenKeys.has(toDateKey(day)));
+    if (completions.length === 0 && frozenDays.length === 0) {
+      summary.habits.skipped++;
+      continue;
+    }
+
+    existing.completions.push(...completions.map(({ date, completed, value }) => ({ date, completed, value })));
+    existing.frozenDays.push(...frozenDays);
+    await existing.save();
+    summary.habits.merged++;
+  }
+
+  // Workouts: by start time
+  const workouts = await Workout.find({ userId }).select('date status').lean();
+  const workoutTimes = new Set(workouts.map((workout) => new Date(workout.date).getTime()));
+  let hasLiveWorkout = workouts.some(isLive);
+  const newWorkouts = [];
+  for (const { document } of documents.workouts) {
+    if (workoutTimes.has(document.date.getTime())) {
+      summary.workouts.skipped++;
+      continue;
+    }
+    workoutTimes.add(document.date.getTime());
+    if (isLive(document)) {
+      if (hasLiveWorkout) endLiveWorkout(document);
+      hasLiveWorkout = true;
+    }
+    document.templateId = restoredIds.templates.get(String(document.templateId)) ?? null;
+    document.programId = restoredIds.programs.get(String(document.programId)) ?? null;
+    newWorkouts.push(document);
+  }
+  if (newWorkouts.length > 0) {
+    await Workout.insertMany(newWorkouts);
+    summary.workouts.created = newWorkouts.length;
+  }
+  // Personal records are rebuilt from the restored history the next time they are read
+  if (newWorkouts.length > 0) {
+    await resetPersonalRecords(userId);
+  }
+
+  // Measurements: by day
+  const measurements = await Measurement.find({ userId }).select('date').lean();
+  const measuredDays = new Set(measurements.map((measurement) => toDateKey(measurement.date)));
+  const newMeasurements = documents.measurements
+    .map(({ document }) => document)
+    .filter((document) => {
+      const dateKey = toDateKey(document.date);
+      if (measuredDays.has(dateKey)) return false;
+      measuredDays.add(dateKey);
+      return true;
+    });
+  summary.measurements.skipped = documents.measurements.length - newMeasurements.length;
+  if (newMeasurements.length > 0) {
+    await Measurement.insertMany(newMeasurements);
+    summary.measurements.created = newMeasurements.length;
+  }
+
+  return summary;
+};
+
+// Restore an archive into a user's account. `merge` adds what is missing; `replace` deletes
+// the user's data first. Returns { summary } with created/merged/skipped counts per
+// collection, or { errors } without changing anything.
+export const restoreArchive = async (archive, userId, mode) => {
+  const { documents, errors } = prepareDocuments(archive, userId);
+  if (errors) return { errors };
+
+  if (mode !== 'replace') return { summary: await writeDocuments(documents, userId) };
+
+  // Every record is validated above, so writing only fails on a database error. The deleted
+  // data is kept until the restore is written, and put back if it fails part way.
+  const backup = await Promise.all(COLLECTIONS.map(({ Model }) => Model.find({ userId }).lean()));
+  await Promise.all(COLLECTIONS.map(({ Model }) => Model.deleteMany({ userId })));
+  try {
+    const summary = await writeDocuments(documents, userId);
+    // Personal records are rebuilt from the restored history the next time they are read
+    await resetPersonalRecords(userId);
+    return { summary };
+  } catch (error) {
+    await Promise.all(
+      COLLECTIONS.map(async ({ Model }, index) => {
+        await Model.deleteMany({ userId });
+        if (backup[index].length > 0) await Model.collection.insertMany(backup[index]);
+      })
+    );
+    throw error;
+  }
+};
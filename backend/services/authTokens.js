@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import AuthToken from '../models/AuthToken.js';
+import { sendPasswordResetEmail, sendVerificationEmail } from './mailer.js';
+
+// Single-use tokens sent by email or handed out mid-login. Issuing a token replaces any
+// earlier one for the same purpose, so only the newest link works.
+
+const TOKEN_TTL_MS = {
+  'password-reset': 60 * 60 * 1000,
+  'email-verification': 24 * 60 * 60 * 1000,
+  'two-factor-login': 5 * 60 * 1000,
+};
+
+// Wrong two-factor codes allowed per login before the password has to be entered again
+const MAX_LOGIN_CHALLENGE_ATTEMPTS = 5;
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const issueToken = async (user, purpose) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await AuthToken.deleteMany({ userId: user._id, purpose });
+  await AuthToken.create({
+    userId: user._id,
+    purpose,
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+  });
+  return token;
+};
+
+// Use up a token. Returns it (with userId and email), or null when it is unknown or expired.
+export const consumeToken = async (token, purpose) => {
+  if (typeof token !== 'string' || !token) return null;
+  return AuthToken.findOneAndDelete({
+    tokenHash: hashToken(token),
+    purpose,
+    expiresAt: { $gt: new Date() },
+  });
+};
+
+export const sendPasswordReset = async (user) => sendPasswordResetEmail(user, await issueToken(user, 'password-reset'));
+
+export const sendEmailVerification = async (user) =>
+  sendVerificationEmail(user, await issueToken(user, 'email-verification'));
+
+// Issued after a correct password when the account has two-factor authentication
+export const issueLoginChallenge = (user) => issueToken(user, 'two-factor-login');
+
+// Count an attempt against a login challenge. Returns the challenge, or null when it is
+// unknown, expired or out of attempts.
+export const recordLoginChallengeAttempt = async (token) => {
+  if (typeof token !== 'string' || !token) return null;
+  return AuthToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      purpose: 'two-factor-login',
+      expiresAt: { $gt: new Date() },
+      attempts: { $lt: MAX_LOGIN_CHALLENGE_ATTEMPTS },
+    },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+};
@@ -0,0 +1,27 @@
+import Measurement from '../models/Measurement.js';
+import { convertWeight } from '../utils/weights.js';
+
+// Bodyweight at the time of each workout, so pull-ups, dips and other bodyweight exercises
+// count the body they lift towards volume and 1RM estimates (see loadedSets). It is the
+// latest weigh-in on or before the workout date, or the first one for earlier workouts.
+
+// Set each workout's `bodyweight`, in the workout's weightUnit, or null when the user never
+// logged their weight. Takes documents or lean objects, which keep their order.
+export const attachBodyweights = async (userId, workouts) => {
+  if (workouts.length === 0) return workouts;
+
+  const weighIns = await Measurement.find({ userId, weight: { $ne: null } })
+    .sort({ date: 1 })
+    .select('date weight weightUnit')
+    .lean();
+
+  for (const workout of workouts) {
+    let weighIn = weighIns[0] ?? null;
+    for (const entry of weighIns) {
+      if (entry.date > workout.date) break;
+      weighIn = entry;
+    }
+    workout.bodyweight = weighIn ? convertWeight(weighIn.weight, weighIn.weightUnit, workout.weightUnit ?? 'kg') : null;
+  }
+  return workouts;
+};
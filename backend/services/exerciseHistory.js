@@ -0,0 +1,121 @@
+import { addDays, startOfWeek, toDateKey, toLocalDay } from '../utils/dates.js';
+import { convertWeight, countedSets, estimateOneRepMax, loadedSets } from '../utils/weights.js';
+import { paceOf } from '../utils/tracking.js';
+
+// Everything logged for one exercise: each session's sets, the estimated 1RM trend,
+// when records were set, the best weight at each rep count and weekly volume.
+// Aggregates are in one unit, so sessions logged in kg and lb compare.
+
+export const REP_MAX_RANGE = 12;
+
+const round = (value) => Math.round(value * 10) / 10;
+
+// `workouts` are completed workouts sorted by date, oldest first. `formula` is one of
+// ONE_REP_MAX_FORMULAS, applied to each set on its own.
+export const buildExerciseHistory = (workouts, exerciseName, { timeZone, unit, formula = 'epley' }) => {
+  const name = exerciseName.toLowerCase();
+  const sessions = [];
+
+  for (const workout of workouts) {
+    const workoutUnit = workout.weightUnit ?? 'kg';
+    workout.exercises
+      .filter((exercise) => exercise.name.toLowerCase() === name)
+      .forEach((exercise) => {
+        const sets = loadedSets(exercise, workout.bodyweight).filter((set) => set.completed !== false);
+        if (sets.length === 0) return;
+
+        // Time and distance of timed and distance exercises
+        const timedSets = countedSets(exercise.sets).filter((set) => set.completed !== false);
+        const totalDistance = timedSets.reduce((sum, set) => sum + (set.distance ?? 0), 0);
+        const totalDuration = timedSets.reduce((sum, set) => sum + (set.duration ?? 0), 0);
+
+        const converted = sets.map((set) => {
+          const weight = convertWeight(set.weight, workoutUnit, unit);
+          return { reps: set.reps, weight, estimated1RM: estimateOneRepMax(weight, set.reps, formula, set.rpe) };
+        });
+        const best = converted.reduce((top, set) => (set.estimated1RM > top.estimated1RM ? set : top));
+
+        sessions.push({
+          workoutId: workout._id,
+          date: workout.date,
+          day: toDateKey(toLocalDay(workout.date, timeZone)),
+          weightUnit: workoutUnit,
+          trackingType: exercise.trackingType ?? 'weightReps',
+          sets: exercise.sets.map(({ reps, weight, duration, distance, rpe, restTime, completed, setType }) => ({
+            reps,
+            weight,
+            duration,
+            distance,
+            rpe,
+            restTime,
+            completed,
+            setType,
+          })),
+          bestSet: { reps: best.reps, weight: best.weight },
+          estimated1RM: round(best.estimated1RM),
+          maxWeight: Math.max(...converted.map((set) => set.weight)),
+          maxReps: Math.max(...converted.map((set) => set.reps)),
+          volume: round(converted.reduce((sum, set) => sum + set.reps * set.weight, 0)),
+          distance: totalDistance,
+          duration: totalDuration,
+          pace: paceOf(totalDistance, totalDuration),
+          convertedSets: converted,
+        });
+      });
+  }
+
+  // Records, in the order they were set
+  const prTimeline = [];
+  const bests = { estimated1RM: 0, maxWeight: 0, maxReps: 0, volume: 0 };
+  for (const session of sessions) {
+    for (const type of Object.keys(bests)) {
+      if (session[type] > bests[type]) {
+        prTimeline.push({
+          date: session.date,
+          workoutId: session.workoutId,
+          type,
+          value: session[type],
+          previous: bests[type] || null,
+        });
+        bests[type] = session[type];
+      }
+    }
+  }
+
+  // Heaviest weight lifted for at least N reps, for N = 1..12
+  const repMaxes = Array.from({ length: REP_MAX_RANGE }, (_, index) => ({ reps: index + 1, best: null }));
+  for (const session of sessions) {
+    for (const set of session.convertedSets) {
+      for (const repMax of repMaxes) {
+        if (set.reps < repMax.reps || set.weight <= 0) continue;
+        if (!repMax.best || set.weight > repMax.best.weight) {
+          repMax.best = { weight: set.weight, reps: set.reps, date: session.date, workoutId: session.workoutId };
+        }
+      }
+    }
+  }
+
+  // Volume per week (weeks start on Monday), including empty weeks in between
+  const weeklyVolume = [];
+  if (sessions.length > 0) {
+    const volumeByWeek = new Map();
+    for (const session of sessions) {
+      const week = toDateKey(startOfWeek(session.day));
+      volumeByWeek.set(week, (volumeByWeek.get(week) ?? 0) + session.volume);
+    }
+    const lastWeek = startOfWeek(sessions[sessions.length - 1].day);
+    for (let week = startOfWeek(sessions[0].day); week <= lastWeek; week = addDays(week, 7)) {
+      weeklyVolume.push({ week: toDateKey(week), volume: round(volumeByWeek.get(toDateKey(week)) ?? 0) });
+    }
+  }
+
+  return {
+    unit,
+    sessions: sessions.map(({ convertedSets, ...session }) => session).reverse(),
+    estimated1RMTrend: sessions.map((session) => ({ date: session.date, estimated1RM: session.estimated1RM })),
+    prTimeline,
+    repMaxes,
+    weeklyVolume,
+    records: bests,
+  };
+};
@@ -0,0 +1,68 @@
+import ExerciseLibrary from '../models/ExerciseLibrary.js';
+
+// The exercise library is shared entries (createdBy: null) plus each user's own custom
+// exercises, which only that user sees. Names are compared case-insensitively.
+
+export const CASE_INSENSITIVE = { locale: 'en', strength: 2 };
+
+// Entries a user can see: the shared ones and their own
+export const visibleTo = (userId) => ({ $or: [{ createdBy: null }, { createdBy: userId }] });
+
+// Find the entry a user means by a name: their own custom exercise first, then a shared one
+export const findVisibleByName = async (userId, name) => {
+  const entries = await ExerciseLibrary.find({ ...visibleTo(userId), name: name.trim() })
+    .collation(CASE_INSENSITIVE)
+    .lean();
+  return entries.find((entry) => entry.createdBy) ?? entries[0] ?? null;
+};
+
+// Count each logged exercise towards its library entry. Names the user can't find in the
+// library become custom exercises of theirs, with the muscle group and equipment logged.
+export const recordExerciseUsage = async (userId, exercises) => {
+  const byName = new Map();
+  for (const exercise of exercises) {
+    const key = exercise.name.trim().toLowerCase();
+    const entry = byName.get(key) ?? { exercise, count: 0 };
+    entry.count++;
+    byName.set(key, entry);
+  }
+  if (byName.size === 0) return;
+
+  const existing = await ExerciseLibrary.find({
+    ...visibleTo(userId),
+    name: { $in: [...byName.values()].map(({ exercise }) => exercise.name.trim()) },
+  })
+    .collation(CASE_INSENSITIVE)
+    .select('name createdBy')
+    .lean();
+  // Prefer the user's own entry when a shared one has the same name
+  const existingByName = new Map();
+  for (const entry of existing) {
+    const key = entry.name.toLowerCase();
+    if (!existingByName.has(key) || entry.createdBy) existingByName.set(key, entry);
+  }
+
+  await ExerciseLibrary.bulkWrite(
+    [...byName.entries()].map(([key, { exercise, count }]) => {
+      const entry = existingByName.get(key);
+      if (entry) {
+        return { updateOne: { filter: { _id: entry._id }, update: { $inc: { usageCount: count } } } };
+      }
+      return {
+        updateOne: {
+          filter: { name: exercise.name.trim(), createdBy: userId },
+          update: {
+            $inc: { usageCount: count },
+            $setOnInsert: {
+              muscleGroup: exercise.muscleGroup ?? 'Full Body',
+              equipment: exercise.equipment ?? 'Other',
+              trackingType: exercise.trackingType ?? null,
+              isCustom: true,
+            },
+          },
+          upsert: true,
+        },
+      };
+    })
+  );
+};
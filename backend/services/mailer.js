@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Outgoing email. Messages go through a transport: any object with an async
+// `send({ to, subject, text })`. MAIL_TRANSPORT picks a built-in one:
+// - console: prints each message to the server log (the default)
+// - file: writes each message to MAIL_DIR as a .eml file, for development and tests
+// Production deployments register their own with `setMailTransport`.
+
+const getMailFrom = () => process.env.MAIL_FROM ?? 'Habit Tracker <no-reply@localhost>';
+
+const consoleTransport = {
+  async send({ to, subject, text }) {
+    console.log(`📧 Mail to ${to}: ${subject}\n${text}`);
+  },
+};
+
+const fileTransport = (directory) => ({
+  async send({ to, subject, text }) {
+    await fs.mkdir(directory, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${to.replace(/[^\w.@-]/g, '_')}.eml`;
+    const message = [`To: ${to}`, `From: ${getMailFrom()}`, `Subject: ${subject}`, '', text].join('\n');
+    await fs.writeFile(path.join(directory, name), message);
+  },
+});
+
+const TRANSPORTS = {
+  console: () => consoleTransport,
+  file: () => fileTransport(process.env.MAIL_DIR ?? path.resolve('tmp', 'mail')),
+};
+
+let transport = null;
+
+export const setMailTransport = (custom) => {
+  transport = custom;
+};
+
+const getTransport = () => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT ?? 'console';
+    if (!TRANSPORTS[name]) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+    }
+    transport = TRANSPORTS[name]();
+  }
+  return transport;
+};
+
+// Links in emails point at the frontend
+export const frontendUrl = (pathname, params) =>
+  `${process.env.FRONTEND_URL ?? 'http://localhost:3000'}${pathname}${params ? `?${new URLSearchParams(params)}` : ''}`;
+
+export const sendMail = (message) => getTransport().send({ from: getMailFrom(), ...message });
+
+export const sendPasswordResetEmail = (user, token) =>
+  sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Someone asked to reset the password for your Habit Tracker account. Open this link to choose a new one:',
+      frontendUrl('/reset-password', { token }),
+      '',
+      'The link works once and expires in 1 hour. If you did not ask for this, you can ignore this email.',
+    ].join('\n'),
+  });
+
+export const sendVerificationEmail = (user, token) =>
+  sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Please confirm this is your email address by opening this link:',
+      frontendUrl('/verify-email', { token }),
+      '',
+      'The link expires in 24 hours.',
+    ].join('\n'),
+  });
+
+export const sendAccountDeletionEmail = (user) =>
+  sendMail({
+    to: user.email,
+    subject: 'Your account is scheduled for deletion',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `Your Habit Tracker account and all its data will be permanently deleted on ${user.deletionScheduledFor.toUTCString()}.`,
+      '',
+      'Changed your mind? Sign in before then and choose "Undo" to keep your account:',
+      frontendUrl('/login'),
+    ].join('\n'),
+  });
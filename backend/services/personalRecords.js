@@ -0,0 +1,192 @@
+import PersonalRecord from '../models/PersonalRecord.js';
+import Workout from '../models/Workout.js';
+import User from '../models/User.js';
+import { CASE_INSENSITIVE } from './exerciseLibrary.js';
+import { BODYWEIGHT_TRACKING_TYPES, convertWeight, estimateOneRepMax, loadedSets } from '../utils/weights.js';
+import { attachBodyweights } from './bodyweight.js';
+
+// Personal records per exercise: the heaviest weight for at least 1, 3, 5, 8 and 10 reps,
+// and the best estimated 1RM with the user's formula, counting the bodyweight lifted in
+// bodyweight exercises (see loadedSets). Each time one falls a PersonalRecord entry is added,
+// so the latest entry per exercise, type and rep count is the current record. Changing the
+// formula resets the records, which are then rebuilt on the next read or logged set.
+
+export const PR_REP_COUNTS = [1, 3, 5, 8, 10];
+
+const toExerciseKey = (name) => name.trim().toLowerCase();
+const recordKey = ({ type, reps }) => `${type}:${reps ?? ''}`;
+const round = (value) => Math.round(value * 10) / 10;
+
+// Records a set beats, given the current best of each (recordKey -> { value, weightUnit }).
+// `current` is updated with the new bests. `set` is one of loadedSets(); sets not completed
+// or without weight don't count.
+const beatRecords = (current, set, weightUnit, formula) => {
+  if (set.completed === false || !set.weight || !set.reps) return [];
+
+  const candidates = [
+    ...PR_REP_COUNTS.filter((reps) => set.reps >= reps).map((reps) => ({ type: 'repMax', reps, value: set.weight })),
+    { type: 'estimated1RM', reps: null, value: round(estimateOneRepMax(set.weight, set.reps, formula, set.rpe)) },
+  ];
+
+  const beaten = [];
+  for (const candidate of candidates) {
+    const best = current.get(recordKey(candidate));
+    const previousValue = best ? convertWeight(best.value, best.weightUnit, weightUnit) : null;
+    if (previousValue !== null && candidate.value <= previousValue) continue;
+
+    current.set(recordKey(candidate), { value: candidate.value, weightUnit });
+    beaten.push({ ...candidate, weightUnit, previousValue, set: { reps: set.reps, weight: set.weight } });
+  }
+  return beaten;
+};
+
+const getFormula = async (userId) =>
+  (await User.findById(userId).select('oneRepMaxFormula').lean())?.oneRepMaxFormula ?? 'epley';
+
+// Current records of one exercise, keyed by recordKey
+const getCurrentRecords = async (userId, exerciseKey) => {
+  const entries = await PersonalRecord.find({ userId, exerciseKey }).sort({ achievedAt: -1, _id: -1 }).lean();
+  const current = new Map();
+  for (const entry of entries) {
+    if (!current.has(recordKey(entry))) current.set(recordKey(entry), entry);
+  }
+  return current;
+};
+
+// Recompute the record history of some exercises from every logged workout. Used after
+// workouts are created, edited, imported or deleted, and to backfill older history.
+export const rebuildPersonalRecords = async (userId, exerciseNames) => {
+  const keys = Array.from(new Set(exerciseNames.map(toExerciseKey)));
+  if (keys.length === 0) return;
+
+  const workouts = await Workout.find({
+    userId,
+    status: { $ne: 'planned' },
+    'exercises.name': { $in: exerciseNames.map((name) => name.trim()) },
+  })
+    .collation(CASE_INSENSITIVE)
+    .sort({ date: 1 })
+    .lean();
+  await attachBodyweights(userId, workouts);
+
+  const formula = await getFormula(userId);
+  const currentByExercise = new Map(keys.map((key) => [key, new Map()]));
+  const entries = [];
+  for (const workout of workouts) {
+    for (const exercise of workout.exercises) {
+      const exerciseKey = toExerciseKey(exercise.name);
+      const current = currentByExercise.get(exerciseKey);
+      if (!current) continue;
+
+      for (const set of loadedSets(exercise, workout.bodyweight)) {
+        for (const record of beatRecords(current, set, workout.weightUnit ?? 'kg', formula)) {
+          entries.push({
+            ...record,
+            userId,
+            exerciseName: exercise.name,
+            exerciseKey,
+            workoutId: workout._id,
+            achievedAt: workout.date,
+          });
+        }
+      }
+    }
+  }
+
+  await PersonalRecord.deleteMany({ userId, exerciseKey: { $in: keys } });
+  if (entries.length > 0) await PersonalRecord.insertMany(entries);
+};
+
+// Recompute the records of the user's bodyweight exercises, which count the bodyweight
+// lifted, after their weigh-ins change
+export const rebuildBodyweightRecords = async (userId) => {
+  const exercises = await Workout.aggregate([
+    { $match: { userId, status: { $ne: 'planned' } } },
+    { $unwind: '$exercises' },
+    {
+      $match: {
+        $or: [
+          { 'exercises.trackingType': { $in: BODYWEIGHT_TRACKING_TYPES } },
+          { 'exercises.equipment': 'Bodyweight' },
+        ],
+      },
+    },
+    { $group: { _id: '$exercises.name' } },
+  ]);
+  await rebuildPersonalRecords(userId, exercises.map((exercise) => exercise._id));
+};
+
+// Build the record history of workouts logged before records were tracked or since they
+// were reset. Runs once per user, not once per exercise: exercises that never set a record
+// (e.g. cardio) would otherwise be rebuilt each time.
+export const backfillPersonalRecords = async (userId) => {
+  const user = await User.findById(userId).select('+personalRecordsBuilt').lean();
+  if (!user || user.personalRecordsBuilt) return;
+
+  const names = await Workout.distinct('exercises.name', { userId, status: { $ne: 'planned' } });
+  await rebuildPersonalRecords(userId, names);
+  await User.updateOne({ _id: userId }, { personalRecordsBuilt: true });
+};
+
+// Delete all of a user's records, e.g. after the formula or workout history changes as a
+// whole. They are rebuilt by the next backfillPersonalRecords.
+export const resetPersonalRecords = async (userId) => {
+  await PersonalRecord.deleteMany({ userId });
+  await User.updateOne({ _id: userId }, { personalRecordsBuilt: false });
+};
+
+// Check a set just logged for `exercise` of `workout` against the exercise's records and save
+// the ones it beats. Returns the records it broke; ones set for the first time are saved silently.
+export const recordSetPersonalRecords = async (userId, workout, exercise, set) => {
+  await attachBodyweights(userId, [workout]);
+  const [loadedSet] = loadedSets(
+    { trackingType: exercise.trackingType, equipment: exercise.equipment, sets: [set] },
+    workout.bodyweight
+  );
+  if (!loadedSet) return [];
+
+  const exerciseName = exercise.name;
+  const exerciseKey = toExerciseKey(exerciseName);
+  const [current, formula] = await Promise.all([getCurrentRecords(userId, exerciseKey), getFormula(userId)]);
+  const beaten = beatRecords(current, loadedSet, workout.weightUnit ?? 'kg', formula);
+  if (beaten.length === 0) return [];
+
+  const entries = await PersonalRecord.insertMany(
+    beaten.map((record) => ({
+      ...record,
+      userId,
+      exerciseName,
+      exerciseKey,
+      workoutId: workout._id,
+      achievedAt: workout.date,
+    }))
+  );
+  return entries.filter((entry) => entry.previousValue !== null).map((entry) => entry.toObject());
+};
+
+// A record with its weights converted to `unit`, for display in the user's unit
+export const recordInUnit = (record, unit) => ({
+  ...record,
+  value: convertWeight(record.value, record.weightUnit, unit),
+  previousValue: record.previousValue === null ? null : convertWeight(record.previousValue, record.weightUnit, unit),
+  set: { reps: record.set.reps, weight: convertWeight(record.set.weight, record.weightUnit, unit) },
+  weightUnit: unit,
+});
+
+// Every time a record of the exercise fell, newest first
+export const getPersonalRecordHistory = (userId, exerciseName) =>
+  PersonalRecord.find({ userId, exerciseKey: toExerciseKey(exerciseName) }).sort({ achievedAt: -1, _id: -1 }).lean();
+
+// The current records of each exercise, optionally of one exercise only
+export const getPersonalRecords = async (userId, exerciseName) => {
+  const filter = exerciseName ? { userId, exerciseKey: toExerciseKey(exerciseName) } : { userId };
+  const entries = await PersonalRecord.find(filter).sort({ achievedAt: -1, _id: -1 }).lean();
+
+  const seen = new Set();
+  return entries.filter((entry) => {
+    const key = `${entry.exerciseKey}|${recordKey(entry)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
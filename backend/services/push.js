@@ -0,0 +1,45 @@
+import webpush from 'web-push';
+import PushSubscription from '../models/PushSubscription.js';
+
+let configured = null;
+
+// VAPID keys come from the environment; generate a pair with `npx web-push generate-vapid-keys`
+export const isPushConfigured = () => {
+  if (configured === null) {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    configured = Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+    if (configured) {
+      webpush.setVapidDetails(VAPID_SUBJECT ?? 'mailto:admin@example.com', VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+    }
+  }
+  return configured;
+};
+
+// Send a notification to every subscribed browser of a user. Subscriptions the
+// push service reports as gone are removed. Returns the number delivered.
+export const sendPushToUser = async (userId, payload) => {
+  if (!isPushConfigured()) return 0;
+
+  const subscriptions = await PushSubscription.find({ userId });
+  let delivered = 0;
+
+  await Promise.all(
+    subscriptions.map(async (subscription) => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          JSON.stringify(payload)
+        );
+        delivered++;
+      } catch (error) {
+        if (error.statusCode === 404 || error.statusCode === 410) {
+          await PushSubscription.deleteOne({ _id: subscription._id });
+        } else {
+          console.error('Push notification error:', error.message);
+        }
+      }
+    })
+  );
+
+  return delivered;
+};
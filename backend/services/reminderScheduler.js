@@ -0,0 +1,79 @@
+import Habit from '../models/Habit.js';
+import PushSubscription from '../models/PushSubscription.js';
+import User from '../models/User.js';
+import { getZonedParts, resolveTimeZone, startOfDay } from '../utils/dates.js';
+import { getDayStatus } from '../utils/habitSchedule.js';
+import { isPushConfigured, sendPushToUser } from './push.js';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+// A reminder still fires if a check runs up to this long after its time (restarts, slow ticks)
+const REMINDER_WINDOW_MINUTES = 15;
+
+const parseReminderTime = (reminderTime) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(reminderTime ?? '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const sendDueReminders = async (now = new Date()) => {
+  const userIds = await PushSubscription.distinct('userId');
+  if (userIds.length === 0) return;
+
+  const users = await User.find({
+    _id: { $in: userIds },
+    notificationsEnabled: true,
+    deletionScheduledFor: null,
+  }).select('timezone');
+
+  for (const user of users) {
+    const local = getZonedParts(now, resolveTimeZone(user));
+    const minutesNow = local.hour * 60 + local.minute;
+    const localDay = startOfDay(local.dateKey);
+
+    const habits = await Habit.find({
+      userId: user._id,
+      reminderEnabled: true,
+      reminderTime: { $ne: null },
+      lastReminderSentOn: { $ne: local.dateKey },
+    });
+
+    for (const habit of habits) {
+      const reminderMinutes = parseReminderTime(habit.reminderTime);
+      if (reminderMinutes === null) continue;
+
+      const minutesLate = minutesNow - reminderMinutes;
+      if (minutesLate < 0 || minutesLate >= REMINDER_WINDOW_MINUTES) continue;
+
+      const { due, completed } = getDayStatus(habit, localDay);
+      if (!due || completed) continue;
+
+      // Claim today's reminder atomically so only one cluster instance sends it
+      const claimed = await Habit.updateOne(
+        { _id: habit._id, lastReminderSentOn: { $ne: local.dateKey } },
+        { $set: { lastReminderSentOn: local.dateKey } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      await sendPushToUser(user._id, {
+        title: `${habit.icon} ${habit.name}`,
+        body: 'Time for your habit! Tap to check it off.',
+        tag: `habit-${habit._id}-${local.dateKey}`,
+        url: '/habits',
+      });
+    }
+  }
+};
+
+// Check for due habit reminders every minute. Safe to run on every PM2 instance.
+export const startReminderScheduler = () => {
+  if (!isPushConfigured()) {
+    console.log('⚠️  VAPID keys not set: habit reminders are disabled');
+    return () => {};
+  }
+
+  const tick = () => sendDueReminders().catch((error) => console.error('Reminder scheduler error:', error));
+  const interval = setInterval(tick, CHECK_INTERVAL_MS);
+  tick();
+
+  console.log('⏰ Habit reminder scheduler started');
+  return () => clearInterval(interval);
+};
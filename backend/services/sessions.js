@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session from '../models/Session.js';
+
+// Sign-in sessions: a short-lived JWT access token plus a refresh token that is replaced
+// on every use, both in httpOnly cookies. The refresh token is "<sessionId>.<secret>";
+// only a hash of the secret is stored. Presenting a secret that has already been
+// replaced means the token leaked, so the session is ended.
+
+export const ACCESS_COOKIE = 'accessToken';
+export const REFRESH_COOKIE = 'refreshToken';
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at once both present the same token; the slower one is let through
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export const getJwtSecret = () => process.env.JWT_SECRET ?? 'fallback-secret';
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+const generateSecret = () => crypto.randomBytes(32).toString('base64url');
+
+// The refresh cookie only goes to the auth routes that need it
+const cookieOptions = (path, maxAge) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: process.env.COOKIE_SAME_SITE ?? 'lax',
+  path,
+  maxAge,
+});
+
+// Set a fresh access token, and a new refresh token when the secret was rotated
+const setAuthCookies = (res, session, secret) => {
+  const accessToken = jwt.sign({ userId: session.userId, sessionId: session._id }, getJwtSecret(), {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  });
+  res.cookie(ACCESS_COOKIE, accessToken, cookieOptions('/api', ACCESS_TOKEN_TTL_SECONDS * 1000));
+  if (secret) {
+    res.cookie(REFRESH_COOKIE, `${session._id}.${secret}`, cookieOptions('/api/auth', REFRESH_TOKEN_TTL_MS));
+  }
+};
+
+export const clearAuthCookies = (res) => {
+  res.clearCookie(ACCESS_COOKIE, cookieOptions('/api'));
+  res.clearCookie(REFRESH_COOKIE, cookieOptions('/api/auth'));
+};
+
+// Session id and secret from the refresh cookie, or null
+export const readRefreshToken = (req) => {
+  const [sessionId, secret] = (req.cookies?.[REFRESH_COOKIE] ?? '').split('.');
+  return mongoose.isValidObjectId(sessionId) && secret ? { sessionId, secret } : null;
+};
+
+// Sign a user in on this device
+export const startSession = async (req, res, user) => {
+  const secret = generateSecret();
+  const session = await Session.create({
+    userId: user._id,
+    tokenHash: hashToken(secret),
+    userAgent: req.get('user-agent') ?? null,
+    ip: req.ip ?? null,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  setAuthCookies(res, session, secret);
+  return session;
+};
+
+// Exchange the refresh cookie for new tokens. Returns the session, or null when the
+// refresh token is missing, expired, revoked or was already used.
+export const refreshSession = async (req, res) => {
+  const token = readRefreshToken(req);
+  if (!token) return null;
+
+  const session = await Session.findById(token.sessionId);
+  if (!session || session.expiresAt < new Date()) return null;
+
+  const hash = hashToken(token.secret);
+  const now = new Date();
+  const withinGrace = session.rotatedAt && now - session.rotatedAt < ROTATION_GRACE_MS;
+
+  if (hash === session.previousTokenHash && withinGrace) {
+    setAuthCookies(res, session, null);
+    return session;
+  }
+
+  if (hash !== session.tokenHash) {
+    await session.deleteOne();
+    return null;
+  }
+
+  // Rotate atomically, so only one of several parallel refreshes replaces the secret
+  const secret = generateSecret();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, tokenHash: hash },
+    {
+      tokenHash: hashToken(secret),
+      previousTokenHash: hash,
+      rotatedAt: now,
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+    },
+    { new: true }
+  );
+
+  if (!rotated) {
+    setAuthCookies(res, session, null);
+    return session;
+  }
+
+  setAuthCookies(res, rotated, secret);
+  return rotated;
+};
+
+// Short device description from a user agent, e.g. "Chrome on macOS"
+export const describeDevice = (userAgent) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['OPR/', 'Opera'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? 'Browser';
+  const os =
+    [
+      ['iPhone', 'iPhone'],
+      ['iPad', 'iPad'],
+      ['Android', 'Android'],
+      ['Windows', 'Windows'],
+      ['Mac OS X', 'macOS'],
+      ['CrOS', 'ChromeOS'],
+      ['Linux', 'Linux'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? null;
+
+  return os ? `${browser} on ${os}` : browser;
+};
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import User from '../models/User.js';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '../utils/totp.js';
+
+// Two-factor authentication: setup with an authenticator app, checking codes at login,
+// and single-use recovery codes for when the app is unavailable. Recovery codes are
+// shown once and only their hashes are stored.
+
+const ISSUER = 'Habit Tracker';
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code) =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+// Codes like "3f9a2-c41b7"
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+// Start setup: a new secret to scan, which is only switched on by `confirmSetup`
+export const beginSetup = async (user) => {
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: user._id }, { twoFactorPendingSecret: secret });
+
+  const otpauthUrl = buildOtpAuthUrl({ secret, accountName: user.email, issuer: ISSUER });
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+};
+
+// Switch two-factor on once the user enters a code from the new secret. Returns the
+// recovery codes, or null when the code is wrong or setup wasn't started.
+export const confirmSetup = async (userId, code) => {
+  const user = await User.findById(userId).select('+twoFactorPendingSecret');
+  const step = user?.twoFactorPendingSecret && verifyTotp(user.twoFactorPendingSecret, code);
+  if (!step) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: userId },
+    {
+      twoFactorEnabled: true,
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorPendingSecret: null,
+      twoFactorLastStep: step,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    }
+  );
+  return recoveryCodes;
+};
+
+export const replaceRecoveryCodes = async (userId) => {
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne({ _id: userId }, { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = (userId) =>
+  User.updateOne(
+    { _id: userId },
+    {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorPendingSecret: null,
+      twoFactorLastStep: null,
+      twoFactorRecoveryCodes: [],
+    }
+  );
+
+// Check the second step of a login: an authenticator code or a recovery code. Each is
+// accepted once; the updates are conditional so parallel requests can't both use it.
+export const verifySecondFactor = async (userId, { code, recoveryCode }) => {
+  if (recoveryCode) {
+    const { modifiedCount } = await User.updateOne(
+      { _id: userId, twoFactorEnabled: true, twoFactorRecoveryCodes: hashRecoveryCode(String(recoveryCode)) },
+      { $pull: { twoFactorRecoveryCodes: hashRecoveryCode(String(recoveryCode)) } }
+    );
+    return modifiedCount === 1;
+  }
+
+  const user = await User.findById(userId).select('+twoFactorSecret');
+  const step = user?.twoFactorEnabled && user.twoFactorSecret && verifyTotp(user.twoFactorSecret, code);
+  if (!step) return false;
+
+  const { modifiedCount } = await User.updateOne(
+    { _id: userId, $or: [{ twoFactorLastStep: null }, { twoFactorLastStep: { $lt: step } }] },
+    { twoFactorLastStep: step }
+  );
+  return modifiedCount === 1;
+};
+
+export const countRecoveryCodes = async (userId) => {
+  const user = await User.findById(userId).select('+twoFactorRecoveryCodes');
+  return user?.twoFactorRecoveryCodes.length ?? 0;
+};
@@ -0,0 +1,399 @@
+import Workout from '../models/Workout.js';
+import ExerciseLibrary from '../models/ExerciseLibrary.js';
+import { recordExerciseUsage, visibleTo } from './exerciseLibrary.js';
+import { rebuildPersonalRecords } from './personalRecords.js';
+import { parseCsv } from '../utils/csv.js';
+import { fromZonedTime } from '../utils/dates.js';
+import { convertWeight } from '../utils/weights.js';
+import { defaultTrackingType } from '../utils/tracking.js';
+
+// Workout history import from other apps' CSV exports (Strong, Hevy, FitNotes).
+// Rows are normalised, exercise names are matched onto the exercise library, weights are
+// converted into the chosen unit and sets are grouped into completed workouts.
+
+const IMPORT_SOURCES = ['strong', 'hevy', 'fitnotes'];
+
+// Exercises matching at least this well are mapped without asking
+const AUTO_MATCH_SCORE = 0.8;
+const SUGGESTION_SCORE = 0.4;
+const MAX_SUGGESTIONS = 3;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const EQUIPMENT = ['Barbell', 'Dumbbell', 'Machine', 'Bodyweight', 'Cable', 'Kettlebell'];
+
+// Which app an export came from, by its header row
+export const detectSource = (headers) => {
+  if (headers.includes('exercise_title') && headers.includes('start_time')) return 'hevy';
+  if (headers.includes('Exercise Name') && headers.includes('Set Order')) return 'strong';
+  if (headers.includes('Exercise') && headers.includes('Category') && headers.includes('Date')) return 'fitnotes';
+  return null;
+};
+
+const toNumber = (value) => {
+  if (value === undefined || value === '') return null;
+  const number = Number(String(value).replace(',', '.'));
+  return Number.isFinite(number) ? number : null;
+};
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Wall-clock date and time from "2023-01-15 08:30:00", "2023-01-15" or "15 Jan 2023, 08:30"
+const parseLocalDateTime = (text) => {
+  const iso = text?.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?/);
+  if (iso) {
+    return { dateKey: `${iso[1]}-${iso[2]}-${iso[3]}`, hour: Number(iso[4] ?? 12), minute: Number(iso[5] ?? 0) };
+  }
+
+  const named = text?.match(/^(\d{1,2}) (\w{3})\w* (\d{4}),? (\d{1,2}):(\d{2})/);
+  const month = named ? MONTHS.indexOf(named[2].toLowerCase()) : -1;
+  if (month >= 0) {
+    return { dateKey: `${named[3]}-${pad(month + 1)}-${pad(named[1])}`, hour: Number(named[4]), minute: Number(named[5]) };
+  }
+
+  return null;
+};
+
+// Strong durations look like "1h 5m", "45m" or "30s"
+const parseDuration = (text) => {
+  if (!text) return null;
+  const [, hours = 0] = text.match(/(\d+)\s*h/) ?? [];
+  const [, minutes = 0] = text.match(/(\d+)\s*m(?!s)/) ?? [];
+  const [, seconds = 0] = text.match(/(\d+)\s*s/) ?? [];
+  const total = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return total > 0 ? total : null;
+};
+
+// The weight column and its unit; `fallbackUnit` applies when the file doesn't say
+const readWeight = (row, fallbackUnit) => {
+  for (const [column, unit] of [
+    ['weight_kg', 'kg'],
+    ['weight_lbs', 'lb'],
+    ['Weight (kgs)', 'kg'],
+    ['Weight (kg)', 'kg'],
+    ['Weight (lbs)', 'lb'],
+  ]) {
+    if (column in row) return { weight: toNumber(row[column]) ?? 0, unit };
+  }
+
+  const unit = ['lb', 'lbs'].includes(row['Weight Unit']?.toLowerCase()) ? 'lb' : row['Weight Unit'] ? 'kg' : fallbackUnit;
+  return { weight: toNumber(row.Weight) ?? 0, unit };
+};
+
+// FitNotes times look like "0:25:00" or "25:00"
+const parseClock = (text) => {
+  const parts = text?.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (!parts) return null;
+  const total = Number(parts[1] ?? 0) * 3600 + Number(parts[2]) * 60 + Number(parts[3]);
+  return total > 0 ? total : null;
+};
+
+const METRES_PER_UNIT = { m: 1, km: 1000, mi: 1609.344, yd: 0.9144, ft: 0.3048 };
+
+// The distance column in metres; Strong and FitNotes name the unit, defaulting to kilometres
+const readDistance = (row) => {
+  const unit = row['Distance Unit']?.toLowerCase();
+  const [distance, metres] =
+    'distance_km' in row ? [row.distance_km, METRES_PER_UNIT.km] : [row.Distance, METRES_PER_UNIT[unit] ?? METRES_PER_UNIT.km];
+  const value = toNumber(distance);
+  return value > 0 ? Math.round(value * metres * 10) / 10 : null;
+};
+
+// Set types as Hevy (`set_type`) and Strong (letters in `Set Order`) export them
+const HEVY_SET_TYPES = { warmup: 'warmup', dropset: 'drop', failure: 'failure' };
+const STRONG_SET_TYPES = { W: 'warmup', D: 'drop', F: 'failure' };
+
+// One row per set in a common shape, whatever app the file came from
+export const normaliseRow = (source, row, sourceUnit) => {
+  const { weight, unit } = readWeight(row, sourceUnit);
+  const distance = readDistance(row);
+
+  if (source === 'hevy') {
+    return {
+      groupKey: `${row.title}|${row.start_time}`,
+      title: row.title,
+      start: parseLocalDateTime(row.start_time),
+      end: parseLocalDateTime(row.end_time),
+      durationSeconds: null,
+      notes: row.description ?? '',
+      exercise: row.exercise_title,
+      reps: toNumber(row.reps),
+      weight,
+      unit,
+      distance,
+      duration: toNumber(row.duration_seconds),
+      rpe: toNumber(row.rpe),
+      setType: HEVY_SET_TYPES[row.set_type] ?? 'working',
+    };
+  }
+
+  if (source === 'strong') {
+    return {
+      groupKey: `${row['Workout Name']}|${row.Date}`,
+      title: row['Workout Name'],
+      start: parseLocalDateTime(row.Date),
+      end: null,
+      durationSeconds: parseDuration(row.Duration),
+      notes: row['Workout Notes'] ?? '',
+      exercise: row['Exercise Name'],
+      reps: toNumber(row.Reps),
+      weight,
+      unit,
+      distance,
+      duration: toNumber(row.Seconds),
+      rpe: toNumber(row.RPE),
+      setType: STRONG_SET_TYPES[row['Set Order']] ?? 'working',
+    };
+  }
+
+  // FitNotes only records the day, so each day becomes one workout
+  return {
+    groupKey: row.Date,
+    title: null,
+    start: parseLocalDateTime(row.Date),
+    end: null,
+    durationSeconds: null,
+    notes: '',
+    exercise: row.Exercise,
+    reps: toNumber(row.Reps),
+    weight,
+    unit,
+    distance,
+    duration: parseClock(row.Time),
+    rpe: null,
+    setType: 'working',
+  };
+};
+
+// Tracking type implied by an imported set, for exercises without one: distance
+// or time without reps is cardio or a carry. Null when the set has reps.
+const trackingTypeOf = (set) => {
+  if (set.reps > 0) return null;
+  if (set.distance > 0) return set.weight > 0 ? 'distanceWeight' : 'distanceDuration';
+  return 'duration';
+};
+
+// Lowercase words of an exercise name, e.g. "Bench Press (Barbell)" -> ["barbell", "bench", "press"]
+const tokenize = (name) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .sort();
+
+const levenshtein = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similarity from 0 to 1: the better of word overlap (ignores word order, so
+// "Bench Press (Barbell)" matches "Barbell Bench Press") and character edit distance
+const similarity = (a, b) => {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const shared = tokensA.filter((token) => tokensB.includes(token)).length;
+  const overlap = (2 * shared) / (tokensA.length + tokensB.length || 1);
+
+  const textA = tokensA.join(' ');
+  const textB = tokensB.join(' ');
+  const edit = 1 - levenshtein(textA, textB) / Math.max(textA.length, textB.length, 1);
+
+  return Math.round(Math.max(overlap, edit) * 100) / 100;
+};
+
+// Equipment named in brackets, as Strong and Hevy do: "Bench Press (Dumbbell)"
+const equipmentFromName = (name) => EQUIPMENT.find((equipment) => name.includes(`(${equipment})`)) ?? null;
+
+// Library candidates for an imported exercise name, best first. The bracketed equipment may
+// be dropped ("Squat (Barbell)" -> "Squat") when the library entry uses the same equipment.
+const rankMatches = (name, library) => {
+  const equipment = equipmentFromName(name);
+  const baseName = name.replace(/\s*\([^)]*\)\s*/g, ' ').trim();
+
+  return library
+    .map((entry) => ({
+      name: entry.name,
+      score: Math.max(
+        similarity(name, entry.name),
+        !equipment || entry.equipment === equipment ? similarity(baseName, entry.name) : 0
+      ),
+    }))
+    .filter((match) => match.score >= SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+// Decide which library exercise each imported name maps to. `mappings` holds the user's
+// choices: a library name, any other name to import it under, or null/'' to keep it as is.
+const mapExercises = (names, library, mappings) =>
+  names.map((sourceName) => {
+    const suggestions = rankMatches(sourceName, library);
+    const best = suggestions[0];
+
+    let name = sourceName;
+    let mapping = 'new';
+    if (Object.prototype.hasOwnProperty.call(mappings, sourceName)) {
+      name = mappings[sourceName]?.trim() || sourceName;
+      mapping = 'manual';
+    } else if (best && best.score >= AUTO_MATCH_SCORE) {
+      name = best.name;
+      mapping = 'auto';
+    }
+    const target = library.find((entry) => entry.name.toLowerCase() === name.toLowerCase());
+
+    return {
+      sourceName,
+      name: target?.name ?? name,
+      muscleGroup: target?.muscleGroup ?? null,
+      equipment: target?.equipment ?? equipmentFromName(sourceName),
+      trackingType: target?.trackingType ?? null,
+      mapping,
+      libraryMatch: Boolean(target),
+      suggestions,
+    };
+  });
+
+// Parse an export and build the workouts it would create, flagging ones already imported.
+// Returns { source, exercises, workouts, skippedRows } or { error } for files that can't be imported.
+export const prepareImport = async ({ csv, source, weightUnit = 'kg', sourceUnit, mappings = {}, userId, timeZone }) => {
+  if (!csv || typeof csv !== 'string') {
+    return { error: 'CSV file is required' };
+  }
+  if (!['kg', 'lb'].includes(weightUnit) || (sourceUnit && !['kg', 'lb'].includes(sourceUnit))) {
+    return { error: 'Weight units must be kg or lb' };
+  }
+
+  const { headers, rows } = parseCsv(csv);
+  const detectedSource = detectSource(headers);
+  if (!detectedSource) {
+    return { error: 'Unrecognised CSV format. Export your history from Strong, Hevy or FitNotes.' };
+  }
+  if (source && IMPORT_SOURCES.includes(source) && source !== detectedSource) {
+    return { error: `This looks like a ${detectedSource} export, not ${source}` };
+  }
+
+  // Rows without reps, distance or time have no set to import
+  let skippedRows = 0;
+  const groups = new Map();
+  for (const [index, row] of rows.entries()) {
+    const set = normaliseRow(detectedSource, row, sourceUnit ?? weightUnit);
+    if (!set.start) {
+      // Line numbers count the header row
+      return { error: `Line ${index + 2}: unrecognised date` };
+    }
+    if (!set.exercise || !(set.reps > 0 || set.distance > 0 || set.duration > 0)) {
+      skippedRows++;
+      continue;
+    }
+    if (!groups.has(set.groupKey)) groups.set(set.groupKey, []);
+    groups.get(set.groupKey).push(set);
+  }
+
+  const library = await ExerciseLibrary.find(visibleTo(userId)).select('name muscleGroup equipment trackingType').lean();
+  const exerciseNames = [...new Set([...groups.values()].flat().map((set) => set.exercise))];
+  const exercises = mapExercises(exerciseNames, library, mappings);
+  const exerciseByName = new Map(exercises.map((exercise) => [exercise.sourceName, exercise]));
+
+  const workouts = [...groups.values()].map((sets) => {
+    const [first] = sets;
+    const date = fromZonedTime(first.start.dateKey, first.start.hour, first.start.minute, timeZone);
+    const endTime = first.end
+      ? fromZonedTime(first.end.dateKey, first.end.hour, first.end.minute, timeZone)
+      : new Date(date.getTime() + (first.durationSeconds ?? 0) * 1000);
+
+    const exerciseList = [];
+    sets.forEach((set) => {
+      const mapped = exerciseByName.get(set.exercise);
+      let exercise = exerciseList.find((e) => e.name === mapped.name);
+      if (!exercise) {
+        exercise = {
+          name: mapped.name,
+          muscleGroup: mapped.muscleGroup,
+          equipment: mapped.equipment,
+          trackingType: mapped.trackingType ?? trackingTypeOf(set) ?? defaultTrackingType(mapped),
+          sets: [],
+          order: exerciseList.length,
+        };
+        exerciseList.push(exercise);
+      }
+      exercise.sets.push({
+        reps: set.reps ?? 0,
+        weight: convertWeight(set.weight, set.unit, weightUnit),
+        duration: set.duration,
+        distance: set.distance,
+        rpe: set.rpe >= 1 && set.rpe <= 10 ? set.rpe : null,
+        completed: true,
+        setType: set.setType,
+      });
+    });
+
+    return {
+      date,
+      startTime: date,
+      endTime,
+      duration: Math.max(0, Math.round((endTime - date) / 1000)),
+      status: 'completed',
+      notes: [first.title, first.notes].filter(Boolean).join(' - '),
+      weightUnit,
+      exercises: exerciseList,
+      importKey: `${detectedSource}:${date.toISOString()}`,
+    };
+  });
+
+  // Already imported, or already logged here at the same moment
+  const existing = await Workout.find({
+    userId,
+    $or: [{ importKey: { $in: workouts.map((w) => w.importKey) } }, { date: { $in: workouts.map((w) => w.date) } }],
+  })
+    .select('importKey date')
+    .lean();
+  const existingKeys = new Set(existing.map((w) => w.importKey).filter(Boolean));
+  const existingDates = new Set(existing.map((w) => new Date(w.date).getTime()));
+  workouts.forEach((workout) => {
+    workout.duplicate = existingKeys.has(workout.importKey) || existingDates.has(workout.date.getTime());
+  });
+
+  return {
+    source: detectedSource,
+    exercises,
+    workouts: workouts.sort((a, b) => a.date - b.date),
+    skippedRows,
+  };
+};
+
+// Save the prepared workouts, skipping duplicates, and add new exercise names to the library
+export const commitImport = async ({ workouts, exercises }, userId) => {
+  const toCreate = workouts.filter((workout) => !workout.duplicate);
+  if (toCreate.length === 0) return [];
+
+  const created = await Workout.insertMany(
+    toCreate.map(({ duplicate, ...workout }) => ({ ...workout, userId }))
+  );
+
+  const newExercises = new Map(exercises.filter((e) => !e.libraryMatch).map((e) => [e.name, e]));
+  await recordExerciseUsage(
+    userId,
+    toCreate.flatMap((workout) =>
+      workout.exercises.map(({ name, trackingType }) => ({
+        name,
+        muscleGroup: newExercises.get(name)?.muscleGroup,
+        equipment: newExercises.get(name)?.equipment,
+        trackingType,
+      }))
+    )
+  );
+  await rebuildPersonalRecords(
+    userId,
+    toCreate.flatMap((workout) => workout.exercises.map(({ name }) => name))
+  );
+
+  return created;
+};
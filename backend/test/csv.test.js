@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from '../utils/csv.js';
+
+describe('toCsv', () => {
+  it('writes a header row and CRLF-terminated rows', () => {
+    assert.equal(toCsv(['a', 'b'], [[1, 'x'], [2, 'y']]), 'a,b\r\n1,x\r\n2,y\r\n');
+  });
+
+  it('quotes fields with commas, quotes or newlines', () => {
+    assert.equal(toCsv(['note'], [['a, b'], ['say "hi"'], ['two\nlines']]), 'note\r\n"a, b"\r\n"say ""hi"""\r\n"two\nlines"\r\n');
+  });
+
+  it('writes empty fields for null and undefined, and dates as ISO strings', () => {
+    assert.equal(toCsv(['a', 'b', 'c'], [[null, undefined, new Date('2024-01-15T08:30:00.000Z')]]), 'a,b,c\r\n,,2024-01-15T08:30:00.000Z\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads rows into objects keyed by the trimmed header', () => {
+    assert.deepEqual(parseCsv('Date, Exercise\r\n2024-01-15, Squat \r\n'), {
+      headers: ['Date', 'Exercise'],
+      rows: [{ Date: '2024-01-15', Exercise: 'Squat' }],
+    });
+  });
+
+  it('reads quoted fields with delimiters, escaped quotes and newlines', () => {
+    const { rows } = parseCsv('name,notes\n"Bench, close grip","felt ""easy""\nnext time more"\n');
+
+    assert.deepEqual(rows, [{ name: 'Bench, close grip', notes: 'felt "easy"\nnext time more' }]);
+  });
+
+  it('detects semicolon-separated files', () => {
+    const { rows } = parseCsv('Date;Weight;Reps\n2024-01-15;62,5;8');
+
+    assert.deepEqual(rows, [{ Date: '2024-01-15', Weight: '62,5', Reps: '8' }]);
+  });
+
+  it('skips a byte order mark and blank lines, and fills missing fields', () => {
+    const { headers, rows } = parseCsv('\uFEFFa,b,c\n\n1,2\n,,\n');
+
+    assert.deepEqual(headers, ['a', 'b', 'c']);
+    assert.deepEqual(rows, [{ a: '1', b: '2', c: '' }]);
+  });
+
+  it('reads a header without rows', () => {
+    assert.deepEqual(parseCsv('a,b'), { headers: ['a', 'b'], rows: [] });
+    assert.deepEqual(parseCsv(''), { headers: [], rows: [] });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addDays,
+  fromZonedTime,
+  getUserToday,
+  getZonedParts,
+  resolveTimeZone,
+  startOfWeek,
+  toDateKey,
+  toLocalDay,
+} from '../utils/dates.js';
+
+const day = (dateKey) => new Date(`${dateKey}T00:00:00.000Z`);
+
+describe('calendar dates', () => {
+  it('starts weeks on Monday', () => {
+    assert.deepEqual(startOfWeek(day('2024-01-17')), day('2024-01-15'));
+    assert.deepEqual(startOfWeek(day('2024-01-21')), day('2024-01-15'));
+    assert.deepEqual(startOfWeek(day('2024-01-15')), day('2024-01-15'));
+  });
+
+  it('adds days across months and years', () => {
+    assert.equal(toDateKey(addDays(day('2023-12-31'), 1)), '2024-01-01');
+    assert.equal(toDateKey(addDays(day('2024-03-01'), -1)), '2024-02-29');
+  });
+});
+
+describe('timezones', () => {
+  it('puts an instant on the calendar date of the timezone', () => {
+    const instant = new Date('2024-01-15T23:30:00.000Z');
+
+    assert.deepEqual(toLocalDay(instant, 'Europe/Berlin'), day('2024-01-16'));
+    assert.deepEqual(toLocalDay(instant, 'America/New_York'), day('2024-01-15'));
+    assert.deepEqual(getUserToday('Asia/Tokyo', instant), day('2024-01-16'));
+  });
+
+  it('reads the wall-clock time of an instant', () => {
+    assert.deepEqual(getZonedParts(new Date('2024-07-01T06:05:00.000Z'), 'Europe/Berlin'), {
+      dateKey: '2024-07-01',
+      hour: 8,
+      minute: 5,
+    });
+  });
+
+  it('finds the instant of a wall-clock time on either side of a DST change', () => {
+    assert.equal(fromZonedTime('2024-01-15', 8, 30, 'Europe/Berlin').toISOString(), '2024-01-15T07:30:00.000Z');
+    assert.equal(fromZonedTime('2024-07-01', 8, 30, 'Europe/Berlin').toISOString(), '2024-07-01T06:30:00.000Z');
+    // Clocks go forward at 02:00 on these days
+    assert.equal(fromZonedTime('2024-03-31', 12, 0, 'Europe/Berlin').toISOString(), '2024-03-31T10:00:00.000Z');
+    assert.equal(fromZonedTime('2024-03-10', 12, 0, 'America/New_York').toISOString(), '2024-03-10T16:00:00.000Z');
+  });
+
+  it('falls back to UTC for a missing or unknown timezone', () => {
+    assert.equal(resolveTimeZone({ timezone: 'Europe/Berlin' }), 'Europe/Berlin');
+    assert.equal(resolveTimeZone({ timezone: 'Mars/Olympus_Mons' }), 'UTC');
+    assert.equal(resolveTimeZone(null), 'UTC');
+  });
+});
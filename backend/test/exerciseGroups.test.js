@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { dissolveSingleGroups, gatherGroups, keepsGroupsTogether } from '../utils/exerciseGroups.js';
+
+// Exercises named after their group ('-' for none), e.g. exercisesOf('a-ab') is A1, -, A2, B1
+const exercisesOf = (groups) =>
+  [...groups].map((group, index) =>
+    group === '-' ? { name: `${index}`, groupId: null, groupType: null } : { name: `${index}`, groupId: group, groupType: 'superset' }
+  );
+const names = (exercises) => exercises.map((exercise) => exercise.name);
+
+describe('dissolveSingleGroups', () => {
+  it('ungroups an exercise left alone in its group', () => {
+    const workout = { exercises: exercisesOf('a-bb') };
+    dissolveSingleGroups(workout);
+
+    assert.deepEqual(
+      workout.exercises.map(({ groupId, groupType }) => [groupId, groupType]),
+      [
+        [null, null],
+        [null, null],
+        ['b', 'superset'],
+        ['b', 'superset'],
+      ]
+    );
+  });
+});
+
+describe('gatherGroups', () => {
+  it('moves the exercises of each group up behind its first one', () => {
+    assert.deepEqual(names(gatherGroups(exercisesOf('a-ba-b'))), ['0', '3', '1', '2', '5', '4']);
+  });
+
+  it('keeps exercises that are already together in order', () => {
+    const exercises = exercisesOf('-aab-');
+
+    assert.deepEqual(gatherGroups(exercises), exercises);
+  });
+});
+
+describe('keepsGroupsTogether', () => {
+  it('accepts groups whose exercises are next to each other', () => {
+    assert.equal(keepsGroupsTogether(exercisesOf('-aa-bbb')), true);
+    assert.equal(keepsGroupsTogether(exercisesOf('aabb')), true);
+    assert.equal(keepsGroupsTogether([]), true);
+  });
+
+  it('rejects a group split by another exercise or group', () => {
+    assert.equal(keepsGroupsTogether(exercisesOf('a-a')), false);
+    assert.equal(keepsGroupsTogether(exercisesOf('abab')), false);
+  });
+
+  it('accepts what gatherGroups returns', () => {
+    assert.equal(keepsGroupsTogether(gatherGroups(exercisesOf('ab-ab-a'))), true);
+  });
+});
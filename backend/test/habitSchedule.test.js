@@ -0,0 +1,190 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDayStatus, getHabitStats, isScheduledOn, streakInDays } from '../utils/habitSchedule.js';
+
+// 2024-01-15 is a Monday
+const day = (dateKey) => new Date(`${dateKey}T00:00:00.000Z`);
+const habitWith = (fields, completedDays = []) => ({
+  frequency: 'daily',
+  completions: completedDays.map((dateKey) => ({ date: day(dateKey), completed: true })),
+  ...fields,
+});
+
+describe('getHabitStats', () => {
+  it('counts a daily streak without breaking it on today, which is still in progress', () => {
+    const habit = habitWith({ startDate: day('2024-01-10') }, ['2024-01-14', '2024-01-15', '2024-01-16']);
+    const stats = getHabitStats(habit, { to: day('2024-01-17') });
+
+    assert.equal(stats.currentStreak, 3);
+    assert.deepEqual(stats.currentStreakStart, day('2024-01-14'));
+    assert.equal(stats.longestStreak, 3);
+    assert.equal(stats.streakUnit, 'days');
+    // The 10th to the 16th were due; today only counts once it is completed
+    assert.equal(stats.dueCount, 7);
+    assert.equal(stats.completedCount, 3);
+    assert.equal(stats.missedCount, 4);
+    assert.equal(stats.completionRate, 42.86);
+  });
+
+  it('counts today once it is completed', () => {
+    const habit = habitWith({ startDate: day('2024-01-14') }, ['2024-01-14', '2024-01-15', '2024-01-16', '2024-01-17']);
+    const stats = getHabitStats(habit, { to: day('2024-01-17') });
+
+    assert.equal(stats.currentStreak, 4);
+    assert.equal(stats.dueCount, 4);
+    assert.equal(stats.completionRate, 100);
+  });
+
+  it('keeps the longest streak after a missed day', () => {
+    const habit = habitWith({ startDate: day('2024-01-10') }, [
+      '2024-01-10',
+      '2024-01-11',
+      '2024-01-12',
+      '2024-01-13',
+      '2024-01-15',
+      '2024-01-16',
+    ]);
+    const stats = getHabitStats(habit, { to: day('2024-01-16') });
+
+    assert.equal(stats.currentStreak, 2);
+    assert.equal(stats.longestStreak, 4);
+  });
+
+  it('has no current streak after a missed day', () => {
+    const habit = habitWith({ startDate: day('2024-01-10') }, ['2024-01-10', '2024-01-11']);
+    const stats = getHabitStats(habit, { to: day('2024-01-14') });
+
+    assert.equal(stats.currentStreak, 0);
+    assert.equal(stats.currentStreakStart, null);
+    assert.equal(stats.longestStreak, 2);
+  });
+
+  it('only counts the scheduled weekdays of a weekly habit', () => {
+    const habit = habitWith({ frequency: 'weekly', weeklyDays: [1, 3, 5], startDate: day('2024-01-08') }, [
+      '2024-01-08',
+      '2024-01-10',
+      '2024-01-12',
+      '2024-01-15',
+    ]);
+    const stats = getHabitStats(habit, { to: day('2024-01-16') });
+
+    assert.equal(stats.currentStreak, 4);
+    assert.equal(stats.dueCount, 4);
+    assert.equal(stats.completionRate, 100);
+  });
+
+  it('counts weekly goals in weeks, with the current week counting once it is met', () => {
+    const habit = habitWith({ frequency: 'custom', customFrequency: 3, startDate: day('2024-01-01') }, [
+      '2024-01-01',
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-08',
+      '2024-01-09',
+      '2024-01-15',
+      '2024-01-16',
+      '2024-01-17',
+    ]);
+    const stats = getHabitStats(habit, { to: day('2024-01-17') });
+
+    assert.equal(stats.streakUnit, 'weeks');
+    assert.equal(stats.currentStreak, 1);
+    assert.deepEqual(stats.currentStreakStart, day('2024-01-15'));
+    assert.equal(stats.longestStreak, 1);
+    assert.equal(stats.dueCount, 9);
+    assert.equal(stats.completedCount, 8);
+  });
+
+  it('prorates the target of a week cut by the start date', () => {
+    // Only the Saturday and Sunday of the first week are after the start
+    const habit = habitWith({ frequency: 'custom', customFrequency: 4, startDate: day('2024-01-06') }, [
+      '2024-01-06',
+      '2024-01-07',
+    ]);
+    const stats = getHabitStats(habit, { to: day('2024-01-08') });
+
+    assert.equal(stats.currentStreak, 1);
+    assert.equal(stats.dueCount, 2);
+  });
+
+  it('starts the schedule at an earlier backfilled completion', () => {
+    const habit = habitWith({ startDate: day('2024-01-15') }, ['2024-01-13', '2024-01-14', '2024-01-15']);
+
+    assert.equal(getHabitStats(habit, { to: day('2024-01-15') }).currentStreak, 3);
+  });
+
+  it('limits rates to the range from `from`, but not streaks', () => {
+    const habit = habitWith({ startDate: day('2024-01-01') }, [
+      '2024-01-13',
+      '2024-01-14',
+      '2024-01-15',
+      '2024-01-16',
+    ]);
+    const stats = getHabitStats(habit, { from: day('2024-01-15'), to: day('2024-01-17') });
+
+    assert.equal(stats.dueCount, 2);
+    assert.equal(stats.completionRate, 100);
+    assert.equal(stats.currentStreak, 4);
+  });
+
+  it('neither breaks nor extends a streak on a frozen day', () => {
+    const habit = habitWith({ startDate: day('2024-01-10'), frozenDays: [day('2024-01-13')] }, [
+      '2024-01-10',
+      '2024-01-11',
+      '2024-01-12',
+      '2024-01-14',
+      '2024-01-15',
+    ]);
+    const stats = getHabitStats(habit, { to: day('2024-01-15') });
+
+    assert.equal(stats.currentStreak, 5);
+    assert.deepEqual(stats.currentStreakStart, day('2024-01-10'));
+    assert.equal(stats.longestStreak, 5);
+    // The frozen day is left out of the rate
+    assert.equal(stats.dueCount, 5);
+    assert.equal(stats.completionRate, 100);
+  });
+
+  it('preserves a missed week of a weekly goal that has a frozen day', () => {
+    const habit = habitWith(
+      { frequency: 'custom', customFrequency: 3, startDate: day('2024-01-01'), frozenDays: [day('2024-01-10')] },
+      ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-08', '2024-01-15', '2024-01-16', '2024-01-17']
+    );
+
+    assert.equal(getHabitStats(habit, { to: day('2024-01-17') }).currentStreak, 2);
+  });
+});
+
+describe('getDayStatus', () => {
+  it('is not due before the schedule starts', () => {
+    const habit = habitWith({ startDate: day('2024-01-15') });
+
+    assert.equal(getDayStatus(habit, day('2024-01-14')).due, false);
+    assert.equal(getDayStatus(habit, day('2024-01-15')).due, true);
+  });
+
+  it('is not due once the week of a weekly goal is met', () => {
+    const habit = habitWith({ frequency: 'custom', customFrequency: 2, startDate: day('2024-01-01') }, [
+      '2024-01-15',
+      '2024-01-16',
+    ]);
+
+    assert.deepEqual(getDayStatus(habit, day('2024-01-16')), { due: true, completed: true, frozen: false });
+    assert.deepEqual(getDayStatus(habit, day('2024-01-17')), { due: false, completed: false, frozen: false });
+    // A new week starts on Monday
+    assert.equal(getDayStatus(habit, day('2024-01-22')).due, true);
+  });
+});
+
+describe('isScheduledOn', () => {
+  it('treats a weekly habit without days as daily', () => {
+    assert.equal(isScheduledOn({ frequency: 'weekly', weeklyDays: [] }, day('2024-01-16')), true);
+    assert.equal(isScheduledOn({ frequency: 'weekly', weeklyDays: [1] }, day('2024-01-16')), false);
+  });
+});
+
+describe('streakInDays', () => {
+  it('counts a week of a weekly goal as seven days', () => {
+    assert.equal(streakInDays(3, 'weeks'), 21);
+    assert.equal(streakInDays(3, 'days'), 3);
+  });
+});
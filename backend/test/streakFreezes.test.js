@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { awardStreakFreeze, MAX_STREAK_FREEZES } from '../utils/streakFreezes.js';
+
+const day = (dateKey) => new Date(`${dateKey}T00:00:00.000Z`);
+const daysFrom = (dateKey, count) =>
+  Array.from({ length: count }, (_, i) => new Date(day(dateKey).getTime() + i * 86400000));
+
+// A daily habit completed every day from `firstDay` for `count` days, without freezes yet
+const habitWithStreak = (firstDay, count) => ({
+  frequency: 'daily',
+  startDate: day(firstDay),
+  completions: daysFrom(firstDay, count).map((date) => ({ date, completed: true })),
+  frozenDays: [],
+  streakFreeze: 0,
+  freezeStreakStart: null,
+  freezeStreakLength: 0,
+});
+
+const completeDays = (habit, dates) => {
+  for (const date of dates) habit.completions.push({ date, completed: true });
+};
+
+describe('awardStreakFreeze', () => {
+  it('awards a freeze when the streak reaches seven days', () => {
+    const habit = habitWithStreak('2024-01-09', 7);
+
+    assert.equal(awardStreakFreeze(habit, day('2024-01-15')), true);
+    assert.equal(habit.streakFreeze, 1);
+    assert.deepEqual(habit.freezeStreakStart, day('2024-01-09'));
+    assert.equal(habit.freezeStreakLength, 7);
+  });
+
+  it('awards nothing between multiples of seven', () => {
+    const habit = habitWithStreak('2024-01-09', 6);
+
+    assert.equal(awardStreakFreeze(habit, day('2024-01-14')), false);
+    assert.equal(habit.streakFreeze, 0);
+  });
+
+  it('does not award the same streak length twice when a day is completed again', () => {
+    const habit = habitWithStreak('2024-01-09', 7);
+    awardStreakFreeze(habit, day('2024-01-15'));
+
+    // Un-complete and re-complete the first day, then a day in the middle
+    for (const index of [0, 3]) {
+      habit.completions[index].completed = false;
+      assert.equal(awardStreakFreeze(habit, day('2024-01-15')), false);
+      habit.completions[index].completed = true;
+      assert.equal(awardStreakFreeze(habit, day('2024-01-15')), false);
+    }
+    assert.equal(habit.streakFreeze, 1);
+  });
+
+  it('awards again once the same streak reaches fourteen days', () => {
+    const habit = habitWithStreak('2024-01-09', 7);
+    awardStreakFreeze(habit, day('2024-01-15'));
+    completeDays(habit, daysFrom('2024-01-16', 7));
+
+    assert.equal(awardStreakFreeze(habit, day('2024-01-22')), true);
+    assert.equal(habit.streakFreeze, 2);
+    assert.equal(habit.freezeStreakLength, 14);
+  });
+
+  it('awards a new streak that reaches seven days', () => {
+    const habit = habitWithStreak('2024-01-01', 7);
+    awardStreakFreeze(habit, day('2024-01-07'));
+    // The 8th is missed
+    completeDays(habit, daysFrom('2024-01-09', 7));
+
+    assert.equal(awardStreakFreeze(habit, day('2024-01-15')), true);
+    assert.deepEqual(habit.freezeStreakStart, day('2024-01-09'));
+  });
+
+  it(`holds at most ${MAX_STREAK_FREEZES} freezes`, () => {
+    const habit = { ...habitWithStreak('2024-01-09', 7), streakFreeze: MAX_STREAK_FREEZES };
+
+    assert.equal(awardStreakFreeze(habit, day('2024-01-15')), false);
+    assert.equal(habit.streakFreeze, MAX_STREAK_FREEZES);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildOtpAuthUrl, generateTotp, generateTotpSecret, verifyTotp } from '../utils/totp.js';
+
+// The SHA-1 secret of RFC 6238's test vectors ("12345678901234567890"), base32-encoded.
+// The RFC lists 8-digit codes; 6-digit codes are their last six digits.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const at = (seconds) => seconds * 1000;
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    assert.equal(generateTotp(RFC_SECRET, at(59)), '287082');
+    assert.equal(generateTotp(RFC_SECRET, at(1111111109)), '081804');
+    assert.equal(generateTotp(RFC_SECRET, at(1111111111)), '050471');
+    assert.equal(generateTotp(RFC_SECRET, at(1234567890)), '005924');
+    assert.equal(generateTotp(RFC_SECRET, at(2000000000)), '279037');
+  });
+
+  it('reads secrets in lower case, with spaces or padding', () => {
+    assert.equal(generateTotp('gezd gnbv gy3t qojq gezd gnbv gy3t qojq', at(59)), '287082');
+    assert.equal(generateTotp(`${RFC_SECRET}====`, at(59)), '287082');
+  });
+
+  it('rejects secrets that are not base32', () => {
+    assert.throws(() => generateTotp('NOT-BASE32!', at(59)), /Invalid base32 secret/);
+  });
+});
+
+describe('verifyTotp', () => {
+  it('returns the time step a code matches', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '287082', { time: at(59) }), 1);
+    assert.equal(verifyTotp(RFC_SECRET, '287 082', { time: at(59) }), 1);
+  });
+
+  it('accepts the code of the step either side of the current one', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '287082', { time: at(89) }), 1);
+    assert.equal(verifyTotp(RFC_SECRET, '287082', { time: at(119) }), null);
+    assert.equal(verifyTotp(RFC_SECRET, '287082', { time: at(89), window: 0 }), null);
+  });
+
+  it('rejects codes that are not six digits', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '28708', { time: at(59) }), null);
+    assert.equal(verifyTotp(RFC_SECRET, 'abcdef', { time: at(59) }), null);
+    assert.equal(verifyTotp(RFC_SECRET, undefined, { time: at(59) }), null);
+  });
+
+  it('verifies codes of a generated secret', () => {
+    const secret = generateTotpSecret();
+
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.notEqual(verifyTotp(secret, generateTotp(secret)), null);
+  });
+});
+
+describe('buildOtpAuthUrl', () => {
+  it('names the issuer and account and describes the code', () => {
+    const url = new URL(buildOtpAuthUrl({ secret: RFC_SECRET, accountName: 'jo@example.com', issuer: 'Habit Tracker' }));
+
+    assert.equal(url.protocol, 'otpauth:');
+    assert.equal(url.host, 'totp');
+    assert.equal(decodeURIComponent(url.pathname), '/Habit Tracker:jo@example.com');
+    assert.deepEqual(Object.fromEntries(url.searchParams), {
+      secret: RFC_SECRET,
+      issuer: 'Habit Tracker',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
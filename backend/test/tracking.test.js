@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { defaultTrackingType, getMissingSetFields, isCardioTracking, paceOf } from '../utils/tracking.js';
+
+describe('defaultTrackingType', () => {
+  it('tracks cardio by distance and time, bodyweight exercises by reps and the rest by weight', () => {
+    assert.equal(defaultTrackingType({ muscleGroup: 'Cardio', equipment: 'Machine' }), 'distanceDuration');
+    assert.equal(defaultTrackingType({ muscleGroup: 'Back', equipment: 'Bodyweight' }), 'bodyweightReps');
+    assert.equal(defaultTrackingType({ muscleGroup: 'Chest', equipment: 'Barbell' }), 'weightReps');
+    assert.equal(defaultTrackingType(), 'weightReps');
+  });
+});
+
+describe('getMissingSetFields', () => {
+  it('lists the fields a set needs for its tracking type', () => {
+    assert.deepEqual(getMissingSetFields('distanceDuration', { reps: 5 }), ['distance', 'duration']);
+    assert.deepEqual(getMissingSetFields('distanceDuration', { distance: 5000, duration: '1500' }), []);
+    assert.deepEqual(getMissingSetFields('bodyweightReps', { reps: 10 }), []);
+    assert.deepEqual(getMissingSetFields('distanceWeight', { distance: 40, weight: 0 }), ['weight']);
+  });
+
+  it('needs reps and weight without a tracking type', () => {
+    assert.deepEqual(getMissingSetFields(undefined, { reps: 5 }), ['weight']);
+    assert.deepEqual(getMissingSetFields(null, { reps: 5, weight: 'heavy' }), ['weight']);
+  });
+});
+
+describe('isCardioTracking', () => {
+  it('is true for timed and distance-and-time exercises only', () => {
+    assert.equal(isCardioTracking('duration'), true);
+    assert.equal(isCardioTracking('distanceDuration'), true);
+    assert.equal(isCardioTracking('distanceWeight'), false);
+    assert.equal(isCardioTracking('weightReps'), false);
+  });
+});
+
+describe('paceOf', () => {
+  it('gives seconds per kilometre, or null without a distance and a duration', () => {
+    assert.equal(paceOf(5000, 1500), 300);
+    assert.equal(paceOf(1609, 480), 298);
+    assert.equal(paceOf(0, 1500), null);
+    assert.equal(paceOf(5000, null), null);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  bestOneRepMax,
+  convertWeight,
+  countedSets,
+  estimateOneRepMax,
+  loadedSets,
+  normalizeWorkout,
+  workoutVolume,
+} from '../utils/weights.js';
+
+const round = (value) => Math.round(value * 100) / 100;
+
+describe('convertWeight', () => {
+  it('converts between kg and lb, rounded to two decimals', () => {
+    assert.equal(convertWeight(100, 'kg', 'lb'), 220.46);
+    assert.equal(convertWeight(225, 'lb', 'kg'), 102.06);
+  });
+
+  it('leaves weights already in the unit as they are', () => {
+    assert.equal(convertWeight(100.125, 'kg', 'kg'), 100.125);
+  });
+});
+
+describe('normalizeWorkout', () => {
+  const workout = {
+    weightUnit: 'lb',
+    bodyweight: 180,
+    exercises: [
+      { name: 'Squat', targetWeight: 135, sets: [{ reps: 5, weight: 225 }] },
+      { name: 'Plank', targetWeight: null, sets: [{ reps: 0, weight: 0, duration: 60 }] },
+    ],
+  };
+
+  it('converts sets, targets and bodyweight into the unit', () => {
+    const normalized = normalizeWorkout(workout, 'kg');
+
+    assert.equal(normalized.weightUnit, 'kg');
+    assert.equal(normalized.bodyweight, 81.65);
+    assert.equal(normalized.exercises[0].targetWeight, 61.23);
+    assert.deepEqual(normalized.exercises[0].sets, [{ reps: 5, weight: 102.06 }]);
+    assert.equal(normalized.exercises[1].targetWeight, null);
+    assert.deepEqual(normalized.exercises[1].sets, [{ reps: 0, weight: 0, duration: 60 }]);
+    // The workout itself is left as logged
+    assert.equal(workout.exercises[0].sets[0].weight, 225);
+  });
+
+  it('treats workouts without a unit as kg', () => {
+    const normalized = normalizeWorkout({ exercises: [{ sets: [{ reps: 5, weight: 100 }] }] }, 'lb');
+
+    assert.equal(normalized.weightUnit, 'lb');
+    assert.equal(normalized.exercises[0].sets[0].weight, 220.46);
+  });
+
+  it('only sets the unit of workouts already in it', () => {
+    assert.deepEqual(normalizeWorkout(workout, 'lb'), workout);
+  });
+});
+
+describe('countedSets', () => {
+  it('leaves out warm-up sets', () => {
+    const sets = [{ setType: 'warmup' }, { setType: 'working' }, {}, { setType: 'drop' }];
+
+    assert.deepEqual(countedSets(sets), [{ setType: 'working' }, {}, { setType: 'drop' }]);
+  });
+});
+
+describe('loadedSets', () => {
+  const loads = (exercise, bodyweight) => loadedSets(exercise, bodyweight).map((set) => set.weight);
+
+  it('counts the weight of lifts, without warm-ups', () => {
+    const exercise = {
+      trackingType: 'weightReps',
+      sets: [
+        { reps: 10, weight: 60, setType: 'warmup' },
+        { reps: 5, weight: 100, rpe: 8, completed: true },
+      ],
+    };
+
+    assert.deepEqual(loadedSets(exercise, 80), [{ reps: 5, weight: 100, rpe: 8, completed: true }]);
+  });
+
+  it('adds the bodyweight to bodyweight and weighted bodyweight sets', () => {
+    assert.deepEqual(loads({ trackingType: 'bodyweightReps', sets: [{ reps: 10, weight: 0 }] }, 80), [80]);
+    assert.deepEqual(loads({ trackingType: 'weightedBodyweight', sets: [{ reps: 5, weight: 20 }] }, 80), [100]);
+    // Exercises logged before tracking types count by their equipment
+    assert.deepEqual(loads({ equipment: 'Bodyweight', sets: [{ reps: 5, weight: 10 }] }, 80), [90]);
+  });
+
+  it('takes the assistance off the bodyweight of assisted sets', () => {
+    const exercise = { trackingType: 'assistedBodyweight', sets: [{ reps: 8, weight: 30 }, { reps: 8, weight: 100 }] };
+
+    assert.deepEqual(loads(exercise, 80), [50, 0]);
+  });
+
+  it('counts only added weight without a bodyweight, and assisted sets no load', () => {
+    assert.deepEqual(loads({ trackingType: 'weightedBodyweight', sets: [{ reps: 5, weight: 20 }] }), [20]);
+    assert.deepEqual(loads({ trackingType: 'assistedBodyweight', sets: [{ reps: 8, weight: 30 }] }, null), [0]);
+  });
+});
+
+describe('workoutVolume', () => {
+  it('adds up reps times load, including the attached bodyweight', () => {
+    const workout = {
+      bodyweight: 80,
+      exercises: [
+        { trackingType: 'weightReps', sets: [{ reps: 5, weight: 100 }, { reps: 10, weight: 40, setType: 'warmup' }] },
+        { trackingType: 'bodyweightReps', sets: [{ reps: 10, weight: 0 }] },
+        { trackingType: 'duration', sets: [{ reps: 0, weight: 0, duration: 60 }] },
+      ],
+    };
+
+    assert.equal(workoutVolume(workout), 1300);
+    assert.equal(workoutVolume({ ...workout, bodyweight: null }), 500);
+  });
+});
+
+describe('estimateOneRepMax', () => {
+  it('uses Epley by default, with a single as its own max', () => {
+    assert.equal(round(estimateOneRepMax(100, 5)), 116.67);
+    assert.equal(estimateOneRepMax(100, 1), 100);
+  });
+
+  it('uses Brzycki, falling back to Epley where it is undefined', () => {
+    assert.equal(estimateOneRepMax(100, 5, 'brzycki'), 112.5);
+    assert.equal(estimateOneRepMax(100, 1, 'brzycki'), 100);
+    assert.equal(round(estimateOneRepMax(100, 37, 'brzycki')), 223.33);
+  });
+
+  it('uses Lombardi', () => {
+    assert.equal(round(estimateOneRepMax(100, 5, 'lombardi')), 117.46);
+  });
+
+  it('uses the RPE chart, counting each RPE point below 10 as a rep in reserve', () => {
+    assert.equal(round(estimateOneRepMax(100, 5, 'rpe', 10)), 115.87);
+    assert.equal(round(estimateOneRepMax(100, 5, 'rpe', 8)), 123.3);
+    // Half points fall between two columns of the chart
+    assert.equal(round(estimateOneRepMax(100, 5, 'rpe', 8.5)), 121.36);
+  });
+
+  it('treats sets without an RPE as taken to failure, and uses Epley past the chart', () => {
+    assert.equal(estimateOneRepMax(100, 5, 'rpe'), estimateOneRepMax(100, 5, 'rpe', 10));
+    assert.equal(round(estimateOneRepMax(100, 12, 'rpe', 9)), 143.33);
+  });
+
+  it('estimates nothing for sets without weight or reps', () => {
+    assert.equal(estimateOneRepMax(0, 5), 0);
+    assert.equal(estimateOneRepMax(100, 0, 'brzycki'), 0);
+  });
+});
+
+describe('bestOneRepMax', () => {
+  it('estimates each set on its own and keeps the best', () => {
+    const sets = [
+      { weight: 100, reps: 5, rpe: 8 },
+      { weight: 110, reps: 3, rpe: 10 },
+      { weight: 60, reps: 0 },
+    ];
+
+    assert.equal(round(bestOneRepMax(sets)), 121);
+    assert.equal(round(bestOneRepMax(sets, 'rpe')), 123.3);
+    assert.equal(bestOneRepMax([]), 0);
+  });
+});
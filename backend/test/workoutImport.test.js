@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSource, normaliseRow } from '../services/workoutImport.js';
+
+describe('detectSource', () => {
+  it('recognises Strong, Hevy and FitNotes exports by their headers', () => {
+    assert.equal(detectSource(['title', 'start_time', 'exercise_title', 'weight_kg', 'reps']), 'hevy');
+    assert.equal(detectSource(['Date', 'Workout Name', 'Exercise Name', 'Set Order', 'Weight', 'Reps']), 'strong');
+    assert.equal(detectSource(['Date', 'Exercise', 'Category', 'Weight (kgs)', 'Reps']), 'fitnotes');
+    assert.equal(detectSource(['date', 'lift', 'kg']), null);
+  });
+});
+
+describe('normaliseRow', () => {
+  it('reads a Hevy set', () => {
+    const set = normaliseRow(
+      'hevy',
+      {
+        title: 'Push',
+        start_time: '2024-01-15 08:30:00',
+        end_time: '2024-01-15 09:45:00',
+        description: 'Felt strong',
+        exercise_title: 'Bench Press (Barbell)',
+        set_type: 'warmup',
+        weight_kg: '60',
+        reps: '10',
+        distance_km: '',
+        duration_seconds: '',
+        rpe: '',
+      },
+      'lb'
+    );
+
+    assert.deepEqual(set, {
+      groupKey: 'Push|2024-01-15 08:30:00',
+      title: 'Push',
+      start: { dateKey: '2024-01-15', hour: 8, minute: 30 },
+      end: { dateKey: '2024-01-15', hour: 9, minute: 45 },
+      durationSeconds: null,
+      notes: 'Felt strong',
+      exercise: 'Bench Press (Barbell)',
+      reps: 10,
+      // The column names the unit, whatever the fallback
+      weight: 60,
+      unit: 'kg',
+      distance: null,
+      duration: null,
+      rpe: null,
+      setType: 'warmup',
+    });
+  });
+
+  it('reads a Strong set with its duration, set type letter and unit column', () => {
+    const set = normaliseRow(
+      'strong',
+      {
+        Date: '15 Jan 2024, 18:05',
+        'Workout Name': 'Legs',
+        Duration: '1h 5m',
+        'Exercise Name': 'Squat (Barbell)',
+        'Set Order': 'D',
+        Weight: '225',
+        'Weight Unit': 'lbs',
+        Reps: '5',
+        RPE: '8.5',
+        Distance: '',
+        Seconds: '0',
+      },
+      'kg'
+    );
+
+    assert.deepEqual(set.start, { dateKey: '2024-01-15', hour: 18, minute: 5 });
+    assert.equal(set.durationSeconds, 3900);
+    assert.equal(set.setType, 'drop');
+    assert.equal(set.weight, 225);
+    assert.equal(set.unit, 'lb');
+    assert.equal(set.rpe, 8.5);
+  });
+
+  it('uses the fallback unit and reads decimal commas when the file has no unit', () => {
+    const set = normaliseRow(
+      'strong',
+      { Date: '2024-01-15 18:05:00', 'Exercise Name': 'Curl', 'Set Order': '1', Weight: '12,5', Reps: '12' },
+      'lb'
+    );
+
+    assert.equal(set.weight, 12.5);
+    assert.equal(set.unit, 'lb');
+    assert.equal(set.setType, 'working');
+  });
+
+  it('reads a FitNotes cardio set in metres and seconds, at noon of its day', () => {
+    const set = normaliseRow(
+      'fitnotes',
+      {
+        Date: '2024-01-15',
+        Exercise: 'Running',
+        Category: 'Cardio',
+        'Weight (kgs)': '',
+        Reps: '',
+        Distance: '5',
+        'Distance Unit': 'km',
+        Time: '0:25:00',
+      },
+      'kg'
+    );
+
+    assert.equal(set.groupKey, '2024-01-15');
+    assert.deepEqual(set.start, { dateKey: '2024-01-15', hour: 12, minute: 0 });
+    assert.equal(set.reps, null);
+    assert.equal(set.distance, 5000);
+    assert.equal(set.duration, 1500);
+  });
+
+  it('leaves the start empty for a date it cannot read', () => {
+    assert.equal(normaliseRow('fitnotes', { Date: '15/01/2024', Exercise: 'Squat' }, 'kg').start, null);
+  });
+});
@@ -0,0 +1,62 @@
+// Minimal RFC 4180 CSV reader and writer
+
+const escapeField = (value) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Build a CSV document from a header row and rows of values in the same order
+export const toCsv = (headers, rows) =>
+  [headers, ...rows].map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+
+// Parse a CSV document into objects keyed by the header row. The delimiter (comma or
+// semicolon) is detected from the header; quoted fields may contain delimiters and newlines.
+export const parseCsv = (text) => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g) ?? []).length > (firstLine.match(/,/g) ?? []).length ? ';' : ',';
+
+  const records = [];
+  let record = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records.filter((row) => row.some((value) => value.trim() !== ''));
+  const keys = headers.map((header) => header.trim());
+  return {
+    headers: keys,
+    rows: rows.map((row) => Object.fromEntries(keys.map((key, i) => [key, (row[i] ?? '').trim()]))),
+  };
+};
@@ -0,0 +1,84 @@
+// Calendar dates are stored and compared as UTC midnight ("2024-01-15T00:00:00.000Z"), so a
+// day means the same thing whatever timezone the server or browser runs in. The user's
+// timezone only decides which calendar date an instant (like "now") falls on.
+//
+// Mirrored in frontend/lib/dates.ts - keep the two in sync.
+
+// Calendar date of a "YYYY-MM-DD" key, or the UTC date of an instant
+export const startOfDay = (date) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+export const addDays = (date, days) => {
+  const day = new Date(date);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day;
+};
+
+export const toDateKey = (date) => new Date(date).toISOString().slice(0, 10);
+
+// Monday of the calendar date's week
+export const startOfWeek = (date) => {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getUTCDay() + 6) % 7));
+};
+
+export const isValidTimeZone = (timeZone) => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimeZone = (user) => (isValidTimeZone(user?.timezone) ? user.timezone : 'UTC');
+
+// Wall-clock date and time of an instant in a timezone
+export const getZonedParts = (date, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+    .formatToParts(new Date(date))
+    .reduce((acc, part) => ({ ...acc, [part.type]: part.value }), {});
+
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+};
+
+// Instant at which a wall-clock date and time occurs in a timezone, e.g. a time read from a
+// file that has no offset. Corrects for the offset at the guessed instant, then once more in
+// case that guess sat on the other side of a DST change.
+export const fromZonedTime = (dateKey, hour, minute, timeZone) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant) => {
+    const parts = getZonedParts(instant, timeZone);
+    return startOfDay(parts.dateKey).getTime() + (parts.hour * 60 + parts.minute) * 60000 - instant;
+  };
+
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+  return new Date(instant);
+};
+
+// Calendar date an instant falls on in a timezone, e.g. when a workout happened
+export const toLocalDay = (date, timeZone) => startOfDay(getZonedParts(date, timeZone).dateKey);
+
+// The user's current calendar date
+export const getUserToday = (timeZone, now = new Date()) => toLocalDay(now, timeZone);
+
+// Calendar date of a YYYY-MM-DD request parameter, defaulting to the user's today
+export const parseDay = (value, timeZone) => (value ? startOfDay(value) : getUserToday(timeZone));
@@ -0,0 +1,36 @@
+// Supersets, circuits and giant sets: exercises of a workout sharing a `groupId`, done back
+// to back (see backend/models/Workout.js)
+
+// A superset, circuit or giant set left with a single exercise is dissolved
+export const dissolveSingleGroups = (workout) => {
+  const groupSizes = {};
+  workout.exercises.forEach(({ groupId }) => {
+    if (groupId) groupSizes[groupId] = (groupSizes[groupId] ?? 0) + 1;
+  });
+  workout.exercises.forEach((exercise) => {
+    if (exercise.groupId && groupSizes[exercise.groupId] < 2) {
+      exercise.groupId = null;
+      exercise.groupType = null;
+    }
+  });
+};
+
+// The exercises with each group's members moved up behind its first exercise, the way
+// clients show them
+export const gatherGroups = (exercises) =>
+  exercises.flatMap((exercise) => {
+    if (!exercise.groupId) return [exercise];
+    const members = exercises.filter((other) => other.groupId === exercise.groupId);
+    return members[0] === exercise ? members : [];
+  });
+
+// Whether the exercises of each superset, circuit or giant set are next to each other
+export const keepsGroupsTogether = (exercises) => {
+  const seen = new Set();
+  return exercises.every(({ groupId }, index) => {
+    if (!groupId || groupId === exercises[index - 1]?.groupId) return true;
+    if (seen.has(groupId)) return false;
+    seen.add(groupId);
+    return true;
+  });
+};
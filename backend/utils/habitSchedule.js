@@ -0,0 +1,167 @@
+// Habit schedule engine: decides which days a habit is due and derives streaks,
+// completion rates and missed counts from that schedule.
+//
+// - daily: due every day
+// - weekly: due on `weeklyDays` (0 = Sunday ... 6 = Saturday); no days means every day
+// - custom: `customFrequency` times per week, on any days (weeks start on Monday)
+//
+// Day-based habits are evaluated per due day; weekly goals per week. The current
+// day/week is still in progress, so it only counts once it has been met. A period
+// containing a frozen day (see `frozenDays`) is preserved: it neither breaks nor
+// extends a streak and is left out of rates and missed counts.
+//
+// All dates are calendar dates (see utils/dates.js); `to` should be the user's today.
+//
+// Mirrored in frontend/lib/habitSchedule.ts - keep the two in sync.
+
+import { addDays, startOfDay, startOfWeek, toDateKey } from './dates.js';
+
+// Completions per week for an N-times-per-week habit, or null for day-based habits
+export const getWeeklyTarget = (habit) =>
+  habit.frequency === 'custom' && habit.customFrequency ? Math.min(habit.customFrequency, 7) : null;
+
+export const getCompletedDateKeys = (habit) =>
+  new Set(habit.completions.filter((c) => c.completed).map((c) => toDateKey(c.date)));
+
+export const getFrozenDateKeys = (habit) => new Set((habit.frozenDays ?? []).map(toDateKey));
+
+// First day the schedule applies: the start date, or an earlier backfilled completion
+export const getScheduleStart = (habit) => {
+  const start = startOfDay(habit.startDate ?? habit.createdAt ?? new Date());
+  return habit.completions.reduce((earliest, c) => {
+    const day = startOfDay(c.date);
+    return c.completed && day < earliest ? day : earliest;
+  }, start);
+};
+
+// Whether a day-based habit is scheduled on this weekday (weekly goals: any day)
+export const isScheduledOn = (habit, date) => {
+  if (getWeeklyTarget(habit)) return true;
+  if (habit.frequency === 'weekly' && habit.weeklyDays?.length > 0) {
+    return habit.weeklyDays.includes(new Date(date).getUTCDay());
+  }
+  return true;
+};
+
+// Split [from, to] into periods: due days, or weeks for weekly goals.
+// A week cut by the range is prorated so its target never exceeds its days.
+const buildPeriods = (habit, from, to, completedKeys, frozenKeys) => {
+  const weeklyTarget = getWeeklyTarget(habit);
+  const periods = [];
+
+  if (weeklyTarget) {
+    for (let weekStart = startOfWeek(from); weekStart <= to; weekStart = addDays(weekStart, 7)) {
+      const weekEnd = addDays(weekStart, 6);
+      let days = 0;
+      let count = 0;
+      let frozen = false;
+      for (let day = weekStart; day <= weekEnd; day = addDays(day, 1)) {
+        if (day < from) continue;
+        days++;
+        if (day <= to && completedKeys.has(toDateKey(day))) count++;
+        if (frozenKeys.has(toDateKey(day))) frozen = true;
+      }
+      periods.push({
+        start: weekStart,
+        target: Math.min(weeklyTarget, days),
+        count,
+        inProgress: weekEnd >= to,
+        frozen,
+      });
+    }
+  } else {
+    for (let day = new Date(from); day <= to; day = addDays(day, 1)) {
+      if (!isScheduledOn(habit, day)) continue;
+      periods.push({
+        start: day,
+        target: 1,
+        count: completedKeys.has(toDateKey(day)) ? 1 : 0,
+        inProgress: day.getTime() === to.getTime(),
+        frozen: frozenKeys.has(toDateKey(day)),
+      });
+    }
+  }
+
+  return periods;
+};
+
+const isMet = (period) => period.count >= period.target;
+
+// Whether the habit is due on a date, and whether it was completed that day.
+// A weekly goal is due on a day unless the week's target was already reached before it.
+export const getDayStatus = (habit, date, completedKeys = getCompletedDateKeys(habit)) => {
+  const day = startOfDay(date);
+  const completed = completedKeys.has(toDateKey(day));
+  const frozen = getFrozenDateKeys(habit).has(toDateKey(day));
+
+  if (day < getScheduleStart(habit)) {
+    return { due: false, completed, frozen };
+  }
+
+  const weeklyTarget = getWeeklyTarget(habit);
+  if (weeklyTarget) {
+    let countBefore = 0;
+    for (let d = startOfWeek(day); d < day; d = addDays(d, 1)) {
+      if (completedKeys.has(toDateKey(d))) countBefore++;
+    }
+    return { due: completed || countBefore < weeklyTarget, completed, frozen };
+  }
+
+  return { due: isScheduledOn(habit, day), completed, frozen };
+};
+
+// Streaks, completion rate and missed count as of `to`. Rates and counts use the
+// range from `from` (default: the schedule start); streaks always use full history.
+export const getHabitStats = (habit, { from, to = new Date() } = {}) => {
+  const end = startOfDay(to);
+  const scheduleStart = getScheduleStart(habit);
+  const rangeStart = from && startOfDay(from) > scheduleStart ? startOfDay(from) : scheduleStart;
+  const completedKeys = getCompletedDateKeys(habit);
+  const frozenKeys = getFrozenDateKeys(habit);
+
+  const history = buildPeriods(habit, scheduleStart, end, completedKeys, frozenKeys);
+  const periods =
+    rangeStart > scheduleStart ? buildPeriods(habit, rangeStart, end, completedKeys, frozenKeys) : history;
+
+  // Periods still in progress only count once they are met; frozen ones not at all
+  const counted = periods.filter((p) => isMet(p) || (!p.inProgress && !p.frozen));
+  const dueCount = counted.reduce((sum, p) => sum + p.target, 0);
+  const completedCount = counted.reduce((sum, p) => sum + Math.min(p.count, p.target), 0);
+
+  let currentStreak = 0;
+  let currentStreakStart = null;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (isMet(history[i])) {
+      currentStreak++;
+      currentStreakStart = history[i].start;
+    } else if (!history[i].inProgress && !history[i].frozen) {
+      break;
+    }
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  for (const period of history) {
+    if (isMet(period)) {
+      run++;
+      longestStreak = Math.max(longestStreak, run);
+    } else if (!period.inProgress && !period.frozen) {
+      run = 0;
+    }
+  }
+
+  return {
+    currentStreak,
+    // First day (or week) of the current streak; null without one
+    currentStreakStart,
+    longestStreak,
+    streakUnit: getWeeklyTarget(habit) ? 'weeks' : 'days',
+    completionRate: dueCount > 0 ? Math.round((completedCount / dueCount) * 10000) / 100 : 0,
+    dueCount,
+    completedCount,
+    missedCount: dueCount - completedCount,
+  };
+};
+
+// A streak expressed in days, so weekly-goal streaks compare with daily ones
+export const streakInDays = (streak, streakUnit) => (streakUnit === 'weeks' ? streak * 7 : streak);
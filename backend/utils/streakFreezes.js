@@ -0,0 +1,28 @@
+// Streak freezes: earned as a habit's streak grows, spent on missed days (see frozenDays in
+// utils/habitSchedule.js)
+
+import { toDateKey } from './dates.js';
+import { getHabitStats } from './habitSchedule.js';
+
+// One freeze is earned per 7 consecutive met periods (days, or weeks for weekly goals)
+export const FREEZE_EARN_INTERVAL = 7;
+export const MAX_STREAK_FREEZES = 3;
+
+// Award a freeze when a completion brings the streak to a multiple of the interval. Awards
+// are keyed on the streak and its length, so un-completing and re-completing any of its days
+// can't earn the same freeze twice; a streak only earns again once it grows past that length.
+export const awardStreakFreeze = (habit, completionDate) => {
+  if (habit.streakFreeze >= MAX_STREAK_FREEZES) return false;
+
+  const { currentStreak, currentStreakStart } = getHabitStats(habit, { to: completionDate });
+  if (currentStreak === 0 || currentStreak % FREEZE_EARN_INTERVAL !== 0) return false;
+
+  const sameStreak =
+    habit.freezeStreakStart && toDateKey(habit.freezeStreakStart) === toDateKey(currentStreakStart);
+  if (sameStreak && currentStreak <= habit.freezeStreakLength) return false;
+
+  habit.streakFreeze += 1;
+  habit.freezeStreakStart = currentStreakStart;
+  habit.freezeStreakLength = currentStreak;
+  return true;
+};
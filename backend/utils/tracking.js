@@ -0,0 +1,39 @@
+// How an exercise's sets are measured. Weights are in the workout's unit, durations in
+// seconds and distances in metres.
+//
+// weightReps: barbell, dumbbell and machine lifts
+// bodyweightReps: push-ups, pull-ups; no weight
+// weightedBodyweight: bodyweight plus `weight` of added load (dip belt, vest)
+// assistedBodyweight: bodyweight minus `weight` of assistance (band, assisted machine)
+// duration: planks, hangs
+// distanceDuration: running, rowing, cycling
+// distanceWeight: farmer's carries, sled pushes
+
+// Set fields each tracking type needs
+const REQUIRED_FIELDS = {
+  weightReps: ['reps', 'weight'],
+  bodyweightReps: ['reps'],
+  weightedBodyweight: ['reps'],
+  assistedBodyweight: ['reps'],
+  duration: ['duration'],
+  distanceDuration: ['distance', 'duration'],
+  distanceWeight: ['distance', 'weight'],
+};
+
+export const TRACKING_TYPES = Object.keys(REQUIRED_FIELDS);
+
+// Tracking type of an exercise without one, from its library muscle group and equipment
+export const defaultTrackingType = ({ muscleGroup, equipment } = {}) => {
+  if (muscleGroup === 'Cardio') return 'distanceDuration';
+  if (equipment === 'Bodyweight') return 'bodyweightReps';
+  return 'weightReps';
+};
+
+// Fields a set is missing for its exercise's tracking type, e.g. ['distance']
+export const getMissingSetFields = (trackingType, set) =>
+  REQUIRED_FIELDS[trackingType ?? 'weightReps'].filter((field) => !(Number(set[field]) > 0));
+
+export const isCardioTracking = (trackingType) => ['duration', 'distanceDuration'].includes(trackingType);
+
+// Seconds per kilometre, or null without both a distance and a duration
+export const paceOf = (distance, duration) => (distance > 0 && duration > 0 ? Math.round((duration / distance) * 1000) : null);
@@ -0,0 +1,111 @@
+// Weight units and strength estimates shared by workouts, imports, records and exercise history
+
+const KG_PER_LB = 0.45359237;
+
+// Convert between kg and lb, rounded to 2 decimals
+export const convertWeight = (value, from, to) => {
+  if (from === to) return value;
+  const converted = from === 'kg' ? value / KG_PER_LB : value * KG_PER_LB;
+  return Math.round(converted * 100) / 100;
+};
+
+// A copy of a workout with every set's weight in `unit`, so analytics can add up workouts
+// logged in kg and lb. Targets and bodyweight are converted too; the workout's weightUnit
+// becomes `unit`.
+export const normalizeWorkout = (workout, unit) => {
+  const from = workout.weightUnit ?? 'kg';
+  if (from === unit) return { ...workout, weightUnit: unit };
+
+  return {
+    ...workout,
+    weightUnit: unit,
+    bodyweight: workout.bodyweight == null ? workout.bodyweight : convertWeight(workout.bodyweight, from, unit),
+    exercises: workout.exercises.map((exercise) => ({
+      ...exercise,
+      targetWeight: exercise.targetWeight == null ? exercise.targetWeight : convertWeight(exercise.targetWeight, from, unit),
+      sets: exercise.sets.map((set) => ({ ...set, weight: convertWeight(set.weight, from, unit) })),
+    })),
+  };
+};
+
+// Sets that count towards volume, 1RM estimates and records: all but warm-ups
+export const countedSets = (sets) => sets.filter((set) => set.setType !== 'warmup');
+
+// Whether an exercise's logged weight is added to the lifter's bodyweight (1), taken off it
+// (-1, the assistance of assisted pull-ups) or is the whole load (0). Exercises with
+// Bodyweight equipment logged before tracking types count as bodyweight plus added weight.
+const BODYWEIGHT_LOADS = { bodyweightReps: 1, weightedBodyweight: 1, assistedBodyweight: -1 };
+export const BODYWEIGHT_TRACKING_TYPES = Object.keys(BODYWEIGHT_LOADS);
+const bodyweightLoad = ({ trackingType, equipment }) =>
+  BODYWEIGHT_LOADS[trackingType] ?? (equipment === 'Bodyweight' ? 1 : 0);
+
+// The sets of an exercise that count towards volume, 1RM estimates and records, with the
+// load each lifted. `bodyweight` (in the same unit, see attachBodyweights) is the load of
+// bodyweight exercises; without it they count only added weight, and assisted sets none.
+// Sets timed or measured by distance have no reps and add nothing.
+export const loadedSets = (exercise, bodyweight = null) => {
+  const load = bodyweightLoad(exercise);
+  const liftedWeight = (weight) => {
+    if (load === 0) return weight;
+    if (load === 1) return (bodyweight ?? 0) + weight;
+    return bodyweight ? Math.max(0, bodyweight - weight) : 0;
+  };
+
+  return countedSets(exercise.sets).map((set) => ({
+    reps: set.reps ?? 0,
+    weight: liftedWeight(set.weight ?? 0),
+    rpe: set.rpe,
+    completed: set.completed,
+  }));
+};
+
+// Total reps × weight of a workout's sets, in the workout's unit, including the bodyweight
+// lifted when the workout has one attached
+export const workoutVolume = (workout) =>
+  workout.exercises.reduce(
+    (total, exercise) =>
+      total + loadedSets(exercise, workout.bodyweight).reduce((sum, set) => sum + set.reps * set.weight, 0),
+    0
+  );
+
+export const ONE_REP_MAX_FORMULAS = ['epley', 'brzycki', 'lombardi', 'rpe'];
+
+// Share of the one-rep max that can be lifted for 1-12 reps to failure (RPE 10), from
+// Tuchscherer's RPE chart. Each RPE point below 10 counts as one more rep in reserve.
+const RPE_PERCENTAGES = [100, 95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68];
+
+const epley = (weight, reps) => weight * (1 + reps / 30);
+
+// Percentage for a fractional number of reps to failure (half RPEs), or null past the chart
+const rpePercentage = (repsToFailure) => {
+  const index = repsToFailure - 1;
+  if (index > RPE_PERCENTAGES.length - 1) return null;
+  const lower = Math.floor(index);
+  if (lower === index) return RPE_PERCENTAGES[index];
+  return RPE_PERCENTAGES[lower] + (RPE_PERCENTAGES[lower + 1] - RPE_PERCENTAGES[lower]) * (index - lower);
+};
+
+// Estimated one-rep max of a set with one of ONE_REP_MAX_FORMULAS; a single is its own max.
+// The RPE formula treats sets without an RPE as taken to failure.
+export const estimateOneRepMax = (weight, reps, formula = 'epley', rpe = null) => {
+  if (!weight || !reps) return 0;
+
+  switch (formula) {
+    case 'brzycki':
+      // Undefined from 37 reps on, where Epley takes over
+      return reps === 1 ? weight : reps < 37 ? (weight * 36) / (37 - reps) : epley(weight, reps);
+    case 'lombardi':
+      return weight * reps ** 0.1;
+    case 'rpe': {
+      const repsToFailure = reps + 10 - (rpe ?? 10);
+      const percentage = rpePercentage(repsToFailure);
+      return percentage ? (weight * 100) / percentage : epley(weight, repsToFailure);
+    }
+    default:
+      return reps === 1 ? weight : epley(weight, reps);
+  }
+};
+
+// Best estimated one-rep max over a list of sets, each estimated on its own
+export const bestOneRepMax = (sets, formula = 'epley') =>
+  sets.reduce((best, set) => Math.max(best, estimateOneRepMax(set.weight, set.reps, formula, set.rpe)), 0);
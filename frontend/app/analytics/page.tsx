@@ -2,12 +2,17 @@
 
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { habitAPI, workoutAPI, userAPI } from '@/lib/api';
+import { habitAPI, workoutAPI, userAPI, measurementAPI } from '@/lib/api';
+import { addDays, getUserToday, toDateKey, toLocalDate, toLocalDay } from '@/lib/dates';
+import { getWeightTrend, Measurement } from '@/lib/bodyweightTrend';
+import { getDayStatus, getHabitStats } from '@/lib/habitSchedule';
+import { formatDistance, formatDuration, formatPace } from '@/lib/tracking';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import AppLayout from '@/components/AppLayout';
 import { motion } from 'framer-motion';
-import { TrendingUp, Calendar, Target, Flame, Award, Activity } from 'lucide-react';
+import { TrendingUp, Calendar, Target, Flame, Award, Activity, Scale, Footprints } from 'lucide-react';
 import {
+  ComposedChart,
   LineChart,
   Line,
   BarChart,
@@ -23,11 +28,29 @@ import {
   Cell,
 } from 'recharts';
 
+const VOLUME_DAYS = 90;
+
+// Distance in metres, durations in seconds and paces in seconds per km
+interface CardioTotals {
+  distance: number;
+  duration: number;
+  sessions: number;
+  averagePace: number | null;
+}
+
+interface CardioSummary extends CardioTotals {
+  exercises: Array<CardioTotals & { name: string; bestPace: number | null }>;
+}
+
 export default function AnalyticsPage() {
   const { user } = useAuth();
   const [habits, setHabits] = useState<any[]>([]);
   const [workouts, setWorkouts] = useState<any[]>([]);
   const [stats, setStats] = useState<any>(null);
+  const [volumeTrend, setVolumeTrend] = useState<Array<{ date: string; volume: number }>>([]);
+  const [cardio, setCardio] = useState<CardioSummary | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [showBodyweight, setShowBodyweight] = useState(true);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -36,14 +59,19 @@ export default function AnalyticsPage() {
 
   const fetchData = async () => {
     try {
-      const [habitsRes, workoutsRes, statsRes] = await Promise.all([
+      const [habitsRes, workoutsRes, statsRes, analyticsRes, measurementsRes] = await Promise.all([
         habitAPI.getAll(),
         workoutAPI.getAll(),
         userAPI.getStats(),
+        workoutAPI.getAnalytics({ days: VOLUME_DAYS }),
+        measurementAPI.getAll(),
       ]);
       setHabits(habitsRes.data.habits);
       setWorkouts(workoutsRes.data.workouts);
       setStats(statsRes.data);
+      setVolumeTrend(analyticsRes.data.volumeTrend);
+      setCardio(analyticsRes.data.cardio);
+      setMeasurements(measurementsRes.data.measurements);
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -51,47 +79,34 @@ export default function AnalyticsPage() {
     }
   };
 
+  // Calendar days in the user's timezone
+  const timeZone = user?.timezone;
+  const today = getUserToday(timeZone);
+
   // Prepare habit completion data
   const getHabitCompletionData = () => {
-    const last30Days = Array.from({ length: 30 }, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - (29 - i));
-      date.setHours(0, 0, 0, 0);
-      return date;
-    });
+    const last30Days = Array.from({ length: 30 }, (_, i) => addDays(today, i - 29));
 
     return last30Days.map((date) => {
-      const completed = habits.filter((habit) =>
-        habit.completions.some(
-          (c: any) =>
-            c.completed &&
-            new Date(c.date).setHours(0, 0, 0, 0) === date.getTime()
-        )
-      ).length;
+      const statuses = habits.map((habit) => getDayStatus(habit, date));
       return {
-        date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        completed,
-        total: habits.length,
+        date: toLocalDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        completed: statuses.filter((status) => status.due && status.completed).length,
+        total: statuses.filter((status) => status.due && (status.completed || !status.frozen)).length,
       };
     });
   };
 
   // Prepare workout frequency data
   const getWorkoutFrequencyData = () => {
-    const last12Weeks = Array.from({ length: 12 }, (_, i) => {
-      const weekStart = new Date();
-      weekStart.setDate(weekStart.getDate() - (11 - i) * 7);
-      weekStart.setHours(0, 0, 0, 0);
-      return weekStart;
-    });
+    const last12Weeks = Array.from({ length: 12 }, (_, i) => addDays(today, -(11 - i) * 7));
 
     return last12Weeks.map((weekStart) => {
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
-      const workoutsInWeek = workouts.filter(
-        (w) =>
-          new Date(w.date) >= weekStart && new Date(w.date) <= weekEnd
-      ).length;
+      const weekEnd = addDays(weekStart, 6);
+      const workoutsInWeek = workouts.filter((w) => {
+        const day = toLocalDay(w.date, timeZone);
+        return day >= weekStart && day <= weekEnd;
+      }).length;
       return {
         week: `Week ${12 - last12Weeks.indexOf(weekStart)}`,
         workouts: workoutsInWeek,
@@ -99,19 +114,35 @@ export default function AnalyticsPage() {
     });
   };
 
+  // Daily training volume, with the smoothed bodyweight as of each day alongside it,
+  // both in the user's preferred unit
+  const weightUnit = user?.weightUnit ?? 'kg';
+  const getVolumeVsBodyweightData = () => {
+    const volumeByDay = new Map<string, number>();
+    volumeTrend.forEach((item) => {
+      const key = toDateKey(toLocalDay(item.date, timeZone));
+      volumeByDay.set(key, (volumeByDay.get(key) ?? 0) + item.volume);
+    });
+
+    const trend = getWeightTrend(measurements, weightUnit);
+    let trendIndex = -1;
+
+    return Array.from({ length: VOLUME_DAYS }, (_, i) => addDays(today, i - (VOLUME_DAYS - 1))).map((date) => {
+      const key = toDateKey(date);
+      while (trendIndex + 1 < trend.length && trend[trendIndex + 1].date <= key) trendIndex++;
+      return {
+        date: toLocalDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        volume: volumeByDay.get(key) ?? 0,
+        bodyweight: trendIndex >= 0 ? Math.round(trend[trendIndex].trend * 10) / 10 : null,
+      };
+    });
+  };
+
   // Calculate habit completion rates
-  const habitCompletionRates = habits.map((habit) => {
-    const completedCount = habit.completions.filter((c: any) => c.completed).length;
-    const totalDays = Math.ceil(
-      (new Date().getTime() - new Date(habit.createdAt).getTime()) /
-        (1000 * 60 * 60 * 24)
-    );
-    const rate = totalDays > 0 ? (completedCount / totalDays) * 100 : 0;
-    return {
-      name: habit.name,
-      rate: Math.round(rate * 100) / 100,
-    };
-  });
+  const habitCompletionRates = habits.map((habit) => ({
+    name: habit.name,
+    rate: getHabitStats(habit, { to: today }).completionRate,
+  }));
 
   if (loading) {
     return (
@@ -241,7 +272,7 @@ export default function AnalyticsPage() {
                     dataKey="total"
                     stroke="#94a3b8"
                     strokeWidth={2}
-                    name="Total Habits"
+                    name="Habits Due"
                     strokeDasharray="5 5"
                   />
                 </LineChart>
@@ -268,6 +299,99 @@ export default function AnalyticsPage() {
             </div>
           )}
 
+          {/* Volume vs Bodyweight */}
+          {volumeTrend.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="text-2xl font-bold text-gray-900">Training Volume (Last {VOLUME_DAYS} Days)</h2>
+                {measurements.some((m) => m.weight !== null) && (
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={showBodyweight}
+                      onChange={(e) => setShowBodyweight(e.target.checked)}
+                      className="w-4 h-4 text-primary-600 rounded"
+                    />
+                    <Scale className="w-4 h-4" />
+                    Overlay bodyweight
+                  </label>
+                )}
+              </div>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={getVolumeVsBodyweightData()}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis yAxisId="volume" />
+                  {showBodyweight && <YAxis yAxisId="bodyweight" orientation="right" domain={['auto', 'auto']} />}
+                  <Tooltip />
+                  <Legend />
+                  <Bar yAxisId="volume" dataKey="volume" fill="#0ea5e9" name={`Volume (${weightUnit})`} />
+                  {showBodyweight && (
+                    <Line
+                      yAxisId="bodyweight"
+                      type="monotone"
+                      dataKey="bodyweight"
+                      stroke="#f59e0b"
+                      strokeWidth={3}
+                      dot={false}
+                      connectNulls
+                      name={`Bodyweight Trend (${weightUnit})`}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Cardio */}
+          {cardio && cardio.sessions > 0 && (
+            <div className="bg-white rounded-xl shadow-md p-6 mb-8">
+              <div className="flex items-center gap-3 mb-4">
+                <Footprints className="w-6 h-6 text-green-600" />
+                <h2 className="text-2xl font-bold text-gray-900">Cardio (Last {VOLUME_DAYS} Days)</h2>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {[
+                  { label: 'Sessions', value: cardio.sessions },
+                  { label: 'Distance', value: formatDistance(cardio.distance) },
+                  { label: 'Time', value: formatDuration(cardio.duration) },
+                  { label: 'Average Pace', value: formatPace(cardio.averagePace) },
+                ].map((stat) => (
+                  <div key={stat.label} className="bg-green-50 rounded-lg p-4">
+                    <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+                    <p className="text-2xl font-bold text-green-600">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Exercise</th>
+                      <th className="py-2 pr-4 font-medium">Sessions</th>
+                      <th className="py-2 pr-4 font-medium">Distance</th>
+                      <th className="py-2 pr-4 font-medium">Time</th>
+                      <th className="py-2 pr-4 font-medium">Average Pace</th>
+                      <th className="py-2 font-medium">Best Pace</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cardio.exercises.map((exercise) => (
+                      <tr key={exercise.name} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-4 font-semibold text-gray-900">{exercise.name}</td>
+                        <td className="py-2 pr-4 text-gray-700">{exercise.sessions}</td>
+                        <td className="py-2 pr-4 text-gray-700">{exercise.distance > 0 ? formatDistance(exercise.distance) : '—'}</td>
+                        <td className="py-2 pr-4 text-gray-700">{formatDuration(exercise.duration)}</td>
+                        <td className="py-2 pr-4 text-gray-700">{formatPace(exercise.averagePace)}</td>
+                        <td className="py-2 text-gray-700">{formatPace(exercise.bestPace)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* Habit Completion Rates */}
           {habitCompletionRates.length > 0 && (
             <div className="bg-white rounded-xl shadow-md p-6">
@@ -2,10 +2,13 @@
 
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { userAPI, habitAPI, workoutAPI } from '@/lib/api';
+import { userAPI, habitAPI, workoutAPI, programAPI } from '@/lib/api';
+import { getDayStatus, getHabitStats } from '@/lib/habitSchedule';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import AppLayout from '@/components/AppLayout';
+import Toast from '@/components/Toast';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { useTheme } from 'next-themes';
 import {
   LineChart,
@@ -22,7 +25,8 @@ import {
   Pie,
   Cell,
 } from 'recharts';
-import { format, startOfWeek, endOfWeek, subDays, isSameDay } from 'date-fns';
+import { format } from 'date-fns';
+import { addDays, getUserToday, startOfDay, startOfWeek, toDateKey, toLocalDate, toLocalDay } from '@/lib/dates';
 import { motion } from 'framer-motion';
 
 interface Stats {
@@ -47,9 +51,13 @@ const COLORS = ['#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'
 export default function DashboardPage() {
   const { user } = useAuth();
   const { theme } = useTheme();
+  const router = useRouter();
   const [stats, setStats] = useState<Stats | null>(null);
   const [habits, setHabits] = useState<any[]>([]);
   const [workouts, setWorkouts] = useState<any[]>([]);
+  const [todaySession, setTodaySession] = useState<{ workout: any; program: any } | null>(null);
+  const [startingSession, setStartingSession] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   const [loading, setLoading] = useState(true);
   const [quote] = useState(
     motivationalQuotes[Math.floor(Math.random() * motivationalQuotes.length)]
@@ -68,14 +76,16 @@ export default function DashboardPage() {
 
   const fetchData = async () => {
     try {
-      const [statsRes, habitsRes, workoutsRes] = await Promise.all([
+      const [statsRes, habitsRes, workoutsRes, todayRes] = await Promise.all([
         userAPI.getStats(),
         habitAPI.getAll(),
         workoutAPI.getAll(),
+        programAPI.getToday(),
       ]);
       setStats(statsRes.data);
       setHabits(habitsRes.data.habits);
       setWorkouts(workoutsRes.data.workouts);
+      setTodaySession(todayRes.data.workout ? todayRes.data : null);
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -83,59 +93,60 @@ export default function DashboardPage() {
     }
   };
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const handleStartTodaySession = async () => {
+    if (!todaySession) return;
+    try {
+      setStartingSession(true);
+      await workoutAPI.activate(todaySession.workout._id);
+      // The workouts page picks up the active workout and opens the logger
+      router.push('/workouts');
+    } catch (error: any) {
+      setToast({ message: error.response?.data?.message ?? 'Error starting session', type: 'error' });
+      setTimeout(() => setToast(null), 3000);
+      setStartingSession(false);
+    }
+  };
 
-  const habitsCompletedToday = habits.filter((habit) => {
-    return habit.completions.some(
-      (c: any) =>
-        c.completed &&
-        new Date(c.date).setHours(0, 0, 0, 0) === today.getTime()
-    );
-  }).length;
+  // Everything is bucketed by calendar days in the user's timezone
+  const timeZone = user?.timezone;
+  const today = getUserToday(timeZone);
+
+  // Only habits scheduled for today count towards today's progress
+  const habitsDueToday = habits.filter((habit) => getDayStatus(habit, today).due);
+  const habitsCompletedToday = habitsDueToday.filter((habit) => getDayStatus(habit, today).completed).length;
 
   const todayCompletionRate =
-    habits.length > 0 ? Math.round((habitsCompletedToday / habits.length) * 100) : 0;
+    habitsDueToday.length > 0 ? Math.round((habitsCompletedToday / habitsDueToday.length) * 100) : 0;
 
   // Weekly progress data
   const getWeeklyProgress = () => {
-    const weekStart = startOfWeek(today, { weekStartsOn: 1 });
-    const weekDays = Array.from({ length: 7 }, (_, i) => {
-      const date = new Date(weekStart);
-      date.setDate(date.getDate() + i);
-      return date;
-    });
+    const weekStart = startOfWeek(today);
+    const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
 
     return weekDays.map((date) => {
-      const completed = habits.filter((habit) =>
-        habit.completions.some(
-          (c: any) =>
-            c.completed && isSameDay(new Date(c.date), date)
-        )
-      ).length;
+      const statuses = habits.map((habit) => getDayStatus(habit, date));
+      const total = statuses.filter((status) => status.due && (status.completed || !status.frozen)).length;
+      const completed = statuses.filter((status) => status.due && status.completed).length;
       return {
-        day: format(date, 'EEE'),
-        date: format(date, 'MMM d'),
+        day: format(toLocalDate(date), 'EEE'),
+        date: format(toLocalDate(date), 'MMM d'),
         completed,
-        total: habits.length,
-        percentage: habits.length > 0 ? Math.round((completed / habits.length) * 100) : 0,
+        total,
+        percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
       };
     });
   };
 
   // Monthly workout data
   const getMonthlyWorkouts = () => {
-    const last30Days = Array.from({ length: 30 }, (_, i) => {
-      const date = subDays(today, 29 - i);
-      return date;
-    });
+    const last30Days = Array.from({ length: 30 }, (_, i) => addDays(today, i - 29));
 
     return last30Days.map((date) => {
-      const workoutCount = workouts.filter((w) =>
-        isSameDay(new Date(w.date), date)
+      const workoutCount = workouts.filter(
+        (w) => toDateKey(toLocalDay(w.date, timeZone)) === toDateKey(date)
       ).length;
       return {
-        date: format(date, 'MMM d'),
+        date: format(toLocalDate(date), 'MMM d'),
         workouts: workoutCount,
       };
     });
@@ -144,34 +155,27 @@ export default function DashboardPage() {
   // Habit completion rates for pie chart
   const getHabitCompletionData = () => {
     return habits.map((habit) => {
-      const completedCount = habit.completions.filter((c: any) => c.completed).length;
-      const totalDays = Math.max(
-        1,
-        Math.ceil((today.getTime() - new Date(habit.createdAt).getTime()) / (1000 * 60 * 60 * 24))
-      );
-      const rate = Math.round((completedCount / totalDays) * 100);
+      const { completionRate, completedCount, dueCount } = getHabitStats(habit, { to: today });
       return {
         name: habit.name,
-        value: rate,
+        value: Math.round(completionRate),
         completed: completedCount,
-        total: totalDays,
+        total: dueCount,
       };
     });
   };
 
   // Calculate weekly stats
-  const weekStart = startOfWeek(today, { weekStartsOn: 1 });
-  const weekEnd = endOfWeek(today, { weekStartsOn: 1 });
-  const workoutsThisWeek = workouts.filter(
-    (w) => new Date(w.date) >= weekStart && new Date(w.date) <= weekEnd
-  ).length;
+  const weekStart = startOfWeek(today);
+  const weekEnd = addDays(weekStart, 6);
+  const workoutsThisWeek = workouts.filter((w) => {
+    const day = toLocalDay(w.date, timeZone);
+    return day >= weekStart && day <= weekEnd;
+  }).length;
 
   const habitsCompletedThisWeek = habits.filter((habit) =>
     habit.completions.some(
-      (c: any) =>
-        c.completed &&
-        new Date(c.date) >= weekStart &&
-        new Date(c.date) <= weekEnd
+      (c: any) => c.completed && startOfDay(c.date) >= weekStart && startOfDay(c.date) <= weekEnd
     )
   ).length;
 
@@ -236,6 +240,47 @@ export default function DashboardPage() {
             <div className="absolute bottom-0 left-0 w-48 h-48 bg-white/10 rounded-full -ml-24 -mb-24"></div>
           </motion.div>
 
+          {/* Today's Program Session */}
+          {todaySession && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 }}
+              className="mb-8 bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border-l-4 border-blue-500"
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400 text-sm font-medium mb-1">
+                    Today&apos;s Session • {todaySession.program?.name} • Week {todaySession.workout.programWeek}
+                  </p>
+                  <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+                    📅 {todaySession.workout.sessionName}
+                  </h2>
+                  <div className="flex flex-wrap gap-2">
+                    {todaySession.workout.exercises.map((exercise: any, idx: number) => (
+                      <span
+                        key={idx}
+                        className="px-3 py-1 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-full text-sm"
+                      >
+                        {exercise.name}: {exercise.targetSets} × {exercise.targetReps}
+                        {exercise.targetWeight !== null && exercise.targetWeight !== undefined
+                          ? ` @ ${exercise.targetWeight} ${todaySession.workout.weightUnit}`
+                          : ''}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  onClick={handleStartTodaySession}
+                  disabled={startingSession}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition font-semibold whitespace-nowrap disabled:opacity-50"
+                >
+                  {startingSession ? 'Starting...' : '▶ Start Session'}
+                </button>
+              </div>
+            </motion.div>
+          )}
+
           {/* Main Stats Cards with Icons */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
             <motion.div
@@ -248,7 +293,7 @@ export default function DashboardPage() {
                 <div>
                   <p className="text-gray-500 dark:text-gray-400 text-sm font-medium mb-1">Today's Habits</p>
                   <p className="text-3xl font-bold text-gray-900 dark:text-white">
-                    {habitsCompletedToday} / {habits.length}
+                    {habitsCompletedToday} / {habitsDueToday.length}
                   </p>
                   <div className="mt-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                     <div
@@ -427,19 +472,9 @@ export default function DashboardPage() {
                 <div className="space-y-3">
                   {habits.slice(0, 5).map((habit) => {
                     const isCompletedToday = habit.completions.some(
-                      (c: any) =>
-                        c.completed &&
-                        new Date(c.date).setHours(0, 0, 0, 0) === today.getTime()
-                    );
-                    const completedCount = habit.completions.filter((c: any) => c.completed).length;
-                    const totalDays = Math.max(
-                      1,
-                      Math.ceil(
-                        (today.getTime() - new Date(habit.createdAt).getTime()) /
-                          (1000 * 60 * 60 * 24)
-                      )
+                      (c: any) => c.completed && toDateKey(c.date) === toDateKey(today)
                     );
-                    const habitRate = Math.round((completedCount / totalDays) * 100);
+                    const habitRate = Math.round(getHabitStats(habit, { to: today }).completionRate);
 
                     return (
                       <div
@@ -602,6 +637,11 @@ export default function DashboardPage() {
             </Link>
           </div>
         </div>
+
+        {/* Toast Notification */}
+        {toast && (
+          <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
+        )}
       </AppLayout>
     </ProtectedRoute>
   );
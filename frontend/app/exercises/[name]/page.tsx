@@ -0,0 +1,463 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { workoutAPI } from '@/lib/api';
+import { toLocalDate } from '@/lib/dates';
+import { WeightUnit } from '@/lib/weights';
+import { getSetTypeLabel, SetType } from '@/lib/exerciseGroups';
+import { formatDistance, formatDuration, formatPace, getTrackingType, isRepTracking, TrackingType } from '@/lib/tracking';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import AppLayout from '@/components/AppLayout';
+import Toast from '@/components/Toast';
+import { format, parseISO } from 'date-fns';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Award, Dumbbell, TrendingUp, Trophy } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+
+type RecordType = 'estimated1RM' | 'maxWeight' | 'maxReps' | 'volume';
+
+interface ExerciseSession {
+  workoutId: string;
+  date: string;
+  day: string;
+  weightUnit: WeightUnit;
+  trackingType: TrackingType;
+  sets: {
+    reps: number;
+    weight: number;
+    duration?: number | null;
+    distance?: number | null;
+    rpe?: number;
+    restTime?: number;
+    completed?: boolean;
+    setType?: SetType;
+  }[];
+  bestSet: { reps: number; weight: number };
+  estimated1RM: number;
+  maxWeight: number;
+  maxReps: number;
+  volume: number;
+  // Metres, seconds and seconds per km
+  distance: number;
+  duration: number;
+  pace: number | null;
+}
+
+interface ExerciseHistory {
+  exercise: {
+    _id: string;
+    name: string;
+    muscleGroup: string;
+    equipment: string;
+    secondaryMuscles: string[];
+    notes: string;
+    isCustom: boolean;
+  } | null;
+  name: string;
+  unit: WeightUnit;
+  sessions: ExerciseSession[];
+  estimated1RMTrend: { date: string; estimated1RM: number }[];
+  prTimeline: { date: string; workoutId: string; type: RecordType; value: number; previous: number | null }[];
+  repMaxes: { reps: number; best: { weight: number; reps: number; date: string; workoutId: string } | null }[];
+  weeklyVolume: { week: string; volume: number }[];
+  records: Record<RecordType, number>;
+  personalRecords: {
+    type: 'repMax' | 'estimated1RM';
+    reps: number | null;
+    value: number;
+    previousValue: number | null;
+    set: { reps: number; weight: number };
+    weightUnit: WeightUnit;
+    workoutId: string;
+    achievedAt: string;
+  }[];
+}
+
+const RECORD_LABELS: Record<RecordType, { label: string; emoji: string }> = {
+  estimated1RM: { label: 'Estimated 1RM', emoji: '💪' },
+  maxWeight: { label: 'Heaviest weight', emoji: '🏋️' },
+  maxReps: { label: 'Most reps', emoji: '🔁' },
+  volume: { label: 'Session volume', emoji: '📦' },
+};
+
+export default function ExerciseDetailPage({ params }: { params: { name: string } }) {
+  const exerciseName = decodeURIComponent(params.name);
+  const [history, setHistory] = useState<ExerciseHistory | null>(null);
+  const [unit, setUnit] = useState<WeightUnit | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [exerciseName, unit]);
+
+  const fetchHistory = async () => {
+    try {
+      const response = await workoutAPI.getExerciseHistory(exerciseName, unit ? { unit } : undefined);
+      setHistory(response.data);
+    } catch (error) {
+      console.error('Error fetching exercise history:', error);
+      showToast('Failed to load exercise history', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showToast = (message: string, type: 'success' | 'error' | 'info') => {
+    setToast({ message, type });
+  };
+
+  const formatRecord = (type: RecordType, value: number, unitLabel: string) =>
+    type === 'maxReps' ? `${value} reps` : `${value} ${unitLabel}`;
+
+  if (loading) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  const displayUnit = history?.unit ?? 'kg';
+  const sessions = history?.sessions ?? [];
+
+  // Saved records are newest first, so the first entry of each kind is the current record
+  const recordBook = [1, 3, 5, 8, 10, null].map((reps) => {
+    const entries = (history?.personalRecords ?? []).filter((record) =>
+      reps === null ? record.type === 'estimated1RM' : record.type === 'repMax' && record.reps === reps
+    );
+    return { label: reps === null ? 'Estimated 1RM' : `${reps}RM`, current: entries[0], entries };
+  });
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="max-w-7xl mx-auto">
+          <Link
+            href="/workouts"
+            className="inline-flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-primary-600 mb-4"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to workouts
+          </Link>
+
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4"
+          >
+            <div>
+              <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-white mb-2">
+                {history?.name ?? exerciseName}
+              </h1>
+              {history?.exercise ? (
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded">{history.exercise.muscleGroup}</span>
+                  <span className="px-2 py-1 bg-green-100 text-green-700 rounded">{history.exercise.equipment}</span>
+                  {history.exercise.secondaryMuscles.map((muscle) => (
+                    <span key={muscle} className="px-2 py-1 bg-gray-100 text-gray-700 rounded">
+                      {muscle}
+                    </span>
+                  ))}
+                  {history.exercise.isCustom && (
+                    <span className="px-2 py-1 bg-primary-100 text-primary-700 rounded">🏷️ Custom</span>
+                  )}
+                </div>
+              ) : (
+                <p className="text-gray-600 dark:text-gray-400">Every session you&apos;ve logged for this exercise.</p>
+              )}
+              {history?.exercise?.notes && (
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-2 whitespace-pre-line">
+                  {history.exercise.notes}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {(['kg', 'lb'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setUnit(option)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                    displayUnit === option
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </motion.div>
+
+          {sessions.length === 0 ? (
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-12 text-center border border-gray-100 dark:border-gray-700">
+              <Dumbbell className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 dark:text-gray-400">
+                No completed sessions with this exercise yet. Finish a workout with it to see your history.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Records */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-8">
+                {(Object.keys(RECORD_LABELS) as RecordType[]).map((type) => (
+                  <div
+                    key={type}
+                    className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700"
+                  >
+                    <p className="text-gray-600 dark:text-gray-400 text-sm font-medium mb-3">
+                      {RECORD_LABELS[type].emoji} {RECORD_LABELS[type].label}
+                    </p>
+                    <p className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">
+                      {formatRecord(type, history!.records[type], displayUnit)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Estimated 1RM Trend */}
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-8 border border-gray-100 dark:border-gray-700">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                  <TrendingUp className="w-5 h-5 text-primary-600" />
+                  Estimated 1RM
+                </h2>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart
+                    data={history!.estimated1RMTrend.map((point) => ({
+                      date: format(parseISO(point.date), 'MMM d'),
+                      estimated1RM: point.estimated1RM,
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis domain={['auto', 'auto']} />
+                    <Tooltip />
+                    <Line
+                      type="monotone"
+                      dataKey="estimated1RM"
+                      stroke="#0ea5e9"
+                      strokeWidth={3}
+                      name={`e1RM (${displayUnit})`}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                {/* Rep Maxes */}
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700">
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+                    <Award className="w-5 h-5 text-primary-600" />
+                    Rep Maxes
+                  </h2>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                    Heaviest weight lifted for at least that many reps
+                  </p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2 font-medium">Reps</th>
+                        <th className="py-2 font-medium">Weight</th>
+                        <th className="py-2 font-medium">Set</th>
+                        <th className="py-2 font-medium">Date</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {history!.repMaxes.map(({ reps, best }) => (
+                        <tr key={reps} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-700 dark:text-gray-300">
+                          <td className="py-2 font-semibold text-gray-900 dark:text-white">{reps}RM</td>
+                          <td className="py-2">{best ? `${best.weight} ${displayUnit}` : '—'}</td>
+                          <td className="py-2 text-gray-500">{best ? `${best.reps} × ${best.weight}` : ''}</td>
+                          <td className="py-2 text-gray-500">{best ? format(parseISO(best.date), 'MMM d, yyyy') : ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* PR Timeline */}
+                <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700">
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                    <Trophy className="w-5 h-5 text-yellow-500" />
+                    PR Timeline
+                  </h2>
+                  <div className="space-y-2 max-h-[520px] overflow-y-auto">
+                    {[...history!.prTimeline].reverse().map((pr, idx) => (
+                      <div
+                        key={idx}
+                        className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm"
+                      >
+                        <div>
+                          <div className="font-semibold text-gray-900 dark:text-white">
+                            {RECORD_LABELS[pr.type].emoji} {RECORD_LABELS[pr.type].label}
+                          </div>
+                          <div className="text-xs text-gray-500">{format(parseISO(pr.date), 'EEE, MMM d, yyyy')}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-bold text-gray-900 dark:text-white">
+                            {formatRecord(pr.type, pr.value, displayUnit)}
+                          </div>
+                          {pr.previous !== null && (
+                            <div className="text-xs text-green-600">
+                              +{Math.round((pr.value - pr.previous) * 10) / 10} from{' '}
+                              {formatRecord(pr.type, pr.previous, displayUnit)}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Record Book */}
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-8 border border-gray-100 dark:border-gray-700">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Record Book</h2>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                  {recordBook.map(({ label, current, entries }) => (
+                    <div key={label} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                      <p className="text-sm font-medium text-gray-600 dark:text-gray-400">{label}</p>
+                      {current ? (
+                        <>
+                          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                            {current.value} {displayUnit}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {current.set.reps} × {current.set.weight} {current.weightUnit} •{' '}
+                            {format(parseISO(current.achievedAt), 'MMM d, yyyy')}
+                          </p>
+                          {entries.length > 1 && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              Broken {entries.length - 1} time{entries.length > 2 ? 's' : ''} since{' '}
+                              {format(parseISO(entries[entries.length - 1].achievedAt), 'MMM yyyy')}
+                            </p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-2xl font-bold text-gray-400">—</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Weekly Volume */}
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-8 border border-gray-100 dark:border-gray-700">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Weekly Volume</h2>
+                <ResponsiveContainer width="100%" height={240}>
+                  <BarChart
+                    data={history!.weeklyVolume.map((week) => ({
+                      week: format(toLocalDate(week.week), 'MMM d'),
+                      volume: week.volume,
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="week" />
+                    <YAxis />
+                    <Tooltip />
+                    <Bar dataKey="volume" fill="#10b981" name={`Volume (${displayUnit})`} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              {/* Sessions */}
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+                  Sessions ({sessions.length})
+                </h2>
+                <div className="space-y-4">
+                  {sessions.map((session, idx) => {
+                    const { fields, weightLabel } = getTrackingType(session.trackingType);
+                    return (
+                      <div key={`${session.workoutId}-${idx}`} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                          <span className="font-semibold text-gray-900 dark:text-white">
+                            {format(toLocalDate(session.day), 'EEE, MMM d, yyyy')}
+                          </span>
+                          {isRepTracking(session.trackingType) ? (
+                            <span className="text-sm text-gray-600 dark:text-gray-400">
+                              Best {session.bestSet.reps} × {session.bestSet.weight} {displayUnit} • e1RM{' '}
+                              {session.estimated1RM} {displayUnit} • Volume {session.volume} {displayUnit}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-600 dark:text-gray-400">
+                              {[
+                                fields.includes('distance') ? formatDistance(session.distance) : null,
+                                fields.includes('duration') ? formatDuration(session.duration) : null,
+                                session.pace ? formatPace(session.pace) : null,
+                              ]
+                                .filter(Boolean)
+                                .join(' • ')}
+                            </span>
+                          )}
+                        </div>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-500 dark:text-gray-400">
+                              <th className="py-1 font-medium">Set</th>
+                              {fields.includes('weight') && <th className="py-1 font-medium">{weightLabel ?? 'Weight'}</th>}
+                              {fields.includes('reps') && <th className="py-1 font-medium">Reps</th>}
+                              {fields.includes('distance') && <th className="py-1 font-medium">Distance</th>}
+                              {fields.includes('duration') && <th className="py-1 font-medium">Time</th>}
+                              <th className="py-1 font-medium">RPE</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {session.sets.map((set, setIdx) => (
+                              <tr
+                                key={setIdx}
+                                className={`text-gray-700 dark:text-gray-300 ${set.completed === false ? 'opacity-50 line-through' : ''}`}
+                              >
+                                <td className="py-1">
+                                  {setIdx + 1}
+                                  {set.setType && set.setType !== 'working' && (
+                                    <span className="ml-2 px-1.5 py-0.5 bg-orange-100 text-orange-700 rounded text-xs font-semibold">
+                                      {getSetTypeLabel(set.setType)}
+                                    </span>
+                                  )}
+                                </td>
+                                {fields.includes('weight') && (
+                                  <td className="py-1">
+                                    {set.weight} {session.weightUnit}
+                                  </td>
+                                )}
+                                {fields.includes('reps') && <td className="py-1">{set.reps}</td>}
+                                {fields.includes('distance') && <td className="py-1">{formatDistance(set.distance)}</td>}
+                                {fields.includes('duration') && <td className="py-1">{formatDuration(set.duration)}</td>}
+                                <td className="py-1">{set.rpe ?? '—'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Toast Notification */}
+          {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
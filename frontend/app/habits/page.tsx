@@ -3,11 +3,13 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { habitAPI } from '@/lib/api';
+import { describeSchedule, getDayStatus, getHabitStats, HabitStats } from '@/lib/habitSchedule';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import AppLayout from '@/components/AppLayout';
 import Toast from '@/components/Toast';
 import { HabitCardSkeleton, SummaryCardSkeleton } from '@/components/SkeletonLoader';
-import { format, startOfDay, subDays, parseISO, isSameDay } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import { getUserToday, startOfDay, toDateKey } from '@/lib/dates';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Plus, Search, Filter, Calendar, TrendingUp, Flame, CheckCircle2, Circle, Edit2, Trash2, BarChart3, X } from 'lucide-react';
 import {
@@ -38,12 +40,15 @@ interface Habit {
   color: string;
   icon: string;
   completions: Array<{ date: string; completed: boolean; value?: number | null }>;
+  streakFreeze: number;
+  frozenDays: string[];
   createdAt: string;
 }
 
 interface DailySummary {
   date: string;
   totalHabits: number;
+  dueToday: number;
   completedToday: number;
   missedToday: number;
   currentStreak: number;
@@ -54,9 +59,12 @@ interface HabitAnalytics {
   completionRate: number;
   currentStreak: number;
   longestStreak: number;
+  streakUnit: 'days' | 'weeks';
+  streakFreezes: number;
   totalCompletions: number;
+  missedCount: number;
   weeklyData: Array<{ day: number; count: number }>;
-  heatmapData: Array<{ date: string; completed: boolean; value: number | null }>;
+  heatmapData: Array<{ date: string; due: boolean; completed: boolean; frozen: boolean; value: number | null }>;
 }
 
 const CATEGORIES = ['Health', 'Fitness', 'Productivity', 'Mindfulness', 'Custom'];
@@ -72,12 +80,16 @@ const ICONS = ['📝', '💧', '📚', '🏃', '🧘', '🍎', '💪', '🌙', '
 
 const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+const isCompletedOn = (habit: Habit, dateKey: string) =>
+  habit.completions.some((c) => c.completed && toDateKey(c.date) === dateKey);
+
 export default function HabitsPage() {
   const { user } = useAuth();
   const [habits, setHabits] = useState<Habit[]>([]);
   const [loading, setLoading] = useState(true);
   const [summary, setSummary] = useState<DailySummary | null>(null);
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  // Calendar date being viewed, starting from today in the user's timezone
+  const [selectedDate, setSelectedDate] = useState(() => getUserToday(user?.timezone));
   const [showModal, setShowModal] = useState(false);
   const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
   const [expandedAnalytics, setExpandedAnalytics] = useState<string | null>(null);
@@ -94,7 +106,7 @@ export default function HabitsPage() {
     frequency: 'daily',
     weeklyDays: [] as number[],
     customFrequency: null as number | null,
-    startDate: format(new Date(), 'yyyy-MM-dd'),
+    startDate: toDateKey(getUserToday(user?.timezone)),
     reminderTime: '',
     reminderEnabled: false,
     goalType: 'yes_no',
@@ -110,9 +122,10 @@ export default function HabitsPage() {
   const fetchData = async () => {
     try {
       setLoading(true);
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
+      const dateStr = toDateKey(selectedDate);
+      // Full completion history: streaks and rates are computed from the schedule
       const [habitsRes, summaryRes] = await Promise.all([
-        habitAPI.getAll(dateStr),
+        habitAPI.getAll(),
         habitAPI.getDailySummary(dateStr),
       ]);
       setHabits(habitsRes.data.habits);
@@ -125,8 +138,8 @@ export default function HabitsPage() {
     }
   };
 
-  const fetchAnalytics = async (habitId: string) => {
-    if (analyticsData[habitId]) return;
+  const fetchAnalytics = async (habitId: string, refresh = false) => {
+    if (analyticsData[habitId] && !refresh) return;
 
     try {
       const response = await habitAPI.getAnalytics(habitId, 30);
@@ -179,7 +192,7 @@ export default function HabitsPage() {
       frequency: 'daily',
       weeklyDays: [],
       customFrequency: null,
-      startDate: format(new Date(), 'yyyy-MM-dd'),
+      startDate: toDateKey(getUserToday(user?.timezone)),
       reminderTime: '',
       reminderEnabled: false,
       goalType: 'yes_no',
@@ -197,7 +210,7 @@ export default function HabitsPage() {
       frequency: habit.frequency,
       weeklyDays: habit.weeklyDays ?? [],
       customFrequency: habit.customFrequency,
-      startDate: format(parseISO(habit.startDate), 'yyyy-MM-dd'),
+      startDate: toDateKey(habit.startDate),
       reminderTime: habit.reminderTime ?? '',
       reminderEnabled: habit.reminderEnabled ?? false,
       goalType: habit.goalType,
@@ -220,18 +233,17 @@ export default function HabitsPage() {
   };
 
   const handleToggleComplete = async (habit: Habit, animate = true) => {
-    const today = startOfDay(selectedDate);
-    const isCompleted = habit.completions.some((c) => {
-      const cDate = startOfDay(parseISO(c.date));
-      return isSameDay(cDate, today) && c.completed;
-    });
+    const dateKey = toDateKey(selectedDate);
+    const isCompleted = isCompletedOn(habit, dateKey);
 
     try {
       if (isCompleted) {
-        await habitAPI.uncomplete(habit._id, format(today, 'yyyy-MM-dd'));
+        await habitAPI.uncomplete(habit._id, dateKey);
       } else {
-        await habitAPI.complete(habit._id, format(today, 'yyyy-MM-dd'));
-        if (animate) {
+        const response = await habitAPI.complete(habit._id, dateKey);
+        if (response.data.freezeEarned) {
+          showToast(`🧊 ${habit.name}: streak freeze earned!`, 'success');
+        } else if (animate) {
           // Trigger confetti-like animation (visual feedback)
           showToast(`✅ ${habit.name} completed!`, 'success');
         }
@@ -242,6 +254,20 @@ export default function HabitsPage() {
     }
   };
 
+  const handleFreezeDay = async (habit: Habit, date: string) => {
+    const left = habit.streakFreeze - 1;
+    if (!confirm(`Use a streak freeze on ${format(parseISO(date), 'MMM d')}? You will have ${left} left.`)) return;
+
+    try {
+      await habitAPI.freeze(habit._id, date);
+      showToast(`🧊 ${format(parseISO(date), 'MMM d')} frozen - streak preserved`, 'success');
+      fetchData();
+      fetchAnalytics(habit._id, true);
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error applying streak freeze', 'error');
+    }
+  };
+
   const toggleDay = (day: number) => {
     setFormData((prev) => ({
       ...prev,
@@ -260,17 +286,23 @@ export default function HabitsPage() {
     }
   };
 
+  // Streaks and rates as of the selected date, following each habit's schedule
+  const habitStats = useMemo(
+    () =>
+      habits.reduce<Record<string, HabitStats>>((stats, habit) => {
+        stats[habit._id] = getHabitStats(habit, { to: selectedDate });
+        return stats;
+      }, {}),
+    [habits, selectedDate]
+  );
+
   // Filter and sort habits
   const filteredAndSortedHabits = useMemo(() => {
     let filtered = habits.filter((habit) => {
       const matchesSearch = habit.name.toLowerCase().includes(searchQuery.toLowerCase());
       const matchesCategory = filterCategory === 'all' || habit.category === filterCategory;
 
-      const today = startOfDay(selectedDate);
-      const isCompletedToday = habit.completions.some((c) => {
-        const cDate = startOfDay(parseISO(c.date));
-        return isSameDay(cDate, today) && c.completed;
-      });
+      const isCompletedToday = isCompletedOn(habit, toDateKey(selectedDate));
 
       const matchesStatus =
         filterStatus === 'all' ||
@@ -283,16 +315,10 @@ export default function HabitsPage() {
     // Sort habits
     filtered.sort((a, b) => {
       switch (sortBy) {
-        case 'streak': {
-          const aStreak = analyticsData[a._id]?.currentStreak ?? 0;
-          const bStreak = analyticsData[b._id]?.currentStreak ?? 0;
-          return bStreak - aStreak;
-        }
-        case 'completion': {
-          const aRate = analyticsData[a._id]?.completionRate ?? 0;
-          const bRate = analyticsData[b._id]?.completionRate ?? 0;
-          return bRate - aRate;
-        }
+        case 'streak':
+          return habitStats[b._id].currentStreak - habitStats[a._id].currentStreak;
+        case 'completion':
+          return habitStats[b._id].completionRate - habitStats[a._id].completionRate;
         case 'recent':
           return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
         case 'name':
@@ -303,65 +329,16 @@ export default function HabitsPage() {
 
     // Sort uncompleted first if sorting by name
     if (sortBy === 'name') {
-      const today = startOfDay(selectedDate);
+      const dateKey = toDateKey(selectedDate);
       filtered.sort((a, b) => {
-        const aCompleted = a.completions.some((c) => {
-          const cDate = startOfDay(parseISO(c.date));
-          return isSameDay(cDate, today) && c.completed;
-        });
-        const bCompleted = b.completions.some((c) => {
-          const cDate = startOfDay(parseISO(c.date));
-          return isSameDay(cDate, today) && c.completed;
-        });
+        const aCompleted = isCompletedOn(a, dateKey);
+        const bCompleted = isCompletedOn(b, dateKey);
         return aCompleted === bCompleted ? 0 : aCompleted ? 1 : -1;
       });
     }
 
     return filtered;
-  }, [habits, searchQuery, filterCategory, filterStatus, sortBy, selectedDate, analyticsData]);
-
-  const calculateStreak = (habit: Habit): number => {
-    const analytics = analyticsData[habit._id];
-    if (analytics) return analytics.currentStreak;
-
-    const sortedCompletions = habit.completions
-      .filter((c) => c.completed)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-    if (sortedCompletions.length === 0) return 0;
-
-    const today = startOfDay(selectedDate);
-    const lastCompletion = startOfDay(parseISO(sortedCompletions[0].date));
-
-    if (!isSameDay(lastCompletion, today) && !isSameDay(lastCompletion, subDays(today, 1))) {
-      return 0;
-    }
-
-    let streak = 1;
-    let checkDate = subDays(lastCompletion, 1);
-
-    for (let i = 1; i < sortedCompletions.length; i++) {
-      const completionDate = startOfDay(parseISO(sortedCompletions[i].date));
-      if (isSameDay(completionDate, checkDate)) {
-        streak++;
-        checkDate = subDays(checkDate, 1);
-      } else {
-        break;
-      }
-    }
-
-    return streak;
-  };
-
-  const calculateCompletionRate = (habit: Habit): number => {
-    const analytics = analyticsData[habit._id];
-    if (analytics) return analytics.completionRate;
-
-    const completedCount = habit.completions.filter((c) => c.completed).length;
-    const start = parseISO(habit.startDate);
-    const totalDays = Math.max(1, Math.ceil((selectedDate.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)));
-    return Math.round((completedCount / totalDays) * 100);
-  };
+  }, [habits, searchQuery, filterCategory, filterStatus, sortBy, selectedDate, habitStats]);
 
   if (loading && habits.length === 0) {
     return (
@@ -384,7 +361,8 @@ export default function HabitsPage() {
     );
   }
 
-  const today = startOfDay(selectedDate);
+  const selectedKey = toDateKey(selectedDate);
+  const todayKey = toDateKey(getUserToday(user?.timezone));
   const completionPercentage = summary ? summary.completionRate : 0;
 
   return (
@@ -469,8 +447,8 @@ export default function HabitsPage() {
                   </h3>
                   <input
                     type="date"
-                    value={format(selectedDate, 'yyyy-MM-dd')}
-                    onChange={(e) => setSelectedDate(parseISO(e.target.value))}
+                    value={selectedKey}
+                    onChange={(e) => e.target.value && setSelectedDate(startOfDay(e.target.value))}
                     className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
                   />
                 </div>
@@ -512,7 +490,7 @@ export default function HabitsPage() {
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-600 dark:text-gray-400">Completion Rate</span>
                         <span className="text-sm font-semibold text-gray-900 dark:text-white">
-                          {summary.completedToday} / {summary.totalHabits}
+                          {summary.dueToday - summary.missedToday} / {summary.dueToday} due
                         </span>
                       </div>
                       <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
@@ -607,12 +585,9 @@ export default function HabitsPage() {
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {filteredAndSortedHabits.map((habit) => {
-                const isCompletedToday = habit.completions.some((c) => {
-                  const cDate = startOfDay(parseISO(c.date));
-                  return isSameDay(cDate, today) && c.completed;
-                });
-                const streak = calculateStreak(habit);
-                const completionRate = calculateCompletionRate(habit);
+                const isCompletedToday = isCompletedOn(habit, selectedKey);
+                const { currentStreak: streak, streakUnit, completionRate } = habitStats[habit._id];
+                const isDue = getDayStatus(habit, selectedDate).due;
                 const analytics = analyticsData[habit._id];
                 const isExpanded = expandedAnalytics === habit._id;
 
@@ -641,7 +616,10 @@ export default function HabitsPage() {
                             {habit.name}
                           </h3>
                           <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                            {habit.category} • {habit.frequency}
+                            {habit.category} • {describeSchedule(habit)}
+                            {!isDue && !isCompletedToday && (
+                              <span className="ml-2 px-2 py-0.5 bg-gray-100 dark:bg-gray-700 rounded-full">Not due</span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -673,9 +651,13 @@ export default function HabitsPage() {
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-600">Streak</span>
                         <span className="text-sm font-bold text-red-600 flex items-center gap-1">
-                          🔥 {streak} days
+                          🔥 {streak} {streakUnit}
                         </span>
                       </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-gray-600">Streak Freezes</span>
+                        <span className="text-sm font-semibold text-sky-600">🧊 {habit.streakFreeze}</span>
+                      </div>
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-600">Completion Rate</span>
                         <span className="text-sm font-semibold text-gray-900">{completionRate}%</span>
@@ -720,12 +702,18 @@ export default function HabitsPage() {
                         <div className="grid grid-cols-2 gap-2 text-sm">
                           <div>
                             <span className="text-gray-600">Longest Streak</span>
-                            <div className="font-bold text-gray-900">{analytics.longestStreak} days</div>
+                            <div className="font-bold text-gray-900">
+                              {analytics.longestStreak} {analytics.streakUnit}
+                            </div>
                           </div>
                           <div>
                             <span className="text-gray-600">Total Completions</span>
                             <div className="font-bold text-gray-900">{analytics.totalCompletions}</div>
                           </div>
+                          <div>
+                            <span className="text-gray-600">Missed (30 days)</span>
+                            <div className="font-bold text-gray-900">{analytics.missedCount}</div>
+                          </div>
                         </div>
 
                         {/* Weekly Consistency Chart */}
@@ -750,18 +738,47 @@ export default function HabitsPage() {
                         <div>
                           <h4 className="text-sm font-semibold text-gray-700 mb-2">Last 30 Days</h4>
                           <div className="grid grid-cols-7 gap-1">
-                            {analytics.heatmapData.map((day, idx) => (
-                              <div
-                                key={idx}
-                                className={`aspect-square rounded text-xs flex items-center justify-center ${
-                                  day.completed
-                                    ? 'bg-green-500 text-white'
-                                    : 'bg-gray-100 text-gray-400'
-                                }`}
-                                title={`${day.date}: ${day.completed ? 'Completed' : 'Not completed'}`}
-                              />
-                            ))}
+                            {analytics.heatmapData.map((day, idx) => {
+                              const missed = day.due && !day.completed && !day.frozen && day.date < todayKey;
+                              const canFreeze = missed && habit.streakFreeze > 0;
+
+                              return (
+                                <button
+                                  key={idx}
+                                  type="button"
+                                  disabled={!canFreeze}
+                                  onClick={() => handleFreezeDay(habit, day.date)}
+                                  className={`aspect-square rounded text-xs flex items-center justify-center ${
+                                    day.completed
+                                      ? 'bg-green-500 text-white'
+                                      : day.frozen
+                                      ? 'bg-sky-200 text-sky-700'
+                                      : day.due
+                                      ? 'bg-gray-200 text-gray-400'
+                                      : 'border border-dashed border-gray-200 text-gray-300'
+                                  } ${canFreeze ? 'hover:ring-2 hover:ring-sky-400 cursor-pointer' : 'cursor-default'}`}
+                                  title={`${day.date}: ${
+                                    day.completed
+                                      ? 'Completed'
+                                      : day.frozen
+                                      ? 'Frozen'
+                                      : !day.due
+                                      ? 'Not due'
+                                      : canFreeze
+                                      ? 'Missed - click to use a streak freeze'
+                                      : 'Not completed'
+                                  }`}
+                                >
+                                  {day.frozen && '❄️'}
+                                </button>
+                              );
+                            })}
                           </div>
+                          {habit.streakFreeze > 0 && (
+                            <p className="text-xs text-gray-500 mt-2">
+                              Click a missed day to spend a streak freeze on it.
+                            </p>
+                          )}
                         </div>
                       </div>
                     )}
@@ -0,0 +1,401 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { measurementAPI } from '@/lib/api';
+import { getUserToday, toDateKey, toLocalDate } from '@/lib/dates';
+import {
+  getCurrentWeeklyRate,
+  getWeeklyRates,
+  getWeightTrend,
+  Measurement,
+} from '@/lib/bodyweightTrend';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import AppLayout from '@/components/AppLayout';
+import Toast from '@/components/Toast';
+import { format } from 'date-fns';
+import { motion } from 'framer-motion';
+import { Scale, TrendingDown, TrendingUp, Trash2 } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+
+const CIRCUMFERENCES = [
+  { key: 'waist', label: 'Waist' },
+  { key: 'chest', label: 'Chest' },
+  { key: 'arms', label: 'Arms' },
+  { key: 'hips', label: 'Hips' },
+] as const;
+
+const emptyForm = (date: string, weightUnit: 'kg' | 'lb', lengthUnit: 'cm' | 'in') => ({
+  date,
+  weight: '',
+  weightUnit,
+  bodyFat: '',
+  waist: '',
+  chest: '',
+  arms: '',
+  hips: '',
+  lengthUnit,
+  notes: '',
+});
+
+// Blank inputs are left out rather than clearing a value already logged that day
+const toNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+export default function MeasurementsPage() {
+  const { user } = useAuth();
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(() =>
+    emptyForm(toDateKey(getUserToday(user?.timezone)), user?.weightUnit ?? 'kg', 'cm')
+  );
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  useEffect(() => {
+    fetchMeasurements();
+  }, []);
+
+  const fetchMeasurements = async () => {
+    try {
+      setLoading(true);
+      const response = await measurementAPI.getAll();
+      setMeasurements(response.data.measurements ?? []);
+    } catch (error) {
+      console.error('Error fetching measurements:', error);
+      showToast('Failed to load measurements', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showToast = (message: string, type: 'success' | 'error' | 'info' = 'info') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  // Display in the user's preferred unit
+  const weightUnit = user?.weightUnit ?? 'kg';
+  const trend = useMemo(() => getWeightTrend(measurements, weightUnit), [measurements, weightUnit]);
+  const weeklyRates = useMemo(() => getWeeklyRates(trend).slice(-12), [trend]);
+  const currentRate = getCurrentWeeklyRate(trend);
+  const latestTrend = trend[trend.length - 1];
+  const latestBodyFat = [...measurements].reverse().find((m) => m.bodyFat !== null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await measurementAPI.log({
+        date: formData.date,
+        weight: toNumber(formData.weight),
+        weightUnit: formData.weightUnit,
+        bodyFat: toNumber(formData.bodyFat),
+        waist: toNumber(formData.waist),
+        chest: toNumber(formData.chest),
+        arms: toNumber(formData.arms),
+        hips: toNumber(formData.hips),
+        lengthUnit: formData.lengthUnit,
+        notes: formData.notes || undefined,
+      });
+      showToast(response.status === 201 ? 'Measurement logged! 📏' : 'Entry for this day updated', 'success');
+      setFormData(emptyForm(formData.date, formData.weightUnit, formData.lengthUnit));
+      fetchMeasurements();
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error saving measurement', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this entry?')) return;
+
+    try {
+      await measurementAPI.delete(id);
+      showToast('Entry deleted', 'success');
+      fetchMeasurements();
+    } catch (error) {
+      showToast('Error deleting entry', 'error');
+    }
+  };
+
+  if (loading && measurements.length === 0) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  const chartData = trend.map((point) => ({
+    date: format(toLocalDate(point.date), 'MMM d'),
+    weight: Math.round(point.weight * 10) / 10,
+    trend: Math.round(point.trend * 10) / 10,
+  }));
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="mb-8"
+          >
+            <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-white mb-2">Body Measurements</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Log bodyweight, body fat and measurements to see where you&apos;re really heading.
+            </p>
+          </motion.div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700">
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-gray-600 dark:text-gray-400 text-sm font-medium">Trend Weight</p>
+                <Scale className="w-6 h-6 text-primary-600" />
+              </div>
+              <p className="text-3xl font-bold text-gray-900 dark:text-white">
+                {latestTrend ? `${latestTrend.trend.toFixed(1)} ${weightUnit}` : '—'}
+              </p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700">
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-gray-600 dark:text-gray-400 text-sm font-medium">Rate of Change</p>
+                {currentRate !== null && currentRate < 0 ? (
+                  <TrendingDown className="w-6 h-6 text-green-600" />
+                ) : (
+                  <TrendingUp className="w-6 h-6 text-orange-500" />
+                )}
+              </div>
+              <p className="text-3xl font-bold text-gray-900 dark:text-white">
+                {currentRate !== null ? `${currentRate > 0 ? '+' : ''}${currentRate.toFixed(2)} ${weightUnit}/wk` : '—'}
+              </p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700">
+              <p className="text-gray-600 dark:text-gray-400 text-sm font-medium mb-3">Body Fat</p>
+              <p className="text-3xl font-bold text-gray-900 dark:text-white">
+                {latestBodyFat ? `${latestBodyFat.bodyFat}%` : '—'}
+              </p>
+            </div>
+          </div>
+
+          {/* Log Entry */}
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-8 border border-gray-100 dark:border-gray-700">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Log Entry</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Date</label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Bodyweight</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={formData.weight}
+                      onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <select
+                      value={formData.weightUnit}
+                      onChange={(e) => setFormData({ ...formData, weightUnit: e.target.value as 'kg' | 'lb' })}
+                      className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                    >
+                      <option value="kg">kg</option>
+                      <option value="lb">lb</option>
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Body Fat (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={formData.bodyFat}
+                    onChange={(e) => setFormData({ ...formData, bodyFat: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Length Unit</label>
+                  <select
+                    value={formData.lengthUnit}
+                    onChange={(e) => setFormData({ ...formData, lengthUnit: e.target.value as 'cm' | 'in' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="cm">cm</option>
+                    <option value="in">in</option>
+                  </select>
+                </div>
+                {CIRCUMFERENCES.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      {label} ({formData.lengthUnit})
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={formData[key]}
+                      onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="Notes (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Entry'}
+              </button>
+            </form>
+          </div>
+
+          {/* Trend Chart */}
+          {chartData.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-8 border border-gray-100 dark:border-gray-700">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Bodyweight Trend</h2>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis domain={['auto', 'auto']} />
+                  <Tooltip />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="weight"
+                    stroke="#94a3b8"
+                    strokeWidth={0}
+                    dot={{ r: 3, fill: '#94a3b8' }}
+                    name={`Weigh-in (${weightUnit})`}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="trend"
+                    stroke="#0ea5e9"
+                    strokeWidth={3}
+                    dot={false}
+                    name={`Trend (${weightUnit})`}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* Weekly Rate of Change */}
+          {weeklyRates.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 mb-8 border border-gray-100 dark:border-gray-700">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">Weekly Rate of Change</h2>
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart
+                  data={weeklyRates.map((rate) => ({
+                    week: format(toLocalDate(rate.week), 'MMM d'),
+                    change: Math.round(rate.change * 100) / 100,
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" />
+                  <YAxis />
+                  <Tooltip />
+                  <Bar dataKey="change" name={`${weightUnit} per week`}>
+                    {weeklyRates.map((rate, idx) => (
+                      <Cell key={idx} fill={rate.change <= 0 ? '#10b981' : '#f59e0b'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {/* History */}
+          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">History</h2>
+            {measurements.length === 0 ? (
+              <p className="text-gray-600 dark:text-gray-400 text-sm">No entries yet. Log your first weigh-in above.</p>
+            ) : (
+              <div className="space-y-2">
+                {[...measurements].reverse().map((m) => (
+                  <div
+                    key={m._id}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm"
+                  >
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-700 dark:text-gray-300">
+                      <span className="font-semibold text-gray-900 dark:text-white">
+                        {format(toLocalDate(m.date), 'EEE, MMM d, yyyy')}
+                      </span>
+                      {m.weight !== null && (
+                        <span>
+                          ⚖️ {m.weight} {m.weightUnit}
+                        </span>
+                      )}
+                      {m.bodyFat !== null && <span>{m.bodyFat}% fat</span>}
+                      {CIRCUMFERENCES.filter(({ key }) => m[key] !== null).map(({ key, label }) => (
+                        <span key={key}>
+                          {label} {m[key]} {m.lengthUnit}
+                        </span>
+                      ))}
+                      {m.notes && <span className="italic text-gray-500">{m.notes}</span>}
+                    </div>
+                    <button
+                      onClick={() => handleDelete(m._id)}
+                      className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition"
+                      aria-label="Delete entry"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Toast Notification */}
+          {toast && (
+            <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
+          )}
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
@@ -2,17 +2,40 @@
 
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { userAPI } from '@/lib/api';
+import { authAPI, exportAPI, importAPI, notificationAPI, userAPI } from '@/lib/api';
+import { getBrowserTimeZone } from '@/lib/dates';
+import { ONE_REP_MAX_FORMULAS, OneRepMaxFormula } from '@/lib/oneRepMax';
+import { WeightUnit } from '@/lib/weights';
+import { subscribeToPush, unsubscribeFromPush } from '@/lib/pushNotifications';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import AppLayout from '@/components/AppLayout';
 import Toast from '@/components/Toast';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import DeleteAccountSettings from '@/components/DeleteAccountSettings';
 import { format } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
-import { User, Lock, Settings, Moon, Sun, Bell, Eye, EyeOff, Save, X } from 'lucide-react';
+import { User, Lock, Settings, Moon, Sun, Bell, Globe, Eye, EyeOff, Save, X, Download, Upload, Monitor, LogOut, Dumbbell, Scale } from 'lucide-react';
 import { useTheme } from 'next-themes';
 
+const DOWNLOADS = [
+  { id: 'workouts', label: 'Workouts (CSV)', description: 'One row per set', request: exportAPI.workoutsCsv },
+  { id: 'habits', label: 'Habits (CSV)', description: 'One row per completion', request: exportAPI.habitsCsv },
+  { id: 'archive', label: 'Full backup (JSON)', description: 'Everything, for backup or re-import', request: exportAPI.archive },
+] as const;
+
+// Save a downloaded file under the name the server suggests
+const saveDownload = (data: Blob, contentDisposition: string | undefined, fallbackName: string) => {
+  const filename = contentDisposition?.match(/filename="(.+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export default function ProfilePage() {
-  const { user, updateUser } = useAuth();
+  const { user, updateUser, logout } = useAuth();
   const { theme, setTheme, systemTheme } = useTheme();
   const [mounted, setMounted] = useState(false);
   const [profile, setProfile] = useState({
@@ -31,12 +54,43 @@ export default function ProfilePage() {
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'preferences'>('profile');
   const [createdAt, setCreatedAt] = useState<string>('');
+  const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const [timezone, setTimezone] = useState('UTC');
+  const [savingNotifications, setSavingNotifications] = useState(false);
+  const [savingTimezone, setSavingTimezone] = useState(false);
+  const [oneRepMaxFormula, setOneRepMaxFormula] = useState<OneRepMaxFormula>('epley');
+  const [savingFormula, setSavingFormula] = useState(false);
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>('kg');
+  const [savingWeightUnit, setSavingWeightUnit] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [restoring, setRestoring] = useState(false);
+  const [restoreErrors, setRestoreErrors] = useState<Array<{ path: string; message: string }>>([]);
+  const [timeZones] = useState<string[]>(() => Intl.supportedValuesOf('timeZone'));
+  const [sessions, setSessions] = useState<
+    Array<{ id: string; device: string; ip: string | null; createdAt: string; lastSeenAt: string; current: boolean }>
+  >([]);
 
   useEffect(() => {
     setMounted(true);
     fetchProfile();
   }, []);
 
+  useEffect(() => {
+    if (activeTab === 'password') {
+      fetchSessions();
+    }
+  }, [activeTab]);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await authAPI.getSessions();
+      setSessions(response.data.sessions);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    }
+  };
+
   const fetchProfile = async () => {
     try {
       const response = await userAPI.getProfile();
@@ -45,6 +99,10 @@ export default function ProfilePage() {
       if (userData.createdAt) {
         setCreatedAt(userData.createdAt);
       }
+      setNotificationsEnabled(userData.notificationsEnabled ?? false);
+      setTimezone(userData.timezone ?? 'UTC');
+      setOneRepMaxFormula(userData.oneRepMaxFormula ?? 'epley');
+      setWeightUnit(userData.weightUnit ?? 'kg');
     } catch (error) {
       console.error('Error fetching profile:', error);
     }
@@ -70,7 +128,16 @@ export default function ProfilePage() {
     }
   };
 
-  const handlePasswordChange = async (e: React.FormEvent) => {
+  const handleResendVerification = async () => {
+    try {
+      await authAPI.resendVerification();
+      showToastMessage(`Verification link sent to ${user?.email}`, 'success');
+    } catch (err: any) {
+      showToastMessage(err.response?.data?.message ?? 'Error sending verification email', 'error');
+    }
+  };
+
+    const handlePasswordChange = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
@@ -97,6 +164,8 @@ export default function ProfilePage() {
         newPassword: '',
         confirmPassword: '',
       });
+      // Other devices were logged out
+      fetchSessions();
     } catch (err: any) {
       showToastMessage(err.response?.data?.message ?? 'Error changing password', 'error');
     } finally {
@@ -104,6 +173,155 @@ export default function ProfilePage() {
     }
   };
 
+  const handleNotificationsToggle = async (enabled: boolean) => {
+    setSavingNotifications(true);
+
+    try {
+      if (enabled) {
+        await subscribeToPush();
+        await userAPI.updatePreferences({ notificationsEnabled: true });
+        await notificationAPI.sendTest();
+        showToastMessage('Habit reminders enabled 🔔', 'success');
+      } else {
+        await userAPI.updatePreferences({ notificationsEnabled: false });
+        await unsubscribeFromPush();
+        showToastMessage('Habit reminders disabled', 'info');
+      }
+      setNotificationsEnabled(enabled);
+    } catch (err: any) {
+      showToastMessage(err.response?.data?.message ?? err.message ?? 'Error updating notifications', 'error');
+    } finally {
+      setSavingNotifications(false);
+    }
+  };
+
+  const handleTimezoneChange = async (value: string) => {
+    setSavingTimezone(true);
+
+    try {
+      const response = await userAPI.updatePreferences({ timezone: value });
+      setTimezone(response.data.user.timezone);
+      if (user) {
+        updateUser({ ...user, timezone: response.data.user.timezone });
+      }
+      showToastMessage(`Timezone set to ${value}`, 'success');
+    } catch (err: any) {
+      showToastMessage(err.response?.data?.message ?? 'Error updating timezone', 'error');
+    } finally {
+      setSavingTimezone(false);
+    }
+  };
+
+  const handleFormulaChange = async (value: OneRepMaxFormula) => {
+    setSavingFormula(true);
+
+    try {
+      const response = await userAPI.updatePreferences({ oneRepMaxFormula: value });
+      setOneRepMaxFormula(response.data.user.oneRepMaxFormula);
+      if (user) {
+        updateUser({ ...user, oneRepMaxFormula: response.data.user.oneRepMaxFormula });
+      }
+      showToastMessage('1RM formula updated', 'success');
+    } catch (err: any) {
+      showToastMessage(err.response?.data?.message ?? 'Error updating 1RM formula', 'error');
+    } finally {
+      setSavingFormula(false);
+    }
+  };
+
+  const handleWeightUnitChange = async (value: WeightUnit) => {
+    setSavingWeightUnit(true);
+
+    try {
+      const response = await userAPI.updatePreferences({ weightUnit: value });
+      setWeightUnit(response.data.user.weightUnit);
+      if (user) {
+        updateUser({ ...user, weightUnit: response.data.user.weightUnit });
+      }
+      showToastMessage('Weight unit updated', 'success');
+    } catch (err: any) {
+      showToastMessage(err.response?.data?.message ?? 'Error updating weight unit', 'error');
+    } finally {
+      setSavingWeightUnit(false);
+    }
+  };
+
+  const handleDownload = async (download: (typeof DOWNLOADS)[number]) => {
+    setDownloading(download.id);
+
+    try {
+      const response = await download.request();
+      saveDownload(response.data, response.headers['content-disposition'], download.id);
+    } catch (err) {
+      console.error('Error downloading data:', err);
+      showToastMessage('Error downloading your data', 'error');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleRestore = async (file: File | undefined) => {
+    if (!file) return;
+    setRestoreErrors([]);
+
+    let archive: unknown;
+    try {
+      archive = JSON.parse(await file.text());
+    } catch {
+      showToastMessage('That file is not a valid JSON backup', 'error');
+      return;
+    }
+
+    if (
+      restoreMode === 'replace' &&
+      !confirm('Replace all your habits, workouts, templates, programs and measurements with this backup?')
+    ) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      const response = await importAPI.restoreArchive(archive, restoreMode);
+      const { habits, workouts } = response.data.summary;
+      showToastMessage(
+        `Backup restored: ${habits.created + habits.merged} habits, ${workouts.created} workouts added`,
+        'success'
+      );
+    } catch (err: any) {
+      setRestoreErrors(err.response?.data?.errors ?? []);
+      showToastMessage(err.response?.data?.message ?? 'Error restoring backup', 'error');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRevokeSession = async (id: string, current: boolean) => {
+    if (current && !confirm('Log out of this device?')) return;
+
+    try {
+      await authAPI.revokeSession(id);
+      if (current) {
+        await logout();
+        return;
+      }
+      setSessions(sessions.filter((session) => session.id !== id));
+      showToastMessage('Device logged out', 'success');
+    } catch (err: any) {
+      showToastMessage(err.response?.data?.message ?? 'Error logging out device', 'error');
+    }
+  };
+
+  const handleRevokeAllSessions = async () => {
+    if (!confirm('Log out of every device, including this one?')) return;
+
+    try {
+      await authAPI.revokeAllSessions();
+      await logout();
+    } catch (err: any) {
+      showToastMessage(err.response?.data?.message ?? 'Error logging out devices', 'error');
+    }
+  };
+
   if (!mounted) {
     return null;
   }
@@ -215,6 +433,20 @@ export default function ProfilePage() {
                       className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
                       placeholder="you@example.com"
                     />
+                    {user?.emailVerified ? (
+                      <p className="mt-2 text-sm text-green-600 dark:text-green-400">✓ Email verified</p>
+                    ) : (
+                      <p className="mt-2 text-sm text-yellow-700 dark:text-yellow-400">
+                        Email not verified.{' '}
+                        <button
+                          type="button"
+                          onClick={handleResendVerification}
+                          className="font-medium text-primary-600 dark:text-primary-400 hover:underline"
+                        >
+                          Resend verification link
+                        </button>
+                      </p>
+                    )}
                   </div>
                   <motion.button
                     type="submit"
@@ -398,6 +630,65 @@ export default function ProfilePage() {
                     )}
                   </motion.button>
                 </form>
+
+                <TwoFactorSettings showToast={showToastMessage} />
+
+                {/* Active Sessions */}
+                <div className="mt-10 pt-8 border-t border-gray-200 dark:border-gray-700">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Where You&apos;re Logged In</h3>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        Log out devices you don&apos;t recognise or no longer use
+                      </p>
+                    </div>
+                    {sessions.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={handleRevokeAllSessions}
+                        className="px-4 py-2 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 rounded-lg hover:bg-red-200 dark:hover:bg-red-900/50 transition text-sm font-medium"
+                      >
+                        Log Out Everywhere
+                      </button>
+                    )}
+                  </div>
+                  <div className="space-y-3">
+                    {sessions.map((session) => (
+                      <div
+                        key={session.id}
+                        className="flex items-center justify-between gap-3 p-4 border border-gray-200 dark:border-gray-700 rounded-xl"
+                      >
+                        <div className="flex items-center gap-3">
+                          <Monitor className="w-6 h-6 text-gray-500 dark:text-gray-400" />
+                          <div>
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {session.device}
+                              {session.current && (
+                                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                                  This device
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              Last active {format(new Date(session.lastSeenAt), 'MMM d, yyyy HH:mm')}
+                              {session.ip && ` · ${session.ip}`}
+                            </p>
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleRevokeSession(session.id, session.current)}
+                          className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition"
+                          aria-label={`Log out ${session.device}`}
+                        >
+                          <LogOut className="w-5 h-5" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <DeleteAccountSettings showToast={showToastMessage} />
               </motion.div>
             )}
 
@@ -486,17 +777,211 @@ export default function ProfilePage() {
                             Notifications
                           </h3>
                           <p className="text-sm text-gray-600 dark:text-gray-400">
-                            Enable habit reminders and workout notifications
+                            Push reminders at each habit&apos;s reminder time ({timezone})
                           </p>
                         </div>
                       </div>
                       <label className="relative inline-flex items-center cursor-pointer">
-                        <input type="checkbox" className="sr-only peer" defaultChecked />
+                        <input
+                          type="checkbox"
+                          className="sr-only peer"
+                          checked={notificationsEnabled}
+                          disabled={savingNotifications}
+                          onChange={(e) => handleNotificationsToggle(e.target.checked)}
+                        />
                         <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 dark:peer-focus:ring-primary-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-primary-600"></div>
                       </label>
                     </div>
                   </div>
 
+                  {/* Timezone Preference */}
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-4">
+                      <Globe className="w-6 h-6 text-gray-900 dark:text-white" />
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Timezone</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Decides which day your habits, streaks and workouts count towards
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <select
+                        value={timezone}
+                        disabled={savingTimezone}
+                        onChange={(e) => handleTimezoneChange(e.target.value)}
+                        className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      >
+                        {!timeZones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+                        {timeZones.map((zone) => (
+                          <option key={zone} value={zone}>
+                            {zone}
+                          </option>
+                        ))}
+                      </select>
+                      {getBrowserTimeZone() !== timezone && (
+                        <button
+                          type="button"
+                          disabled={savingTimezone}
+                          onClick={() => handleTimezoneChange(getBrowserTimeZone())}
+                          className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition text-sm font-medium"
+                        >
+                          Use this device&apos;s ({getBrowserTimeZone()})
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Weight Unit */}
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-4">
+                      <Scale className="w-6 h-6 text-gray-900 dark:text-white" />
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Weight Unit</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Charts, personal records and workout history are shown in this unit
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      {(['kg', 'lb'] as WeightUnit[]).map((unit) => (
+                        <button
+                          key={unit}
+                          type="button"
+                          disabled={savingWeightUnit}
+                          onClick={() => handleWeightUnitChange(unit)}
+                          className={`p-4 rounded-xl border-2 transition-all ${
+                            weightUnit === unit
+                              ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30'
+                              : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                          }`}
+                        >
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">
+                            {unit === 'kg' ? 'Kilograms (kg)' : 'Pounds (lb)'}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* One-Rep Max Formula */}
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-4">
+                      <Dumbbell className="w-6 h-6 text-gray-900 dark:text-white" />
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">1RM Formula</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          How estimated one-rep maxes are calculated in analytics and personal records
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {ONE_REP_MAX_FORMULAS.map((formula) => (
+                        <button
+                          key={formula.value}
+                          type="button"
+                          disabled={savingFormula}
+                          onClick={() => handleFormulaChange(formula.value)}
+                          className={`p-4 rounded-xl border-2 text-left transition-all ${
+                            oneRepMaxFormula === formula.value
+                              ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30'
+                              : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                          }`}
+                        >
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">{formula.label}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{formula.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Data Export */}
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-4">
+                      <Download className="w-6 h-6 text-gray-900 dark:text-white" />
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Download My Data</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Export your habits and workouts to a spreadsheet or keep a full backup
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      {DOWNLOADS.map((download) => (
+                        <button
+                          key={download.id}
+                          type="button"
+                          disabled={downloading !== null}
+                          onClick={() => handleDownload(download)}
+                          className="p-4 rounded-xl border-2 border-gray-200 dark:border-gray-700 hover:border-primary-500 transition text-left disabled:opacity-50"
+                        >
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">
+                            {downloading === download.id ? 'Preparing...' : download.label}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{download.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Data Restore */}
+                  <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-4">
+                      <Upload className="w-6 h-6 text-gray-900 dark:text-white" />
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Restore From Backup</h3>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Upload a full backup (JSON). Restoring the same backup twice adds nothing new.
+                        </p>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+                      {[
+                        { value: 'merge', label: 'Merge', description: 'Add what is missing, keep your current data' },
+                        { value: 'replace', label: 'Replace', description: 'Delete your current data first' },
+                      ].map((option) => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setRestoreMode(option.value as 'merge' | 'replace')}
+                          className={`p-4 rounded-xl border-2 transition text-left ${
+                            restoreMode === option.value
+                              ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/30'
+                              : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                          }`}
+                        >
+                          <div className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{option.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                    <label
+                      className={`inline-block px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition text-sm font-medium cursor-pointer ${
+                        restoring ? 'opacity-50 pointer-events-none' : ''
+                      }`}
+                    >
+                      {restoring ? 'Restoring...' : 'Choose Backup File'}
+                      <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                          handleRestore(e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                    {restoreErrors.length > 0 && (
+                      <ul className="mt-4 space-y-1 text-sm text-red-600 dark:text-red-400">
+                        {restoreErrors.map((error) => (
+                          <li key={error.path}>
+                            <code className="font-mono">{error.path}</code>: {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
                   {/* Additional Settings */}
                   <div className="border border-gray-200 dark:border-gray-700 rounded-xl p-6">
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
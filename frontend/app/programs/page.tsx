@@ -0,0 +1,720 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { programAPI } from '@/lib/api';
+import { getUserToday, toDateKey, toLocalDate, toLocalDay } from '@/lib/dates';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import AppLayout from '@/components/AppLayout';
+import Toast from '@/components/Toast';
+import { format } from 'date-fns';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, X, CalendarDays, Trash2 } from 'lucide-react';
+
+interface ProgramExercise {
+  name: string;
+  muscleGroup?: string | null;
+  equipment?: string | null;
+  sets: number;
+  reps: number;
+  progressionType: 'percentage' | 'fixed';
+  trainingMax?: number | null;
+  weekPercentages?: number[];
+  startWeight?: number | null;
+  increment?: number;
+}
+
+interface ProgramSession {
+  name: string;
+  dayOfWeek: number;
+  workoutType?: string | null;
+  exercises: ProgramExercise[];
+}
+
+interface Program {
+  _id: string;
+  name: string;
+  startDate: string;
+  weeks: number;
+  weightUnit: 'kg' | 'lb';
+  sessions: ProgramSession[];
+  status: 'active' | 'completed';
+  progress?: { total: number; completed: number; planned: number };
+}
+
+interface ScheduledWorkout {
+  _id: string;
+  date: string;
+  status: 'planned' | 'active' | 'paused' | 'completed';
+  programWeek: number;
+  sessionName: string | null;
+  exercises: Array<{
+    name: string;
+    targetSets?: number | null;
+    targetReps?: number | null;
+    targetWeight?: number | null;
+  }>;
+}
+
+// Form state keeps numeric inputs as strings until submit
+interface ExerciseForm {
+  name: string;
+  muscleGroup: string;
+  sets: string;
+  reps: string;
+  progressionType: 'percentage' | 'fixed';
+  trainingMax: string;
+  weekPercentages: string;
+  startWeight: string;
+  increment: string;
+}
+
+interface SessionForm {
+  name: string;
+  dayOfWeek: number;
+  workoutType: string;
+  exercises: ExerciseForm[];
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Full Body'];
+const WORKOUT_TYPES = ['Push', 'Pull', 'Legs', 'Full Body', 'Upper', 'Lower', 'Cardio', 'Other'];
+
+const emptyExercise = (): ExerciseForm => ({
+  name: '',
+  muscleGroup: '',
+  sets: '3',
+  reps: '5',
+  progressionType: 'fixed',
+  trainingMax: '',
+  weekPercentages: '65, 75, 85',
+  startWeight: '',
+  increment: '2.5',
+});
+
+const emptySession = (dayOfWeek: number): SessionForm => ({
+  name: '',
+  dayOfWeek,
+  workoutType: '',
+  exercises: [emptyExercise()],
+});
+
+const emptyForm = () => ({
+  name: '',
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  weeks: '12',
+  weightUnit: 'kg' as 'kg' | 'lb',
+  sessions: [emptySession(1)],
+});
+
+export default function ProgramsPage() {
+  const { user } = useAuth();
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedProgram, setExpandedProgram] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<Record<string, ScheduledWorkout[]>>({});
+  const [showModal, setShowModal] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  useEffect(() => {
+    fetchPrograms();
+  }, []);
+
+  const fetchPrograms = async () => {
+    try {
+      setLoading(true);
+      const response = await programAPI.getAll();
+      setPrograms(response.data.programs ?? []);
+    } catch (error) {
+      console.error('Error fetching programs:', error);
+      showToast('Failed to load programs', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSchedule = async (programId: string) => {
+    try {
+      const response = await programAPI.getById(programId);
+      setSchedules((prev) => ({ ...prev, [programId]: response.data.workouts ?? [] }));
+    } catch (error) {
+      console.error('Error fetching program schedule:', error);
+      showToast('Failed to load schedule', 'error');
+    }
+  };
+
+  const showToast = (message: string, type: 'success' | 'error' | 'info' = 'info') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 4000);
+  };
+
+  const toggleSchedule = (programId: string) => {
+    if (expandedProgram === programId) {
+      setExpandedProgram(null);
+    } else {
+      setExpandedProgram(programId);
+      fetchSchedule(programId);
+    }
+  };
+
+  const handleDelete = async (program: Program) => {
+    if (!confirm(`Delete "${program.name}"? Planned sessions will be removed; completed ones stay in your history.`)) return;
+    try {
+      await programAPI.delete(program._id);
+      showToast('Program deleted', 'success');
+      fetchPrograms();
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error deleting program', 'error');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await programAPI.create({
+        name: formData.name,
+        startDate: formData.startDate,
+        weeks: parseInt(formData.weeks) || 1,
+        weightUnit: formData.weightUnit,
+        sessions: formData.sessions.map((session) => ({
+          name: session.name,
+          dayOfWeek: session.dayOfWeek,
+          workoutType: session.workoutType || undefined,
+          exercises: session.exercises.map((exercise) => ({
+            name: exercise.name,
+            muscleGroup: exercise.muscleGroup || undefined,
+            sets: parseInt(exercise.sets) || 1,
+            reps: parseInt(exercise.reps) || 1,
+            progressionType: exercise.progressionType,
+            increment: parseFloat(exercise.increment) || 0,
+            ...(exercise.progressionType === 'percentage'
+              ? {
+                  trainingMax: parseFloat(exercise.trainingMax) || undefined,
+                  weekPercentages: exercise.weekPercentages
+                    .split(',')
+                    .map((p) => parseFloat(p.trim()))
+                    .filter((p) => !isNaN(p)),
+                }
+              : { startWeight: parseFloat(exercise.startWeight) || 0 }),
+          })),
+        })),
+      });
+
+      setShowModal(false);
+      setFormData(emptyForm());
+      showToast('Program created! Your sessions are on the calendar 📅', 'success');
+      fetchPrograms();
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error creating program', 'error');
+    }
+  };
+
+  const updateSession = (sessionIdx: number, changes: Partial<SessionForm>) => {
+    const sessions = [...formData.sessions];
+    sessions[sessionIdx] = { ...sessions[sessionIdx], ...changes };
+    setFormData({ ...formData, sessions });
+  };
+
+  const updateExercise = (sessionIdx: number, exerciseIdx: number, changes: Partial<ExerciseForm>) => {
+    const exercises = [...formData.sessions[sessionIdx].exercises];
+    exercises[exerciseIdx] = { ...exercises[exerciseIdx], ...changes };
+    updateSession(sessionIdx, { exercises });
+  };
+
+  // Group a program's scheduled workouts by program week
+  const groupByWeek = (workouts: ScheduledWorkout[]) =>
+    workouts.reduce<Record<number, ScheduledWorkout[]>>((weeks, workout) => {
+      (weeks[workout.programWeek] ??= []).push(workout);
+      return weeks;
+    }, {});
+
+  if (loading && programs.length === 0) {
+    return (
+      <ProtectedRoute>
+        <AppLayout>
+          <div className="flex items-center justify-center min-h-[60vh]">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+          </div>
+        </AppLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // Planned sessions are calendar dates; compare them with the user's today
+  const todayKey = toDateKey(getUserToday(user?.timezone));
+
+  return (
+    <ProtectedRoute>
+      <AppLayout>
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="mb-8"
+          >
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-white mb-2">
+                  Training Programs
+                </h1>
+                <p className="text-gray-600 dark:text-gray-400">
+                  Plan your training weeks ahead with automatic progression.
+                </p>
+              </div>
+              <motion.button
+                onClick={() => {
+                  setFormData(emptyForm());
+                  setShowModal(true);
+                }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="px-6 py-3 bg-gradient-to-r from-primary-600 to-primary-500 text-white rounded-xl hover:from-primary-700 hover:to-primary-600 transition font-semibold shadow-lg shadow-primary-500/50 flex items-center gap-2"
+              >
+                <Plus className="w-5 h-5" />
+                New Program
+              </motion.button>
+            </div>
+          </motion.div>
+
+          {/* Programs List */}
+          {programs.length === 0 ? (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md p-12 text-center">
+              <div className="text-6xl mb-4">📅</div>
+              <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">No programs yet</h3>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                Create a program like &quot;5/3/1&quot; or &quot;PPL 12 weeks&quot; to schedule your sessions.
+              </p>
+              <button
+                onClick={() => setShowModal(true)}
+                className="px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-semibold"
+              >
+                Create Your First Program
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {programs.map((program) => {
+                const progress = program.progress ?? { total: 0, completed: 0, planned: 0 };
+                const percentage = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+                const isExpanded = expandedProgram === program._id;
+                const schedule = schedules[program._id] ?? [];
+
+                return (
+                  <motion.div
+                    key={program._id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-100 dark:border-gray-700"
+                  >
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                      <div className="flex-1">
+                        <h3 className="text-xl font-bold text-gray-900 dark:text-white">{program.name}</h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                          {program.weeks} weeks • starts {format(toLocalDate(program.startDate), 'MMM d, yyyy')} •{' '}
+                          {program.sessions.map((s) => DAY_NAMES[s.dayOfWeek]).join(' / ')}
+                        </p>
+                        <div className="flex items-center gap-3 mt-3">
+                          <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-primary-600 rounded-full transition-all duration-500"
+                              style={{ width: `${percentage}%` }}
+                            />
+                          </div>
+                          <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                            {progress.completed} / {progress.total} sessions
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => toggleSchedule(program._id)}
+                          className="px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition text-sm font-medium flex items-center gap-2"
+                        >
+                          <CalendarDays className="w-4 h-4" />
+                          {isExpanded ? 'Hide' : 'View'} Schedule
+                        </button>
+                        <button
+                          onClick={() => handleDelete(program)}
+                          className="px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition text-sm font-medium"
+                          aria-label="Delete program"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Calendar */}
+                    {isExpanded && (
+                      <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                        {Object.entries(groupByWeek(schedule)).map(([week, workouts]) => (
+                          <div key={week}>
+                            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Week {week}</h4>
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                              {workouts.map((workout) => {
+                                // Trained sessions carry the time they were started
+                                const day =
+                                  workout.status === 'planned' ? workout.date : toLocalDay(workout.date, user?.timezone);
+                                const isToday = toDateKey(day) === todayKey;
+                                return (
+                                  <div
+                                    key={workout._id}
+                                    className={`p-3 rounded-lg border text-sm ${
+                                      workout.status === 'completed'
+                                        ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
+                                        : isToday
+                                        ? 'bg-primary-50 dark:bg-primary-900/20 border-primary-300 dark:border-primary-700'
+                                        : 'bg-gray-50 dark:bg-gray-700/50 border-gray-200 dark:border-gray-700'
+                                    }`}
+                                  >
+                                    <div className="flex items-center justify-between mb-1">
+                                      <span className="font-semibold text-gray-900 dark:text-white">
+                                        {workout.sessionName}
+                                      </span>
+                                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                                        {format(toLocalDate(day), 'EEE, MMM d')}
+                                        {workout.status === 'completed' && ' ✅'}
+                                      </span>
+                                    </div>
+                                    {workout.exercises.map((exercise, idx) => (
+                                      <div key={idx} className="text-xs text-gray-600 dark:text-gray-400">
+                                        {exercise.name}: {exercise.targetSets} × {exercise.targetReps}
+                                        {exercise.targetWeight !== null && exercise.targetWeight !== undefined
+                                          ? ` @ ${exercise.targetWeight} ${program.weightUnit}`
+                                          : ''}
+                                      </div>
+                                    ))}
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </motion.div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Create Program Modal */}
+          <AnimatePresence>
+            {showModal && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 overflow-y-auto"
+                onClick={() => setShowModal(false)}
+              >
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.9, y: 20 }}
+                  animate={{ opacity: 1, scale: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.9, y: 20 }}
+                  transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-4xl w-full p-6 md:p-8 my-8 max-h-[90vh] overflow-y-auto border border-gray-200 dark:border-gray-700"
+                >
+                  <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">New Program</h2>
+                    <button
+                      onClick={() => setShowModal(false)}
+                      className="p-2 rounded-lg text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+                      aria-label="Close modal"
+                    >
+                      <X className="w-6 h-6" />
+                    </button>
+                  </div>
+
+                  <form onSubmit={handleSubmit} className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Program Name</label>
+                        <input
+                          type="text"
+                          required
+                          value={formData.name}
+                          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                          placeholder="e.g., 5/3/1, PPL 12 weeks"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+                        <input
+                          type="date"
+                          required
+                          value={formData.startDate}
+                          onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <div className="flex-1">
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Weeks</label>
+                          <input
+                            type="number"
+                            required
+                            min="1"
+                            max="52"
+                            value={formData.weeks}
+                            onChange={(e) => setFormData({ ...formData, weeks: e.target.value })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Unit</label>
+                          <select
+                            value={formData.weightUnit}
+                            onChange={(e) => setFormData({ ...formData, weightUnit: e.target.value as 'kg' | 'lb' })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                          >
+                            <option value="kg">kg</option>
+                            <option value="lb">lb</option>
+                          </select>
+                        </div>
+                      </div>
+                    </div>
+
+                    {/* Sessions */}
+                    <div>
+                      <div className="flex justify-between items-center mb-2">
+                        <label className="block text-sm font-medium text-gray-700">Weekly Sessions</label>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setFormData({
+                              ...formData,
+                              sessions: [...formData.sessions, emptySession((formData.sessions.length * 2 + 1) % 7)],
+                            })
+                          }
+                          className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                        >
+                          + Add Session
+                        </button>
+                      </div>
+
+                      <div className="space-y-4">
+                        {formData.sessions.map((session, sessionIdx) => (
+                          <div key={sessionIdx} className="border border-gray-300 rounded-lg p-4 bg-gray-50">
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-3">
+                              <input
+                                type="text"
+                                required
+                                value={session.name}
+                                onChange={(e) => updateSession(sessionIdx, { name: e.target.value })}
+                                placeholder="Session name (e.g., Squat Day)"
+                                className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                              />
+                              <select
+                                value={session.dayOfWeek}
+                                onChange={(e) => updateSession(sessionIdx, { dayOfWeek: parseInt(e.target.value) })}
+                                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                              >
+                                {DAY_NAMES.map((day, index) => (
+                                  <option key={day} value={index}>
+                                    {day}
+                                  </option>
+                                ))}
+                              </select>
+                              <div className="flex gap-2">
+                                <select
+                                  value={session.workoutType}
+                                  onChange={(e) => updateSession(sessionIdx, { workoutType: e.target.value })}
+                                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                                >
+                                  <option value="">Type...</option>
+                                  {WORKOUT_TYPES.map((type) => (
+                                    <option key={type} value={type}>
+                                      {type}
+                                    </option>
+                                  ))}
+                                </select>
+                                {formData.sessions.length > 1 && (
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      setFormData({
+                                        ...formData,
+                                        sessions: formData.sessions.filter((_, i) => i !== sessionIdx),
+                                      })
+                                    }
+                                    className="px-2 text-red-600 hover:text-red-700 text-xl"
+                                    aria-label="Remove session"
+                                  >
+                                    ×
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+
+                            <div className="space-y-3">
+                              {session.exercises.map((exercise, exerciseIdx) => (
+                                <div key={exerciseIdx} className="bg-white rounded-lg p-3 border border-gray-200 space-y-2">
+                                  <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                                    <input
+                                      type="text"
+                                      required
+                                      value={exercise.name}
+                                      onChange={(e) => updateExercise(sessionIdx, exerciseIdx, { name: e.target.value })}
+                                      placeholder="Exercise"
+                                      className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                    />
+                                    <select
+                                      value={exercise.muscleGroup}
+                                      onChange={(e) => updateExercise(sessionIdx, exerciseIdx, { muscleGroup: e.target.value })}
+                                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                    >
+                                      <option value="">Muscle...</option>
+                                      {MUSCLE_GROUPS.map((group) => (
+                                        <option key={group} value={group}>
+                                          {group}
+                                        </option>
+                                      ))}
+                                    </select>
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      required
+                                      value={exercise.sets}
+                                      onChange={(e) => updateExercise(sessionIdx, exerciseIdx, { sets: e.target.value })}
+                                      placeholder="Sets"
+                                      title="Sets"
+                                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                    />
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      required
+                                      value={exercise.reps}
+                                      onChange={(e) => updateExercise(sessionIdx, exerciseIdx, { reps: e.target.value })}
+                                      placeholder="Reps"
+                                      title="Reps"
+                                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                    />
+                                    <select
+                                      value={exercise.progressionType}
+                                      onChange={(e) =>
+                                        updateExercise(sessionIdx, exerciseIdx, {
+                                          progressionType: e.target.value as 'percentage' | 'fixed',
+                                        })
+                                      }
+                                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                    >
+                                      <option value="fixed">+ Fixed / week</option>
+                                      <option value="percentage">% of TM</option>
+                                    </select>
+                                  </div>
+                                  <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+                                    {exercise.progressionType === 'percentage' ? (
+                                      <>
+                                        <input
+                                          type="number"
+                                          min="0"
+                                          step="0.5"
+                                          required
+                                          value={exercise.trainingMax}
+                                          onChange={(e) => updateExercise(sessionIdx, exerciseIdx, { trainingMax: e.target.value })}
+                                          placeholder={`Training max (${formData.weightUnit})`}
+                                          className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                        />
+                                        <input
+                                          type="text"
+                                          required
+                                          value={exercise.weekPercentages}
+                                          onChange={(e) =>
+                                            updateExercise(sessionIdx, exerciseIdx, { weekPercentages: e.target.value })
+                                          }
+                                          placeholder="Weekly % (e.g., 65, 75, 85)"
+                                          title="Percentages of training max, one per week, repeated as a cycle"
+                                          className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                        />
+                                      </>
+                                    ) : (
+                                      <input
+                                        type="number"
+                                        min="0"
+                                        step="0.5"
+                                        required
+                                        value={exercise.startWeight}
+                                        onChange={(e) => updateExercise(sessionIdx, exerciseIdx, { startWeight: e.target.value })}
+                                        placeholder={`Start weight (${formData.weightUnit})`}
+                                        className="col-span-4 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                      />
+                                    )}
+                                    <input
+                                      type="number"
+                                      step="0.5"
+                                      value={exercise.increment}
+                                      onChange={(e) => updateExercise(sessionIdx, exerciseIdx, { increment: e.target.value })}
+                                      placeholder="Increment"
+                                      title={
+                                        exercise.progressionType === 'percentage'
+                                          ? 'Added to the training max after each cycle'
+                                          : 'Added to the weight every week'
+                                      }
+                                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                                    />
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        updateSession(sessionIdx, {
+                                          exercises: session.exercises.filter((_, i) => i !== exerciseIdx),
+                                        })
+                                      }
+                                      disabled={session.exercises.length === 1}
+                                      className="px-3 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition text-sm font-medium disabled:opacity-50"
+                                    >
+                                      Remove
+                                    </button>
+                                  </div>
+                                </div>
+                              ))}
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  updateSession(sessionIdx, { exercises: [...session.exercises, emptyExercise()] })
+                                }
+                                className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                              >
+                                + Add Exercise
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex gap-3 pt-4 border-t border-gray-200">
+                      <button
+                        type="button"
+                        onClick={() => setShowModal(false)}
+                        className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition font-medium"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-medium"
+                      >
+                        Create Program
+                      </button>
+                    </div>
+                  </form>
+                </motion.div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Toast Notification */}
+          {toast && (
+            <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
+          )}
+        </div>
+      </AppLayout>
+    </ProtectedRoute>
+  );
+}
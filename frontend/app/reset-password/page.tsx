@@ -0,0 +1,156 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { authAPI } from '@/lib/api';
+import AuthCard from '@/components/AuthCard';
+import { Eye, EyeOff, Lock, ArrowRight } from 'lucide-react';
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get('token') ?? '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await authAPI.resetPassword({ token, password });
+      setDone(true);
+    } catch (err: any) {
+      setError(err.response?.data?.message ?? 'Could not reset your password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthCard title="Reset Password" subtitle="This page needs the link from your reset email">
+        <Link href="/forgot-password" className="font-medium text-primary-600 dark:text-primary-400 hover:underline">
+          Request a new reset link →
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  if (done) {
+    return (
+      <AuthCard title="Password Reset" subtitle="Your password has been changed and every device was logged out">
+        <Link
+          href="/login"
+          className="w-full flex items-center justify-center gap-2 py-3 px-4 rounded-xl text-white bg-gradient-to-r from-primary-600 to-primary-500 hover:from-primary-700 hover:to-primary-600 font-semibold shadow-lg shadow-primary-500/50 transition"
+        >
+          Sign in
+          <ArrowRight className="w-5 h-5" />
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a New Password" subtitle="You'll be logged out on all your devices">
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-700 dark:text-red-400 text-sm"
+        >
+          {error}
+          {error.includes('expired') && (
+            <Link href="/forgot-password" className="block mt-2 font-medium underline">
+              Request a new reset link
+            </Link>
+          )}
+        </motion.div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {[
+          { id: 'password', label: 'New password', value: password, onChange: setPassword },
+          { id: 'confirmPassword', label: 'Confirm new password', value: confirmPassword, onChange: setConfirmPassword },
+        ].map((field) => (
+          <div key={field.id}>
+            <label htmlFor={field.id} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {field.label}
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Lock className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                id={field.id}
+                name={field.id}
+                type={showPassword ? 'text' : 'password'}
+                autoComplete="new-password"
+                required
+                value={field.value}
+                onChange={(e) => {
+                  field.onChange(e.target.value);
+                  setError('');
+                }}
+                className="block w-full pl-10 pr-10 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition"
+                placeholder="At least 6 characters"
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              >
+                {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <motion.button
+          type="submit"
+          disabled={loading}
+          whileHover={{ scale: loading ? 1 : 1.02 }}
+          whileTap={{ scale: loading ? 1 : 0.98 }}
+          className="w-full flex items-center justify-center gap-2 py-3 px-4 border border-transparent rounded-xl text-white bg-gradient-to-r from-primary-600 to-primary-500 hover:from-primary-700 hover:to-primary-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed font-semibold shadow-lg shadow-primary-500/50 transition"
+        >
+          {loading ? (
+            <>
+              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              Reset password
+              <ArrowRight className="w-5 h-5" />
+            </>
+          )}
+        </motion.button>
+      </form>
+    </AuthCard>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be prerendered
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { authAPI } from '@/lib/api';
+import AuthCard from '@/components/AuthCard';
+import { ArrowRight, MailCheck } from 'lucide-react';
+
+const continueLinkClass =
+  'w-full flex items-center justify-center gap-2 py-3 px-4 rounded-xl text-white bg-gradient-to-r from-primary-600 to-primary-500 hover:from-primary-700 hover:to-primary-600 font-semibold shadow-lg shadow-primary-500/50 transition';
+
+function VerifyEmailContent() {
+  const token = useSearchParams().get('token');
+  const { user, loading, updateUser } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+  const [resendState, setResendState] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const requested = useRef(false);
+
+  // Tokens are single-use, so only send it once even when effects run twice
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    authAPI
+      .verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err) => {
+        setError(err.response?.data?.message ?? 'Could not verify your email');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  useEffect(() => {
+    if (status === 'verified' && user && !user.emailVerified) {
+      updateUser({ ...user, emailVerified: true });
+    }
+  }, [status, user]);
+
+  const handleResend = async () => {
+    setResendState('sending');
+    setError('');
+
+    try {
+      await authAPI.resendVerification();
+      setResendState('sent');
+    } catch (err: any) {
+      setError(err.response?.data?.message ?? 'Could not send the verification email');
+      setResendState('idle');
+    }
+  };
+
+  const resendButton = user && !user.emailVerified && (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {resendState === 'sent' ? (
+        <p className="text-sm text-green-600 dark:text-green-400">A new link is on its way to {user.email}.</p>
+      ) : (
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={resendState === 'sending'}
+          className="w-full py-3 px-4 rounded-xl border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium transition disabled:opacity-50"
+        >
+          {resendState === 'sending' ? 'Sending...' : 'Resend verification email'}
+        </button>
+      )}
+    </div>
+  );
+
+  if (token && status === 'verifying') {
+    return (
+      <AuthCard title="Verifying..." subtitle="Confirming your email address">
+        <div className="flex justify-center">
+          <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      </AuthCard>
+    );
+  }
+
+  if (status === 'verified' || (!token && user?.emailVerified)) {
+    return (
+      <AuthCard title="Email Verified" subtitle="Thanks for confirming your email address">
+        <Link href={user ? '/dashboard' : '/login'} className={continueLinkClass}>
+          {user ? 'Go to dashboard' : 'Sign in'}
+          <ArrowRight className="w-5 h-5" />
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  if (token) {
+    return (
+      <AuthCard title="Link Not Valid" subtitle={error}>
+        {resendButton || (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Sign in to send yourself a new verification link.
+          </p>
+        )}
+      </AuthCard>
+    );
+  }
+
+  if (loading) {
+    return null;
+  }
+
+  if (!user) {
+    return (
+      <AuthCard title="Verify Your Email" subtitle="Open the link from your verification email to confirm your address">
+        <Link href="/login" className={continueLinkClass}>
+          Sign in
+          <ArrowRight className="w-5 h-5" />
+        </Link>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Check Your Email" subtitle={`We sent a verification link to ${user.email}`}>
+      <div className="space-y-6">
+        <div className="flex items-center gap-3 p-4 bg-primary-50 dark:bg-primary-900/20 rounded-xl text-sm text-gray-700 dark:text-gray-300">
+          <MailCheck className="w-6 h-6 text-primary-600 dark:text-primary-400 flex-shrink-0" />
+          Open the link to confirm your address. It expires in 24 hours.
+        </div>
+        {resendButton}
+        <Link href="/dashboard" className={continueLinkClass}>
+          Continue to dashboard
+          <ArrowRight className="w-5 h-5" />
+        </Link>
+      </div>
+    </AuthCard>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to be prerendered
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmailContent />
+    </Suspense>
+  );
+}
@@ -1,11 +1,48 @@
 'use client';
 
 import { useEffect, useState, useCallback, useMemo } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
-import { workoutAPI } from '@/lib/api';
+import { workoutAPI, templateAPI } from '@/lib/api';
+import { offlineWorkoutAPI, PersonalRecord, subscribeToSyncState } from '@/lib/offlineQueue';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import AppLayout from '@/components/AppLayout';
 import Toast from '@/components/Toast';
+import WorkoutImportModal from '@/components/WorkoutImportModal';
+import MyExercisesModal from '@/components/MyExercisesModal';
+import CustomExerciseModal from '@/components/CustomExerciseModal';
+import RestTimer, { DEFAULT_REST_SECONDS, getRestPreference, saveRestPreference } from '@/components/RestTimer';
+import PRCelebration from '@/components/PRCelebration';
+import StrictModeDroppable from '@/components/StrictModeDroppable';
+import { bestOneRepMax } from '@/lib/oneRepMax';
+import { normalizeWorkout, WeightUnit } from '@/lib/weights';
+import {
+  countedSets,
+  getGroupLabel,
+  getNextInGroup,
+  getSetTypeLabel,
+  GROUP_TYPES,
+  GroupType,
+  SET_TYPES,
+  SetType,
+  toExerciseBlocks,
+} from '@/lib/exerciseGroups';
+import {
+  cardioTotals,
+  defaultTrackingType,
+  describeSet,
+  formatDistance,
+  formatDuration,
+  formatPace,
+  getMissingSetFields,
+  getTrackingType,
+  isCardioTracking,
+  isRepTracking,
+  loadedSets,
+  parseDuration,
+  TRACKING_TYPES,
+  TrackingType,
+} from '@/lib/tracking';
 import {
   format,
   startOfWeek,
@@ -31,24 +68,38 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
+import { DragDropContext, Draggable, DropResult } from 'react-beautiful-dnd';
+import { Check, GripVertical, Pencil, Trash2, X } from 'lucide-react';
 
 // Types
 interface Set {
   reps: number;
   weight: number;
+  duration?: number | null;
+  distance?: number | null;
   restTime?: number | null;
   rpe?: number | null;
   completed?: boolean;
+  setType?: SetType;
+  loggedAt?: string | null;
   _id?: string;
+  clientId?: string | null;
 }
 
 interface Exercise {
   name: string;
   muscleGroup?: string | null;
   equipment?: string | null;
+  trackingType?: TrackingType;
   sets: Set[];
   order?: number;
+  targetSets?: number | null;
+  targetReps?: number | null;
+  targetWeight?: number | null;
+  groupId?: string | null;
+  groupType?: GroupType | null;
   _id?: string;
+  clientId?: string | null;
 }
 
 interface Workout {
@@ -63,19 +114,45 @@ interface Workout {
   pausedDuration?: number;
   pausedAt?: string | null;
   workoutType?: string | null;
+  programId?: string | null;
+  programWeek?: number | null;
+  sessionName?: string | null;
   caloriesBurned?: number | null;
   weightUnit?: 'kg' | 'lb';
+  // Bodyweight at the workout date, counted in bodyweight exercises' volume
+  bodyweight?: number | null;
   totalVolume?: number;
   elapsedDuration?: number;
   createdAt?: string;
   updatedAt?: string;
 }
 
+interface WorkoutTemplate {
+  _id: string;
+  name: string;
+  workoutType?: string | null;
+  weightUnit?: 'kg' | 'lb';
+  exercises: Array<{
+    name: string;
+    muscleGroup?: string | null;
+    equipment?: string | null;
+    trackingType?: TrackingType;
+    targetSets?: number | null;
+    targetReps?: number | null;
+    targetWeight?: number | null;
+    order?: number;
+  }>;
+  usageCount?: number;
+  lastUsedAt?: string | null;
+}
+
 interface ExerciseLibraryItem {
   name: string;
   muscleGroup: string;
   equipment: string;
+  trackingType: TrackingType;
   usageCount: number;
+  isCustom?: boolean;
 }
 
 interface ToastState {
@@ -83,9 +160,33 @@ interface ToastState {
   type: 'success' | 'error' | 'info';
 }
 
-const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Full Body'];
+const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Full Body', 'Other'];
 const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Bodyweight', 'Cable', 'Kettlebell', 'Other'];
 const WORKOUT_TYPES = ['Push', 'Pull', 'Legs', 'Full Body', 'Upper', 'Lower', 'Cardio', 'Other'];
+const REST_MIN_SECONDS = 15;
+
+// A copy of `items` with the one at `from` moved to `to`
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+// When the latest set of a live workout was logged, if it was of the exercise at `exerciseIndex`
+// or of its group: the rest before that exercise's next set is timed from it. Moving on to
+// another exercise starts over. Read from the workout, so it survives a reload.
+const getRestStart = (exercises: Exercise[], exerciseIndex: number) => {
+  const logged = exercises.flatMap((exercise, index) =>
+    exercise.sets.filter((set) => set.loggedAt).map((set) => ({ index, time: new Date(set.loggedAt!).getTime() }))
+  );
+  if (logged.length === 0) return null;
+
+  const latest = logged.reduce((last, entry) => (entry.time > last.time ? entry : last));
+  const groupId = exercises[exerciseIndex]?.groupId;
+  const sameExercise = latest.index === exerciseIndex || (!!groupId && exercises[latest.index].groupId === groupId);
+  return sameExercise ? latest.time : null;
+};
 
 const COLORS = ['#0ea5e9', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#ef4444', '#6366f1'];
 
@@ -98,9 +199,28 @@ export default function WorkoutsPage() {
   const [analytics, setAnalytics] = useState<any>(null);
   const [prs, setPRs] = useState<any>({});
   const [exerciseLibrary, setExerciseLibrary] = useState<ExerciseLibraryItem[]>([]);
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
   const [toast, setToast] = useState<ToastState | null>(null);
   const [timer, setTimer] = useState(0);
   const [timerInterval, setTimerInterval] = useState<NodeJS.Timeout | null>(null);
+  const [restTimer, setRestTimer] = useState<{ exerciseName: string; duration: number; endsAt: number } | null>(null);
+  const [newRecords, setNewRecords] = useState<PersonalRecord[]>([]);
+  // Set type picked for the next set of each exercise in the active workout
+  const [nextSetTypes, setNextSetTypes] = useState<Record<number, SetType>>({});
+  // The grouped exercise to do next, after a set of one of its group
+  const [upNextExercise, setUpNextExercise] = useState<number | null>(null);
+  // Exercises ticked while building a superset/circuit; null when not grouping
+  const [groupSelection, setGroupSelection] = useState<number[] | null>(null);
+  const [newGroupType, setNewGroupType] = useState<GroupType>('superset');
+  // The set of the active workout being corrected inline, with its inputs as typed
+  const [editingSet, setEditingSet] = useState<{
+    exerciseIndex: number;
+    setIndex: number;
+    reps: string;
+    weight: string;
+    rpe: string;
+  } | null>(null);
 
   // UI State
   const [dateFilter, setDateFilter] = useState<'today' | 'week' | 'custom'>('week');
@@ -112,8 +232,16 @@ export default function WorkoutsPage() {
   const [sortBy, setSortBy] = useState<'date' | 'volume' | 'duration'>('date');
   const [showManualLogModal, setShowManualLogModal] = useState(false);
   const [showActiveWorkoutModal, setShowActiveWorkoutModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showMyExercises, setShowMyExercises] = useState(false);
+  // The manual log row whose name is being turned into a custom exercise
+  const [creatingExercise, setCreatingExercise] = useState<{ exIdx: number; name: string } | null>(null);
   const [expandedWorkout, setExpandedWorkout] = useState<string | null>(null);
-  const [weightUnit, setWeightUnit] = useState<'kg' | 'lb'>('kg');
+  // Unit of a manually logged workout; history is shown in the user's preferred unit
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(user?.weightUnit ?? 'kg');
+  const displayUnit = user?.weightUnit ?? 'kg';
+  // Sets of the active workout are stored in the unit it was started with
+  const activeUnit = activeWorkout?.weightUnit ?? displayUnit;
 
   // Exercise autocomplete state
   const [exerciseSearch, setExerciseSearch] = useState<Record<number, string>>({});
@@ -136,6 +264,18 @@ export default function WorkoutsPage() {
     checkActiveWorkout();
   }, []);
 
+  // Reload from the server once offline changes have finished syncing
+  useEffect(() => {
+    let wasSyncing = false;
+    return subscribeToSyncState(({ pending, syncing }) => {
+      if (wasSyncing && !syncing && pending === 0) {
+        fetchAllData();
+        updateTimer();
+      }
+      wasSyncing = syncing;
+    });
+  }, []);
+
   // Timer for active workout
   useEffect(() => {
     if (activeWorkout && activeWorkout.status === 'active') {
@@ -152,10 +292,10 @@ export default function WorkoutsPage() {
 
   const updateTimer = async () => {
     try {
-      const response = await workoutAPI.getActive();
-      if (response.data.workout) {
-        setActiveWorkout(response.data.workout);
-        setTimer(response.data.workout.elapsedDuration ?? 0);
+      const workout = await offlineWorkoutAPI.getActive();
+      if (workout) {
+        setActiveWorkout(workout);
+        setTimer(workout.elapsedDuration ?? 0);
       }
     } catch (error) {
       console.error('Error updating timer:', error);
@@ -165,17 +305,19 @@ export default function WorkoutsPage() {
   const fetchAllData = async () => {
     try {
       setLoading(true);
-      const [workoutsRes, statsRes, analyticsRes, prsRes] = await Promise.all([
+      const [workoutsRes, statsRes, analyticsRes, prsRes, templatesRes] = await Promise.all([
         workoutAPI.getAll(),
         workoutAPI.getStats(),
         workoutAPI.getAnalytics({ days: 90 }),
         workoutAPI.getPRs(),
+        templateAPI.getAll(),
       ]);
 
       setWorkouts(workoutsRes.data.workouts ?? []);
       setStats(statsRes.data);
       setAnalytics(analyticsRes.data);
       setPRs(prsRes.data.prs ?? {});
+      setTemplates(templatesRes.data.templates ?? []);
     } catch (error: any) {
       showToast(error.response?.data?.message ?? 'Error fetching data', 'error');
     } finally {
@@ -185,10 +327,10 @@ export default function WorkoutsPage() {
 
   const checkActiveWorkout = async () => {
     try {
-      const response = await workoutAPI.getActive();
-      if (response.data.workout) {
-        setActiveWorkout(response.data.workout);
-        setTimer(response.data.workout.elapsedDuration ?? 0);
+      const workout = await offlineWorkoutAPI.getActive();
+      if (workout) {
+        setActiveWorkout(workout);
+        setTimer(workout.elapsedDuration ?? 0);
         setShowActiveWorkoutModal(true);
       }
     } catch (error) {
@@ -213,11 +355,16 @@ export default function WorkoutsPage() {
   // Start Workout
   const handleStartWorkout = async () => {
     try {
-      const response = await workoutAPI.start({ weightUnit });
-      setActiveWorkout(response.data.workout);
+      // A template carries its own weight unit and exercise list
+      const template = templates.find((t) => t._id === selectedTemplateId);
+      const { workout, queued } = await offlineWorkoutAPI.start(
+        template ? { templateId: template._id, weightUnit: template.weightUnit } : { weightUnit: displayUnit },
+        template?.exercises.map((exercise) => ({ ...exercise, sets: [] }))
+      );
+      setActiveWorkout(workout);
       setTimer(0);
       setShowActiveWorkoutModal(true);
-      showToast('Workout started! 💪', 'success');
+      showToast(queued ? 'Workout started offline! 💪 It will sync when you are back online' : 'Workout started! 💪', 'success');
     } catch (error: any) {
       if (error.response?.data?.activeWorkoutId) {
         setShowActiveWorkoutModal(true);
@@ -230,8 +377,8 @@ export default function WorkoutsPage() {
   const handlePauseWorkout = async () => {
     if (!activeWorkout) return;
     try {
-      const response = await workoutAPI.pause(activeWorkout._id);
-      setActiveWorkout(response.data.workout);
+      const { workout } = await offlineWorkoutAPI.pause(activeWorkout);
+      setActiveWorkout(workout);
       showToast('Workout paused', 'info');
     } catch (error: any) {
       showToast(error.response?.data?.message ?? 'Error pausing workout', 'error');
@@ -241,8 +388,8 @@ export default function WorkoutsPage() {
   const handleResumeWorkout = async () => {
     if (!activeWorkout) return;
     try {
-      const response = await workoutAPI.resume(activeWorkout._id);
-      setActiveWorkout(response.data.workout);
+      const { workout } = await offlineWorkoutAPI.resume(activeWorkout);
+      setActiveWorkout(workout);
       showToast('Workout resumed! 💪', 'success');
     } catch (error: any) {
       showToast(error.response?.data?.message ?? 'Error resuming workout', 'error');
@@ -254,23 +401,39 @@ export default function WorkoutsPage() {
     if (!confirm('End workout? All progress will be saved.')) return;
 
     try {
-      await workoutAPI.end(activeWorkout._id);
+      const { queued } = await offlineWorkoutAPI.end(activeWorkout);
       setActiveWorkout(null);
       setShowActiveWorkoutModal(false);
       setTimer(0);
-      showToast('Workout completed! 🎉', 'success');
-      fetchAllData();
+      setRestTimer(null);
+      setNewRecords([]);
+      setNextSetTypes({});
+      setUpNextExercise(null);
+      setGroupSelection(null);
+      setEditingSet(null);
+      if (queued) {
+        // History and stats refresh once the queue has synced
+        showToast('Workout saved offline! 🎉 It will sync when you are back online', 'success');
+      } else {
+        showToast('Workout completed! 🎉', 'success');
+        fetchAllData();
+      }
     } catch (error: any) {
       showToast(error.response?.data?.message ?? 'Error ending workout', 'error');
     }
   };
 
   // Add Exercise to Active Workout
-  const handleAddExerciseToActive = async (exercise: { name: string; muscleGroup?: string; equipment?: string }) => {
+  const handleAddExerciseToActive = async (exercise: {
+    name: string;
+    muscleGroup?: string;
+    equipment?: string;
+    trackingType?: TrackingType;
+  }) => {
     if (!activeWorkout) return;
     try {
-      const response = await workoutAPI.addExercise(activeWorkout._id, exercise);
-      setActiveWorkout(response.data.workout);
+      const { workout } = await offlineWorkoutAPI.addExercise(activeWorkout, exercise);
+      setActiveWorkout(workout);
       showToast('Exercise added!', 'success');
     } catch (error: any) {
       showToast(error.response?.data?.message ?? 'Error adding exercise', 'error');
@@ -281,26 +444,220 @@ export default function WorkoutsPage() {
   const handleAddSetToActive = async (exerciseIndex: number, set: Set) => {
     if (!activeWorkout) return;
     try {
+      const loggedAt = Date.now();
+      const restStart = getRestStart(activeWorkout.exercises, exerciseIndex);
       const setData = {
         reps: set.reps,
         weight: set.weight,
-        restTime: set.restTime ?? undefined,
+        duration: set.duration ?? undefined,
+        distance: set.distance ?? undefined,
+        restTime:
+          set.restTime ?? (restStart ? Math.round((loggedAt - restStart) / 1000) : undefined),
         rpe: set.rpe ?? undefined,
         completed: set.completed ?? undefined,
+        setType: set.setType ?? undefined,
       };
-      const response = await workoutAPI.addSet(activeWorkout._id, exerciseIndex, setData);
-      setActiveWorkout(response.data.workout);
+      const { workout, personalRecords } = await offlineWorkoutAPI.addSet(activeWorkout, exerciseIndex, setData);
+      setActiveWorkout(workout);
+      if (personalRecords.length > 0) setNewRecords(personalRecords);
+
+      // Grouped exercises are done back to back: move on to the next one, and rest
+      // only once the round is complete
+      const nextExercise = getNextInGroup(workout.exercises, exerciseIndex);
+      setUpNextExercise(nextExercise);
+      if (nextExercise !== null && nextExercise > exerciseIndex) {
+        setRestTimer(null);
+        document.getElementById(`active-exercise-${nextExercise}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        return;
+      }
+
+      const exerciseName = workout.exercises[exerciseIndex].name;
+      const duration = getDefaultRestSeconds(exerciseName);
+      setRestTimer({ exerciseName, duration, endsAt: loggedAt + duration * 1000 });
     } catch (error: any) {
       showToast(error.response?.data?.message ?? 'Error adding set', 'error');
     }
   };
 
+  // Exercise positions change when one is moved or removed, so state kept per position is reset
+  const resetExercisePositions = () => {
+    setNextSetTypes({});
+    setUpNextExercise(null);
+    setGroupSelection(null);
+    setEditingSet(null);
+  };
+
+  // Group exercises of the active workout, or ungroup them with `groupType: null`
+  const handleGroupExercises = async (exerciseIndexes: number[], groupType: GroupType | null) => {
+    if (!activeWorkout) return;
+    try {
+      const { workout } = await offlineWorkoutAPI.groupExercises(activeWorkout, exerciseIndexes, groupType);
+      setActiveWorkout(workout);
+      // Grouping moves the exercises of each group next to each other
+      resetExercisePositions();
+      showToast(groupType ? `${getGroupLabel(groupType)} created! 🔗` : 'Exercises ungrouped', 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error grouping exercises', 'error');
+    }
+  };
+
+  // Drop an exercise (a whole group for supersets and circuits) or a set in its new place
+  const handleDragEnd = async ({ type, source, destination }: DropResult) => {
+    if (!activeWorkout || !destination || destination.index === source.index) return;
+    try {
+      if (type === 'exercise') {
+        const blocks = moveItem(toExerciseBlocks(activeWorkout.exercises), source.index, destination.index);
+        const { workout } = await offlineWorkoutAPI.reorderExercises(
+          activeWorkout,
+          blocks.flatMap((block) => block.indexes)
+        );
+        setActiveWorkout(workout);
+        resetExercisePositions();
+      } else {
+        const exerciseIndex = Number(source.droppableId.replace('sets-', ''));
+        const setIndexes = activeWorkout.exercises[exerciseIndex].sets.map((_, index) => index);
+        const { workout } = await offlineWorkoutAPI.reorderSets(
+          activeWorkout,
+          exerciseIndex,
+          moveItem(setIndexes, source.index, destination.index)
+        );
+        setActiveWorkout(workout);
+        setEditingSet(null);
+      }
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error reordering workout', 'error');
+    }
+  };
+
+  const handleRenameExercise = async (exerciseIndex: number) => {
+    if (!activeWorkout) return;
+    const name = prompt('Exercise name:', activeWorkout.exercises[exerciseIndex].name);
+    if (!name?.trim()) return;
+    try {
+      const { workout } = await offlineWorkoutAPI.updateExercise(activeWorkout, exerciseIndex, { name: name.trim() });
+      setActiveWorkout(workout);
+      showToast('Exercise renamed', 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error updating exercise', 'error');
+    }
+  };
+
+  const handleRemoveExercise = async (exerciseIndex: number) => {
+    if (!activeWorkout) return;
+    const exercise = activeWorkout.exercises[exerciseIndex];
+    if (!confirm(`Remove ${exercise.name} and its ${exercise.sets.length} sets from this workout?`)) return;
+    try {
+      const { workout } = await offlineWorkoutAPI.removeExercise(activeWorkout, exerciseIndex);
+      setActiveWorkout(workout);
+      resetExercisePositions();
+      showToast('Exercise removed', 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error removing exercise', 'error');
+    }
+  };
+
+  // Save the set being edited inline
+  const handleUpdateSet = async () => {
+    if (!activeWorkout || !editingSet) return;
+    const { exerciseIndex, setIndex } = editingSet;
+    const exercise = activeWorkout.exercises[exerciseIndex];
+    const { fields } = getTrackingType(exercise.trackingType);
+
+    const changes = {
+      reps: fields.includes('reps') ? parseInt(editingSet.reps) || 0 : undefined,
+      weight: fields.includes('weight') ? parseFloat(editingSet.weight) || 0 : undefined,
+      rpe: editingSet.rpe ? parseFloat(editingSet.rpe) : null,
+    };
+    const missingFields = getMissingSetFields(exercise.trackingType, { ...exercise.sets[setIndex], ...changes });
+    if (missingFields.length > 0) {
+      showToast(`Enter the ${missingFields.join(' and ')} of the set`, 'error');
+      return;
+    }
+
+    try {
+      const { workout } = await offlineWorkoutAPI.updateSet(activeWorkout, exerciseIndex, setIndex, changes);
+      setActiveWorkout(workout);
+      setEditingSet(null);
+      showToast('Set updated', 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error updating set', 'error');
+    }
+  };
+
+  const handleRemoveSet = async (exerciseIndex: number, setIndex: number) => {
+    if (!activeWorkout) return;
+    if (!confirm(`Remove set ${setIndex + 1}?`)) return;
+    try {
+      const { workout } = await offlineWorkoutAPI.removeSet(activeWorkout, exerciseIndex, setIndex);
+      setActiveWorkout(workout);
+      setEditingSet(null);
+      showToast('Set removed', 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error removing set', 'error');
+    }
+  };
+
+  // Rest length for an exercise: the saved preference, else the rest logged
+  // before its most recent set, else the default
+  const getDefaultRestSeconds = (exerciseName: string) => {
+    const preference = getRestPreference(exerciseName);
+    if (preference) return preference;
+
+    const lastRest = [activeWorkout, ...workouts]
+      .flatMap((w) => w?.exercises.filter((ex) => ex.name === exerciseName) ?? [])
+      .flatMap((ex) => ex.sets.filter((s) => s.restTime).reverse())[0]?.restTime;
+
+    return lastRest ?? DEFAULT_REST_SECONDS;
+  };
+
+  const handleAdjustRest = (seconds: number) => {
+    if (!restTimer) return;
+    const duration = Math.max(REST_MIN_SECONDS, restTimer.duration + seconds);
+    const endsAt = restTimer.endsAt + (duration - restTimer.duration) * 1000;
+    setRestTimer({ ...restTimer, duration, endsAt });
+    saveRestPreference(restTimer.exerciseName, duration);
+  };
+
+  // Save a finished workout as a reusable template
+  const handleSaveAsTemplate = async (workout: Workout) => {
+    const defaultName = workout.workoutType
+      ? `${workout.workoutType} Day`
+      : `Workout ${format(parseISO(workout.date), 'MMM d')}`;
+    const name = prompt('Template name:', defaultName);
+    if (!name) return;
+
+    try {
+      await templateAPI.createFromWorkout(workout._id, name);
+      const response = await templateAPI.getAll();
+      setTemplates(response.data.templates ?? []);
+      showToast(`Template "${name}" saved! 📋`, 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error saving template', 'error');
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    const template = templates.find((t) => t._id === id);
+    if (!template || !confirm(`Delete template "${template.name}"?`)) return;
+
+    try {
+      await templateAPI.delete(id);
+      setTemplates(templates.filter((t) => t._id !== id));
+      setSelectedTemplateId('');
+      showToast('Template deleted', 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error deleting template', 'error');
+    }
+  };
+
   // Manual Log Workout
   const handleManualLogSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
       const exercisesWithSets = manualLogForm.exercises.filter(
-        (ex) => ex.name && ex.sets.length > 0 && ex.sets.some((s) => s.reps > 0 && s.weight > 0)
+        (ex) =>
+          ex.name &&
+          ex.sets.some((s) => getMissingSetFields(ex.trackingType ?? defaultTrackingType(ex), s).length === 0)
       );
 
       if (exercisesWithSets.length === 0) {
@@ -314,12 +671,16 @@ export default function WorkoutsPage() {
           name: ex.name,
           muscleGroup: ex.muscleGroup ?? undefined,
           equipment: ex.equipment ?? undefined,
+          trackingType: ex.trackingType ?? defaultTrackingType(ex),
           sets: ex.sets.map(s => ({
             reps: s.reps,
             weight: s.weight,
+            duration: s.duration ?? undefined,
+            distance: s.distance ?? undefined,
             restTime: s.restTime ?? undefined,
             rpe: s.rpe ?? undefined,
             completed: s.completed ?? undefined,
+            setType: s.setType ?? undefined,
           })),
         })),
         notes: manualLogForm.notes,
@@ -366,18 +727,59 @@ export default function WorkoutsPage() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Calculate volume
-  const calculateVolume = (exercises: Exercise[]) => {
+  // Calculate volume (warm-up sets excluded)
+  const calculateVolume = (exercises: Exercise[], bodyweight?: number | null) => {
     return exercises.reduce((total, exercise) => {
-      const exerciseVolume = exercise.sets.reduce((sum, set) => sum + set.reps * set.weight, 0);
+      const exerciseVolume = loadedSets(exercise, bodyweight).reduce((sum, set) => sum + set.reps * set.weight, 0);
       return total + exerciseVolume;
     }, 0);
   };
 
-  // Calculate 1RM (Epley formula)
-  const calculate1RM = (weight: number, reps: number) => {
-    if (reps === 1) return weight;
-    return weight * (1 + reps / 30);
+  // Volume for lifts; distance, time and pace for cardio and carries
+  const describeExerciseTotals = (exercise: Exercise, unit: string, bodyweight?: number | null) => {
+    const { value, fields } = getTrackingType(exercise.trackingType);
+    if (fields.includes('reps')) {
+      const volume = loadedSets(exercise, bodyweight).reduce((sum, set) => sum + set.reps * set.weight, 0);
+      return `Volume: ${volume.toFixed(0)} ${unit}`;
+    }
+
+    const totals = cardioTotals(exercise.sets);
+    return [
+      fields.includes('distance') ? formatDistance(totals.distance) : null,
+      fields.includes('duration') ? formatDuration(totals.duration) : null,
+      value === 'distanceDuration' ? formatPace(totals.pace) : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  };
+
+  // Ask for a new set of an active exercise, one prompt per value its tracking type uses.
+  // Returns null if a prompt is cancelled.
+  const promptForSet = (exercise: Exercise): Set | null => {
+    const { value, fields, weightLabel } = getTrackingType(exercise.trackingType);
+    const set: Set = { reps: 0, weight: 0 };
+    for (const field of fields) {
+      if (field === 'reps') {
+        const reps = prompt('Reps:', exercise.targetReps?.toString() ?? '');
+        if (reps === null) return null;
+        set.reps = parseInt(reps) || 0;
+      } else if (field === 'weight') {
+        const weight = prompt(`${weightLabel ?? 'Weight'} (${activeUnit}):`, exercise.targetWeight?.toString() ?? '');
+        if (weight === null) return null;
+        set.weight = parseFloat(weight) || 0;
+      } else if (field === 'duration') {
+        const duration = prompt('Time (seconds, or mm:ss):');
+        if (duration === null) return null;
+        set.duration = parseDuration(duration);
+      } else {
+        // Runs and rides are entered in km, carries in metres
+        const inKm = value === 'distanceDuration';
+        const distance = prompt(`Distance (${inKm ? 'km' : 'm'}):`);
+        if (distance === null) return null;
+        set.distance = (parseFloat(distance) || 0) * (inKm ? 1000 : 1);
+      }
+    }
+    return set;
   };
 
   // Filter workouts
@@ -496,13 +898,51 @@ export default function WorkoutsPage() {
           <div className="mb-8">
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
               <h1 className="text-3xl lg:text-4xl font-bold text-gray-900">🏋️ Workout Tracker</h1>
-              <div className="flex gap-3">
+              <div className="flex flex-wrap gap-3">
                 <button
                   onClick={() => setShowManualLogModal(true)}
                   className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium text-sm lg:text-base"
                 >
                   📝 Log Past Workout
                 </button>
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium text-sm lg:text-base"
+                >
+                  📥 Import
+                </button>
+                <button
+                  onClick={() => setShowMyExercises(true)}
+                  className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition font-medium text-sm lg:text-base"
+                >
+                  🏷️ My Exercises
+                </button>
+                {templates.length > 0 && (
+                  <div className="flex gap-1">
+                    <select
+                      value={selectedTemplateId}
+                      onChange={(e) => setSelectedTemplateId(e.target.value)}
+                      disabled={!!activeWorkout}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm lg:text-base"
+                    >
+                      <option value="">Empty workout</option>
+                      {templates.map((template) => (
+                        <option key={template._id} value={template._id}>
+                          📋 {template.name} ({template.exercises.length})
+                        </option>
+                      ))}
+                    </select>
+                    {selectedTemplateId && (
+                      <button
+                        onClick={() => handleDeleteTemplate(selectedTemplateId)}
+                        className="px-3 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition text-sm"
+                        aria-label="Delete template"
+                      >
+                        🗑️
+                      </button>
+                    )}
+                  </div>
+                )}
                 <button
                   onClick={handleStartWorkout}
                   disabled={!!activeWorkout}
@@ -705,7 +1145,7 @@ export default function WorkoutsPage() {
                       <YAxis />
                       <Tooltip />
                       <Legend />
-                      <Line type="monotone" dataKey="volume" stroke="#0ea5e9" strokeWidth={2} name="Volume (kg)" />
+                      <Line type="monotone" dataKey="volume" stroke="#0ea5e9" strokeWidth={2} name={`Volume (${displayUnit})`} />
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
@@ -756,12 +1196,17 @@ export default function WorkoutsPage() {
             ) : (
               filteredWorkouts.map((workout) => {
                 const isExpanded = expandedWorkout === workout._id;
-                const workoutVolume = workout.totalVolume ?? calculateVolume(workout.exercises);
-                const workoutPRs = workout.exercises.filter((ex) => {
+                const displayWorkout = normalizeWorkout(workout, displayUnit);
+                const workoutVolume = workout.totalVolume ?? calculateVolume(displayWorkout.exercises, displayWorkout.bodyweight);
+                const cardio = cardioTotals(
+                  displayWorkout.exercises.filter((ex) => isCardioTracking(ex.trackingType)).flatMap((ex) => ex.sets)
+                );
+                const workoutPRs = displayWorkout.exercises.filter((ex) => {
                   const pr = prs[ex.name];
-                  if (!pr) return false;
-                  const maxWeight = Math.max(...ex.sets.map((s) => s.weight), 0);
-                  const maxReps = Math.max(...ex.sets.map((s) => s.reps), 0);
+                  if (!pr || !isRepTracking(ex.trackingType)) return false;
+                  const sets = countedSets(ex.sets);
+                  const maxWeight = Math.max(...sets.map((s) => s.weight), 0);
+                  const maxReps = Math.max(...sets.map((s) => s.reps), 0);
                   return maxWeight >= pr.maxWeight || maxReps >= pr.maxReps;
                 });
 
@@ -782,6 +1227,11 @@ export default function WorkoutsPage() {
                                 {workout.workoutType}
                               </span>
                             )}
+                            {workout.sessionName && (
+                              <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-semibold">
+                                📅 {workout.sessionName} • Week {workout.programWeek}
+                              </span>
+                            )}
                             {workoutPRs.length > 0 && (
                               <span className="px-3 py-1 bg-yellow-100 text-yellow-700 rounded-full text-xs font-semibold flex items-center gap-1">
                                 🏆 {workoutPRs.length} PR{workoutPRs.length > 1 ? 's' : ''}
@@ -793,7 +1243,13 @@ export default function WorkoutsPage() {
                             <span>
                               💪 {workout.exercises.reduce((sum, ex) => sum + ex.sets.length, 0)} sets
                             </span>
-                            <span>⚖️ {workoutVolume.toFixed(0)} kg volume</span>
+                            <span>⚖️ {workoutVolume.toFixed(0)} {displayUnit} volume</span>
+                            {cardio.distance > 0 && <span>🏃 {formatDistance(cardio.distance)}</span>}
+                            {cardio.duration > 0 && (
+                              <span>
+                                ⏲️ {formatDuration(cardio.duration)} cardio{cardio.pace ? ` · ${formatPace(cardio.pace)}` : ''}
+                              </span>
+                            )}
                             {workout.duration && <span>⏱️ {formatTime(workout.duration)}</span>}
                             {workout.caloriesBurned && <span>🔥 {workout.caloriesBurned} cal</span>}
                           </div>
@@ -802,6 +1258,17 @@ export default function WorkoutsPage() {
                           )}
                         </div>
                         <div className="flex gap-2">
+                          {workout.status === 'completed' && workout.exercises.length > 0 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSaveAsTemplate(workout);
+                              }}
+                              className="px-4 py-2 bg-primary-100 text-primary-700 rounded-lg hover:bg-primary-200 transition text-sm font-medium"
+                            >
+                              📋 Save as Template
+                            </button>
+                          )}
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -823,23 +1290,30 @@ export default function WorkoutsPage() {
                     {isExpanded && (
                       <div className="border-t border-gray-200 p-6 bg-gray-50">
                         <div className="space-y-6">
-                          {workout.exercises.map((exercise, exIdx) => {
-                            const exerciseVolume = exercise.sets.reduce(
-                              (sum, set) => sum + set.reps * set.weight,
-                              0
-                            );
-                            const maxWeight = Math.max(...exercise.sets.map((s) => s.weight), 0);
-                            const maxReps = Math.max(...exercise.sets.map((s) => s.reps), 0);
-                            const estimated1RM = maxWeight > 0 ? calculate1RM(maxWeight, maxReps) : 0;
+                          {displayWorkout.exercises.map((exercise, exIdx) => {
+                            // Warm-up sets are listed but left out of the numbers
+                            const sets = loadedSets(exercise, displayWorkout.bodyweight);
+                            const repTracked = isRepTracking(exercise.trackingType);
+                            const maxWeight = Math.max(...sets.map((s) => s.weight), 0);
+                            const maxReps = Math.max(...sets.map((s) => s.reps), 0);
+                            const estimated1RM = bestOneRepMax(sets, user?.oneRepMaxFormula);
                             const exercisePR = prs[exercise.name];
-                            const isPR = exercisePR && (maxWeight >= exercisePR.maxWeight || maxReps >= exercisePR.maxReps);
+                            const isPR =
+                              repTracked &&
+                              exercisePR &&
+                              (maxWeight >= exercisePR.maxWeight || maxReps >= exercisePR.maxReps);
 
                             return (
                               <div key={exIdx} className="bg-white rounded-lg p-4 border-l-4 border-primary-500">
                                 <div className="flex items-start justify-between mb-3">
                                   <div>
                                     <h4 className="font-bold text-lg text-gray-900 flex items-center gap-2">
-                                      {exercise.name}
+                                      <Link
+                                        href={`/exercises/${encodeURIComponent(exercise.name)}`}
+                                        className="hover:text-primary-600 hover:underline"
+                                      >
+                                        {exercise.name}
+                                      </Link>
                                       {isPR && <span className="text-yellow-500">🏆 PR!</span>}
                                     </h4>
                                     <div className="flex gap-3 mt-1 text-sm text-gray-600">
@@ -853,17 +1327,24 @@ export default function WorkoutsPage() {
                                           {exercise.equipment}
                                         </span>
                                       )}
+                                      {exercise.groupId && (
+                                        <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded">
+                                          🔗 {getGroupLabel(exercise.groupType)}
+                                        </span>
+                                      )}
                                     </div>
                                   </div>
                                   <div className="text-right text-sm">
                                     <div className="font-semibold text-gray-900">
-                                      Volume: {exerciseVolume.toFixed(0)} kg
-                                    </div>
-                                    <div className="text-gray-600">
-                                      Max: {maxWeight} kg × {maxReps} reps
+                                      {describeExerciseTotals(exercise, displayUnit, displayWorkout.bodyweight)}
                                     </div>
+                                    {repTracked && (
+                                      <div className="text-gray-600">
+                                        Max: {maxWeight} {displayUnit} × {maxReps} reps
+                                      </div>
+                                    )}
                                     {estimated1RM > 0 && (
-                                      <div className="text-primary-600 font-medium">1RM: ~{estimated1RM.toFixed(1)} kg</div>
+                                      <div className="text-primary-600 font-medium">1RM: ~{estimated1RM.toFixed(1)} {displayUnit}</div>
                                     )}
                                   </div>
                                 </div>
@@ -874,8 +1355,13 @@ export default function WorkoutsPage() {
                                       className="flex items-center gap-3 p-2 bg-gray-50 rounded text-sm"
                                     >
                                       <span className="font-semibold text-gray-700 w-12">Set {setIdx + 1}</span>
+                                      {set.setType && set.setType !== 'working' && (
+                                        <span className="px-2 py-0.5 bg-orange-100 text-orange-700 rounded text-xs font-semibold">
+                                          {getSetTypeLabel(set.setType)}
+                                        </span>
+                                      )}
                                       <span className="text-gray-900">
-                                        {set.reps} reps × {set.weight} kg
+                                        {describeSet(set, exercise.trackingType, displayUnit)}
                                       </span>
                                       {set.restTime && (
                                         <span className="text-gray-500">Rest: {set.restTime}s</span>
@@ -883,11 +1369,13 @@ export default function WorkoutsPage() {
                                       {set.rpe && (
                                         <span className="text-gray-500">RPE: {set.rpe}/10</span>
                                       )}
-                                      <div className="ml-auto">
-                                        <span className="text-gray-600">
-                                          Volume: {(set.reps * set.weight).toFixed(0)} kg
-                                        </span>
-                                      </div>
+                                      {set.setType !== 'warmup' && repTracked && exercise.trackingType !== 'assistedBodyweight' && (
+                                        <div className="ml-auto">
+                                          <span className="text-gray-600">
+                                            Volume: {(set.reps * set.weight).toFixed(0)} {displayUnit}
+                                          </span>
+                                        </div>
+                                      )}
                                     </div>
                                   ))}
                                 </div>
@@ -952,18 +1440,22 @@ export default function WorkoutsPage() {
                 >
                   ✅ End Workout
                 </button>
-                <div className="ml-auto">
-                  <select
-                    value={weightUnit}
-                    onChange={(e) => setWeightUnit(e.target.value as 'kg' | 'lb')}
-                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
-                  >
-                    <option value="kg">kg</option>
-                    <option value="lb">lb</option>
-                  </select>
-                </div>
               </div>
 
+              {/* PR Celebration */}
+              {newRecords.length > 0 && <PRCelebration records={newRecords} onClose={() => setNewRecords([])} />}
+
+              {/* Rest Timer */}
+              {restTimer && (
+                <RestTimer
+                  exerciseName={restTimer.exerciseName}
+                  duration={restTimer.duration}
+                  endsAt={restTimer.endsAt}
+                  onAdjust={handleAdjustRest}
+                  onSkip={() => setRestTimer(null)}
+                />
+              )}
+
               {/* Add Exercise Button */}
               <div className="mb-4">
                 <button
@@ -983,51 +1475,326 @@ export default function WorkoutsPage() {
                 </button>
               </div>
 
-              {/* Exercises List */}
-              <div className="space-y-4">
-                {activeWorkout.exercises.map((exercise, exIdx) => {
-                  const exerciseVolume = exercise.sets.reduce((sum, set) => sum + set.reps * set.weight, 0);
-                  return (
-                    <div key={exIdx} className="border border-gray-300 rounded-lg p-4">
-                      <div className="flex items-center justify-between mb-3">
-                        <h3 className="font-bold text-lg text-gray-900">{exercise.name}</h3>
-                        <span className="text-sm text-gray-600">Volume: {exerciseVolume.toFixed(0)} {weightUnit}</span>
-                      </div>
-                      <div className="space-y-2 mb-3">
-                        {exercise.sets.map((set, setIdx) => (
-                          <div key={setIdx} className="flex items-center gap-2 text-sm">
-                            <span className="font-semibold w-12">Set {setIdx + 1}</span>
-                            <span>{set.reps} reps × {set.weight} {weightUnit}</span>
-                            {set.restTime && <span className="text-gray-500">Rest: {set.restTime}s</span>}
-                            {set.rpe && <span className="text-gray-500">RPE: {set.rpe}/10</span>}
-                          </div>
+              {/* Group Exercises */}
+              {activeWorkout.exercises.length >= 2 && (
+                <div className="mb-4">
+                  {groupSelection ? (
+                    <div className="flex flex-wrap items-center gap-2 p-3 bg-purple-50 border border-purple-200 rounded-lg">
+                      <span className="text-sm text-purple-800">
+                        Tick the exercises to do together ({groupSelection.length} selected)
+                      </span>
+                      <select
+                        value={newGroupType}
+                        onChange={(e) => setNewGroupType(e.target.value as GroupType)}
+                        className="ml-auto px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        {GROUP_TYPES.map((type) => (
+                          <option key={type.value} value={type.value}>
+                            {type.label}
+                          </option>
                         ))}
-                      </div>
+                      </select>
                       <button
-                        onClick={async () => {
-                          const reps = prompt('Reps:');
-                          const weight = prompt(`Weight (${weightUnit}):`);
-                          if (reps && weight) {
-                            await handleAddSetToActive(exIdx, {
-                              reps: parseInt(reps),
-                              weight: parseFloat(weight),
-                              completed: true,
-                            });
-                          }
-                        }}
-                        className="w-full px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition text-sm font-medium"
+                        onClick={() => handleGroupExercises(groupSelection, newGroupType)}
+                        disabled={groupSelection.length < 2}
+                        className="px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition text-sm font-medium disabled:opacity-50"
                       >
-                        + Add Set
+                        Group
+                      </button>
+                      <button
+                        onClick={() => setGroupSelection(null)}
+                        className="px-3 py-1.5 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+                      >
+                        Cancel
                       </button>
                     </div>
-                  );
-                })}
-                {activeWorkout.exercises.length === 0 && (
-                  <div className="text-center py-8 text-gray-500">
-                    No exercises added yet. Click "Add Exercise" to start!
-                  </div>
-                )}
-              </div>
+                  ) : (
+                    <button
+                      onClick={() => setGroupSelection([])}
+                      className="w-full px-4 py-2 bg-purple-50 text-purple-700 rounded-lg hover:bg-purple-100 transition text-sm font-medium"
+                    >
+                      🔗 Superset / Circuit
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Exercises List: grouped exercises are shown together. Exercises, groups and sets can be
+                  dragged into a new order. */}
+              <DragDropContext onDragEnd={handleDragEnd}>
+                <StrictModeDroppable droppableId="active-exercises" type="exercise">
+                  {(droppable) => (
+                    <div ref={droppable.innerRef} {...droppable.droppableProps} className="space-y-4">
+                      {toExerciseBlocks(activeWorkout.exercises).map((block, blockIdx) => {
+                        const cards = block.indexes.map((exIdx) => {
+                          const exercise = activeWorkout.exercises[exIdx];
+                          const isUpNext = upNextExercise === exIdx;
+                          const { fields, weightLabel } = getTrackingType(exercise.trackingType);
+                          return (
+                            <div
+                              key={exIdx}
+                              id={`active-exercise-${exIdx}`}
+                              className={`border rounded-lg p-4 ${isUpNext ? 'border-purple-500 ring-2 ring-purple-200' : 'border-gray-300'}`}
+                            >
+                              <div className="flex items-center justify-between mb-3">
+                                <div className="flex items-start gap-3">
+                                  {groupSelection && (
+                                    <input
+                                      type="checkbox"
+                                      checked={groupSelection.includes(exIdx)}
+                                      onChange={(e) =>
+                                        setGroupSelection(
+                                          e.target.checked
+                                            ? [...groupSelection, exIdx]
+                                            : groupSelection.filter((index) => index !== exIdx)
+                                        )
+                                      }
+                                      className="mt-1.5 w-4 h-4 text-purple-600 rounded"
+                                    />
+                                  )}
+                                  <div>
+                                    <h3 className="font-bold text-lg text-gray-900">
+                                      <Link
+                                        href={`/exercises/${encodeURIComponent(exercise.name)}`}
+                                        className="hover:text-primary-600 hover:underline"
+                                      >
+                                        {exercise.name}
+                                      </Link>
+                                      {isUpNext && (
+                                        <span className="ml-2 px-2 py-0.5 bg-purple-100 text-purple-700 rounded text-xs font-semibold">
+                                          Up next
+                                        </span>
+                                      )}
+                                    </h3>
+                                    {exercise.targetSets && (
+                                      <div className="text-xs text-primary-600 font-medium">
+                                        Target: {countedSets(exercise.sets).length}/{exercise.targetSets} sets
+                                        {exercise.targetReps ? ` × ${exercise.targetReps} reps` : ''}
+                                        {exercise.targetWeight ? ` @ ${exercise.targetWeight} ${activeUnit}` : ''}
+                                      </div>
+                                    )}
+                                  </div>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <span className="text-sm text-gray-600 mr-2">{describeExerciseTotals(exercise, activeUnit, activeWorkout.bodyweight)}</span>
+                                  <button
+                                    onClick={() => handleRenameExercise(exIdx)}
+                                    className="p-1 text-gray-400 hover:text-primary-600"
+                                    title="Rename exercise"
+                                  >
+                                    <Pencil className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleRemoveExercise(exIdx)}
+                                    className="p-1 text-gray-400 hover:text-red-600"
+                                    title="Remove exercise"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                              <StrictModeDroppable droppableId={`sets-${exIdx}`} type={`sets-${exIdx}`}>
+                                {(setsDroppable) => (
+                                  <div ref={setsDroppable.innerRef} {...setsDroppable.droppableProps} className="space-y-2 mb-3">
+                                    {exercise.sets.map((set, setIdx) => {
+                                      const isEditing = editingSet?.exerciseIndex === exIdx && editingSet.setIndex === setIdx;
+                                      const setKey = set._id ?? set.clientId ?? `set-${exIdx}-${setIdx}`;
+                                      return (
+                                        <Draggable key={setKey} draggableId={setKey} index={setIdx} isDragDisabled={isEditing}>
+                                          {(setDraggable) => (
+                                            <div
+                                              ref={setDraggable.innerRef}
+                                              {...setDraggable.draggableProps}
+                                              className="flex items-center gap-2 text-sm bg-white"
+                                            >
+                                              <span {...setDraggable.dragHandleProps} className="text-gray-400 cursor-grab">
+                                                <GripVertical className="w-4 h-4" />
+                                              </span>
+                                              <span className="font-semibold w-12">Set {setIdx + 1}</span>
+                                              {set.setType && set.setType !== 'working' && (
+                                                <span className="px-2 py-0.5 bg-orange-100 text-orange-700 rounded text-xs font-semibold">
+                                                  {getSetTypeLabel(set.setType)}
+                                                </span>
+                                              )}
+                                              {isEditing ? (
+                                                <form
+                                                  onSubmit={(e) => {
+                                                    e.preventDefault();
+                                                    handleUpdateSet();
+                                                  }}
+                                                  className="flex items-center gap-2"
+                                                >
+                                                  {fields.includes('reps') && (
+                                                    <input
+                                                      type="number"
+                                                      min="0"
+                                                      value={editingSet.reps}
+                                                      onChange={(e) => setEditingSet({ ...editingSet, reps: e.target.value })}
+                                                      placeholder="Reps"
+                                                      aria-label="Reps"
+                                                      className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-primary-500 focus:border-primary-500"
+                                                    />
+                                                  )}
+                                                  {fields.includes('weight') && (
+                                                    <input
+                                                      type="number"
+                                                      min="0"
+                                                      step="0.5"
+                                                      value={editingSet.weight}
+                                                      onChange={(e) => setEditingSet({ ...editingSet, weight: e.target.value })}
+                                                      placeholder={`${weightLabel ?? 'Weight'} (${activeUnit})`}
+                                                      aria-label={weightLabel ?? 'Weight'}
+                                                      className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-primary-500 focus:border-primary-500"
+                                                    />
+                                                  )}
+                                                  <input
+                                                    type="number"
+                                                    min="1"
+                                                    max="10"
+                                                    step="0.5"
+                                                    value={editingSet.rpe}
+                                                    onChange={(e) => setEditingSet({ ...editingSet, rpe: e.target.value })}
+                                                    placeholder="RPE"
+                                                    aria-label="RPE"
+                                                    className="w-16 px-2 py-1 border border-gray-300 rounded focus:ring-primary-500 focus:border-primary-500"
+                                                  />
+                                                  <button type="submit" className="p-1 text-green-600 hover:text-green-700" title="Save set">
+                                                    <Check className="w-4 h-4" />
+                                                  </button>
+                                                  <button
+                                                    type="button"
+                                                    onClick={() => setEditingSet(null)}
+                                                    className="p-1 text-gray-400 hover:text-gray-600"
+                                                    title="Cancel"
+                                                  >
+                                                    <X className="w-4 h-4" />
+                                                  </button>
+                                                </form>
+                                              ) : (
+                                                <>
+                                                  <span>{describeSet(set, exercise.trackingType, activeUnit)}</span>
+                                                  {set.restTime && <span className="text-gray-500">Rest: {set.restTime}s</span>}
+                                                  {set.rpe && <span className="text-gray-500">RPE: {set.rpe}/10</span>}
+                                                  <div className="ml-auto flex gap-1">
+                                                    <button
+                                                      onClick={() =>
+                                                        setEditingSet({
+                                                          exerciseIndex: exIdx,
+                                                          setIndex: setIdx,
+                                                          reps: String(set.reps),
+                                                          weight: String(set.weight),
+                                                          rpe: set.rpe?.toString() ?? '',
+                                                        })
+                                                      }
+                                                      className="p-1 text-gray-400 hover:text-primary-600"
+                                                      title="Edit set"
+                                                    >
+                                                      <Pencil className="w-4 h-4" />
+                                                    </button>
+                                                    <button
+                                                      onClick={() => handleRemoveSet(exIdx, setIdx)}
+                                                      className="p-1 text-gray-400 hover:text-red-600"
+                                                      title="Remove set"
+                                                    >
+                                                      <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                  </div>
+                                                </>
+                                              )}
+                                            </div>
+                                          )}
+                                        </Draggable>
+                                      );
+                                    })}
+                                    {setsDroppable.placeholder}
+                                  </div>
+                                )}
+                              </StrictModeDroppable>
+                              <div className="flex gap-2">
+                                <select
+                                  value={nextSetTypes[exIdx] ?? 'working'}
+                                  onChange={(e) => setNextSetTypes({ ...nextSetTypes, [exIdx]: e.target.value as SetType })}
+                                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-primary-500 focus:border-primary-500"
+                                >
+                                  {SET_TYPES.map((type) => (
+                                    <option key={type.value} value={type.value}>
+                                      {type.label}
+                                    </option>
+                                  ))}
+                                </select>
+                                <button
+                                  onClick={async () => {
+                                    const set = promptForSet(exercise);
+                                    if (!set) return;
+                                    const missingFields = getMissingSetFields(exercise.trackingType, set);
+                                    if (missingFields.length > 0) {
+                                      showToast(`Enter the ${missingFields.join(' and ')} of the set`, 'error');
+                                      return;
+                                    }
+                                    await handleAddSetToActive(exIdx, {
+                                      ...set,
+                                      completed: true,
+                                      setType: nextSetTypes[exIdx] ?? 'working',
+                                    });
+                                  }}
+                                  className="flex-1 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition text-sm font-medium"
+                                >
+                                  + Add Set
+                                </button>
+                              </div>
+                            </div>
+                          );
+                        });
+
+                        const first = activeWorkout.exercises[block.indexes[0]];
+                        const blockKey = block.groupId ?? first._id ?? first.clientId ?? `exercise-${block.indexes[0]}`;
+                        const content = !block.groupId ? (
+                          cards
+                        ) : (
+                          <div className="border-l-4 border-purple-400 pl-3 space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm font-semibold text-purple-700">
+                                🔗 {getGroupLabel(block.groupType)} · {block.indexes.length} exercises
+                              </span>
+                              <button
+                                onClick={() => handleGroupExercises(block.indexes, null)}
+                                className="text-xs text-gray-500 hover:text-red-600"
+                              >
+                                Ungroup
+                              </button>
+                            </div>
+                            {cards}
+                          </div>
+                        );
+
+                        // Groups move as a whole
+                        return (
+                          <Draggable key={blockKey} draggableId={blockKey} index={blockIdx}>
+                            {(draggable) => (
+                              <div ref={draggable.innerRef} {...draggable.draggableProps} className="flex gap-2 bg-white">
+                                <div
+                                  {...draggable.dragHandleProps}
+                                  className="pt-4 text-gray-400 hover:text-gray-600 cursor-grab"
+                                  title="Drag to reorder"
+                                >
+                                  <GripVertical className="w-5 h-5" />
+                                </div>
+                                <div className="flex-1 min-w-0">{content}</div>
+                              </div>
+                            )}
+                          </Draggable>
+                        );
+                      })}
+                      {droppable.placeholder}
+                      {activeWorkout.exercises.length === 0 && (
+                        <div className="text-center py-8 text-gray-500">
+                          No exercises added yet. Click "Add Exercise" to start!
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </StrictModeDroppable>
+              </DragDropContext>
 
               {/* Notes */}
               <div className="mt-6">
@@ -1106,6 +1873,18 @@ export default function WorkoutsPage() {
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Weight Unit</label>
+                    <select
+                      value={weightUnit}
+                      onChange={(e) => setWeightUnit(e.target.value as WeightUnit)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                    >
+                      <option value="kg">kg</option>
+                      <option value="lb">lb</option>
+                    </select>
+                  </div>
                 </div>
 
                 <div>
@@ -1132,11 +1911,17 @@ export default function WorkoutsPage() {
                     {manualLogForm.exercises.map((exercise, exIdx) => {
                       const searchTerm = exerciseSearch[exIdx] || '';
                       const suggestions = exerciseSuggestions[exIdx] || [];
+                      const typedName = exercise.name.trim();
+                      const canCreate =
+                        typedName.length >= 2 &&
+                        !suggestions.some((suggestion) => suggestion.name.toLowerCase() === typedName.toLowerCase());
+                      const trackingType = exercise.trackingType ?? defaultTrackingType(exercise);
+                      const { fields, weightLabel } = getTrackingType(trackingType);
 
                       return (
                         <div key={exIdx} className="border border-gray-300 rounded-lg p-4 bg-gray-50">
-                          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
-                            <div className="md:col-span-3 relative">
+                          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-3">
+                            <div className="md:col-span-4 relative">
                               <input
                                 type="text"
                                 required
@@ -1152,7 +1937,7 @@ export default function WorkoutsPage() {
                                 placeholder="Exercise name"
                                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
                               />
-                              {showSuggestions[exIdx] && suggestions.length > 0 && (
+                              {showSuggestions[exIdx] && (suggestions.length > 0 || canCreate) && (
                                 <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-48 overflow-y-auto">
                                   {suggestions.map((suggestion, sugIdx) => (
                                     <div
@@ -1162,6 +1947,7 @@ export default function WorkoutsPage() {
                                         newExercises[exIdx].name = suggestion.name;
                                         newExercises[exIdx].muscleGroup = suggestion.muscleGroup;
                                         newExercises[exIdx].equipment = suggestion.equipment;
+                                        newExercises[exIdx].trackingType = suggestion.trackingType;
                                         setManualLogForm({ ...manualLogForm, exercises: newExercises });
                                         setShowSuggestions({ ...showSuggestions, [exIdx]: false });
                                       }}
@@ -1170,9 +1956,21 @@ export default function WorkoutsPage() {
                                       <div className="font-medium">{suggestion.name}</div>
                                       <div className="text-xs text-gray-500">
                                         {suggestion.muscleGroup} • {suggestion.equipment}
+                                        {suggestion.isCustom && ' • Custom'}
                                       </div>
                                     </div>
                                   ))}
+                                  {canCreate && (
+                                    <div
+                                      onClick={() => {
+                                        setCreatingExercise({ exIdx, name: typedName });
+                                        setShowSuggestions({ ...showSuggestions, [exIdx]: false });
+                                      }}
+                                      className="px-4 py-2 hover:bg-primary-50 cursor-pointer text-sm font-medium text-primary-600 border-t border-gray-200"
+                                    >
+                                      + Create &apos;{typedName}&apos;
+                                    </div>
+                                  )}
                                 </div>
                               )}
                             </div>
@@ -1217,6 +2015,25 @@ export default function WorkoutsPage() {
                               </select>
                             </div>
 
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Tracking</label>
+                              <select
+                                value={trackingType}
+                                onChange={(e) => {
+                                  const newExercises = [...manualLogForm.exercises];
+                                  newExercises[exIdx].trackingType = e.target.value as TrackingType;
+                                  setManualLogForm({ ...manualLogForm, exercises: newExercises });
+                                }}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                              >
+                                {TRACKING_TYPES.map((type) => (
+                                  <option key={type.value} value={type.value}>
+                                    {type.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+
                             <div className="flex items-end">
                               <button
                                 type="button"
@@ -1236,34 +2053,115 @@ export default function WorkoutsPage() {
                             {exercise.sets.map((set, setIdx) => (
                               <div key={setIdx} className="flex items-center gap-2">
                                 <span className="text-sm text-gray-600 w-12">Set {setIdx + 1}</span>
-                                <input
-                                  type="number"
-                                  required
-                                  min="0"
-                                  placeholder="Reps"
-                                  value={set.reps}
-                                  onChange={(e) => {
-                                    const newExercises = [...manualLogForm.exercises];
-                                    newExercises[exIdx].sets[setIdx].reps = parseInt(e.target.value) || 0;
-                                    setManualLogForm({ ...manualLogForm, exercises: newExercises });
-                                  }}
-                                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
-                                />
-                                <span className="text-gray-600">×</span>
-                                <input
-                                  type="number"
-                                  required
-                                  min="0"
-                                  step="0.5"
-                                  placeholder={`Weight (${weightUnit})`}
-                                  value={set.weight}
+                                {fields.includes('reps') && (
+                                  <input
+                                    type="number"
+                                    required
+                                    min="0"
+                                    placeholder="Reps"
+                                    value={set.reps}
+                                    onChange={(e) => {
+                                      const newExercises = [...manualLogForm.exercises];
+                                      newExercises[exIdx].sets[setIdx].reps = parseInt(e.target.value) || 0;
+                                      setManualLogForm({ ...manualLogForm, exercises: newExercises });
+                                    }}
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                                  />
+                                )}
+                                {fields.includes('weight') && (
+                                  <>
+                                    <span className="text-gray-600">×</span>
+                                    <input
+                                      type="number"
+                                      required
+                                      min="0"
+                                      step="0.5"
+                                      placeholder={`${weightLabel ?? 'Weight'} (${weightUnit})`}
+                                      title={`${weightLabel ?? 'Weight'} (${weightUnit})`}
+                                      value={set.weight}
+                                      onChange={(e) => {
+                                        const newExercises = [...manualLogForm.exercises];
+                                        newExercises[exIdx].sets[setIdx].weight = parseFloat(e.target.value) || 0;
+                                        setManualLogForm({ ...manualLogForm, exercises: newExercises });
+                                      }}
+                                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                                    />
+                                  </>
+                                )}
+                                {fields.includes('distance') && (
+                                  // Runs and rides are entered in km, carries in metres
+                                  <input
+                                    type="number"
+                                    required
+                                    min="0"
+                                    step={trackingType === 'distanceDuration' ? '0.01' : '1'}
+                                    placeholder={trackingType === 'distanceDuration' ? 'Distance (km)' : 'Distance (m)'}
+                                    title={trackingType === 'distanceDuration' ? 'Distance (km)' : 'Distance (m)'}
+                                    value={
+                                      set.distance
+                                        ? trackingType === 'distanceDuration'
+                                          ? set.distance / 1000
+                                          : set.distance
+                                        : ''
+                                    }
+                                    onChange={(e) => {
+                                      const newExercises = [...manualLogForm.exercises];
+                                      newExercises[exIdx].sets[setIdx].distance =
+                                        (parseFloat(e.target.value) || 0) * (trackingType === 'distanceDuration' ? 1000 : 1);
+                                      setManualLogForm({ ...manualLogForm, exercises: newExercises });
+                                    }}
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                                  />
+                                )}
+                                {fields.includes('duration') && (
+                                  <>
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      placeholder="Min"
+                                      title="Minutes"
+                                      value={set.duration ? Math.floor(set.duration / 60) : ''}
+                                      onChange={(e) => {
+                                        const newExercises = [...manualLogForm.exercises];
+                                        const seconds = (set.duration ?? 0) % 60;
+                                        newExercises[exIdx].sets[setIdx].duration = (parseInt(e.target.value) || 0) * 60 + seconds;
+                                        setManualLogForm({ ...manualLogForm, exercises: newExercises });
+                                      }}
+                                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                                    />
+                                    <span className="text-gray-600">:</span>
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      max="59"
+                                      placeholder="Sec"
+                                      title="Seconds"
+                                      value={set.duration ? set.duration % 60 : ''}
+                                      onChange={(e) => {
+                                        const newExercises = [...manualLogForm.exercises];
+                                        const minutes = Math.floor((set.duration ?? 0) / 60);
+                                        newExercises[exIdx].sets[setIdx].duration = minutes * 60 + (parseInt(e.target.value) || 0);
+                                        setManualLogForm({ ...manualLogForm, exercises: newExercises });
+                                      }}
+                                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                                    />
+                                  </>
+                                )}
+                                <select
+                                  value={set.setType ?? 'working'}
                                   onChange={(e) => {
                                     const newExercises = [...manualLogForm.exercises];
-                                    newExercises[exIdx].sets[setIdx].weight = parseFloat(e.target.value) || 0;
+                                    newExercises[exIdx].sets[setIdx].setType = e.target.value as SetType;
                                     setManualLogForm({ ...manualLogForm, exercises: newExercises });
                                   }}
-                                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
-                                />
+                                  className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500 text-sm"
+                                >
+                                  {SET_TYPES.map((type) => (
+                                    <option key={type.value} value={type.value}>
+                                      {type.label}
+                                    </option>
+                                  ))}
+                                </select>
                                 <button
                                   type="button"
                                   onClick={() => {
@@ -1336,6 +2234,40 @@ export default function WorkoutsPage() {
           </div>
         )}
 
+        {/* Import Modal */}
+        {showImportModal && (
+          <WorkoutImportModal
+            onClose={() => setShowImportModal(false)}
+            onImported={(count) => {
+              setShowImportModal(false);
+              showToast(`Imported ${count} workouts! 📥`, 'success');
+              fetchAllData();
+            }}
+          />
+        )}
+
+        {/* Custom Exercises */}
+        {showMyExercises && <MyExercisesModal onClose={() => setShowMyExercises(false)} showToast={showToast} />}
+        {creatingExercise && (
+          <CustomExerciseModal
+            initialName={creatingExercise.name}
+            onClose={() => setCreatingExercise(null)}
+            onSaved={(created) => {
+              const newExercises = [...manualLogForm.exercises];
+              newExercises[creatingExercise.exIdx] = {
+                ...newExercises[creatingExercise.exIdx],
+                name: created.name,
+                muscleGroup: created.muscleGroup,
+                equipment: created.equipment,
+                trackingType: created.trackingType ?? undefined,
+              };
+              setManualLogForm({ ...manualLogForm, exercises: newExercises });
+              setCreatingExercise(null);
+              showToast(`Created "${created.name}" 🏷️`, 'success');
+            }}
+          />
+        )}
+
         {/* Toast Notification */}
         {toast && (
           <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { userAPI } from '@/lib/api';
+
+// Shown on every page while the account is scheduled for deletion, with a way to undo it
+export default function AccountDeletionBanner() {
+  const { user, updateUser } = useAuth();
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user?.deletionScheduledFor) return null;
+
+  const handleUndo = async () => {
+    setRestoring(true);
+    setError('');
+
+    try {
+      const response = await userAPI.restoreAccount();
+      updateUser({ ...user, deletionScheduledFor: response.data.user.deletionScheduledFor });
+    } catch (err: any) {
+      setError(err.response?.data?.message ?? 'Error cancelling deletion');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl">
+      <AlertTriangle className="w-6 h-6 text-red-600 dark:text-red-400 flex-shrink-0" />
+      <p className="flex-1 text-sm text-red-700 dark:text-red-400">
+        Your account and all its data will be deleted on{' '}
+        <strong>{format(new Date(user.deletionScheduledFor), 'MMMM d, yyyy')}</strong>.
+        {error && ` ${error}`}
+      </p>
+      <button
+        type="button"
+        onClick={handleUndo}
+        disabled={restoring}
+        className="px-4 py-2 bg-white dark:bg-gray-800 text-red-700 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/40 transition text-sm font-medium disabled:opacity-50"
+      >
+        {restoring ? 'Undoing...' : 'Undo'}
+      </button>
+    </div>
+  );
+}
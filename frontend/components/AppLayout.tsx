@@ -2,6 +2,8 @@
 
 import { ReactNode } from 'react';
 import Sidebar from './Sidebar';
+import SyncIndicator from './SyncIndicator';
+import AccountDeletionBanner from './AccountDeletionBanner';
 
 export default function AppLayout({ children }: { children: ReactNode }) {
   return (
@@ -9,9 +11,11 @@ export default function AppLayout({ children }: { children: ReactNode }) {
       <Sidebar />
       <main className="flex-1 w-full min-w-0">
         <div className="w-full max-w-[1440px] mx-auto px-4 md:px-6 lg:px-8 py-4 lg:py-8">
+          <AccountDeletionBanner />
           {children}
         </div>
       </main>
+      <SyncIndicator />
     </div>
   );
 }
@@ -0,0 +1,64 @@
+'use client';
+
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Dumbbell } from 'lucide-react';
+
+interface AuthCardProps {
+  title: string;
+  subtitle: string;
+  children: React.ReactNode;
+}
+
+// The centred logo-and-card layout of the signed-out account pages
+export default function AuthCard({ title, subtitle, children }: AuthCardProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-purple-900/20 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full">
+        {/* Logo */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="text-center mb-8"
+        >
+          <Link href="/" className="inline-flex items-center gap-2 mb-4">
+            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary-500 to-primary-600 flex items-center justify-center shadow-lg">
+              <Dumbbell className="w-7 h-7 text-white" />
+            </div>
+            <span className="text-2xl font-bold text-gray-900 dark:text-white">Habit Tracker</span>
+          </Link>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.1 }}
+          className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-8 border border-gray-200 dark:border-gray-700"
+        >
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{title}</h2>
+            <p className="text-gray-600 dark:text-gray-400">{subtitle}</p>
+          </div>
+
+          {children}
+        </motion.div>
+
+        {/* Back to Login */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.3 }}
+          className="mt-6 text-center"
+        >
+          <Link
+            href="/login"
+            className="text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 transition"
+          >
+            ← Back to sign in
+          </Link>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
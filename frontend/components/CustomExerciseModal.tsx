@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { workoutAPI } from '@/lib/api';
+import { defaultTrackingType, getTrackingType, TRACKING_TYPES, TrackingType } from '@/lib/tracking';
+
+export interface CustomExercise {
+  _id: string;
+  name: string;
+  muscleGroup: string;
+  equipment: string;
+  // Null to follow the muscle group and equipment (cardio, bodyweight or weight × reps)
+  trackingType?: TrackingType | null;
+  secondaryMuscles: string[];
+  notes: string;
+  usageCount?: number;
+}
+
+const MUSCLE_GROUPS = ['Chest', 'Back', 'Legs', 'Shoulders', 'Arms', 'Core', 'Cardio', 'Full Body', 'Other'];
+const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Bodyweight', 'Cable', 'Kettlebell', 'Other'];
+
+interface CustomExerciseModalProps {
+  // The exercise to edit; omit to create a new one
+  exercise?: CustomExercise;
+  initialName?: string;
+  onClose: () => void;
+  onSaved: (exercise: CustomExercise) => void;
+}
+
+export default function CustomExerciseModal({ exercise, initialName, onClose, onSaved }: CustomExerciseModalProps) {
+  const [form, setForm] = useState({
+    name: exercise?.name ?? initialName ?? '',
+    muscleGroup: exercise?.muscleGroup ?? MUSCLE_GROUPS[0],
+    equipment: exercise?.equipment ?? EQUIPMENT_TYPES[0],
+    trackingType: exercise?.trackingType ?? null,
+    secondaryMuscles: exercise?.secondaryMuscles ?? [],
+    notes: exercise?.notes ?? '',
+  });
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const toggleSecondaryMuscle = (muscle: string) => {
+    setForm({
+      ...form,
+      secondaryMuscles: form.secondaryMuscles.includes(muscle)
+        ? form.secondaryMuscles.filter((m) => m !== muscle)
+        : [...form.secondaryMuscles, muscle],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!form.name.trim()) {
+      setError('Exercise name is required');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const data = { ...form, name: form.name.trim() };
+      const response = exercise
+        ? await workoutAPI.updateCustomExercise(exercise._id, data)
+        : await workoutAPI.createCustomExercise(data);
+      onSaved(response.data.exercise);
+    } catch (err: any) {
+      setError(err.response?.data?.message ?? 'Error saving exercise');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 my-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">{exercise ? 'Edit Exercise' : 'New Custom Exercise'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              type="text"
+              required
+              maxLength={100}
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              placeholder="e.g. Landmine Press"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Muscle Group</label>
+              <select
+                value={form.muscleGroup}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    muscleGroup: e.target.value,
+                    secondaryMuscles: form.secondaryMuscles.filter((m) => m !== e.target.value),
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              >
+                {MUSCLE_GROUPS.map((group) => (
+                  <option key={group} value={group}>
+                    {group}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Equipment</label>
+              <select
+                value={form.equipment}
+                onChange={(e) => setForm({ ...form, equipment: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              >
+                {EQUIPMENT_TYPES.map((equip) => (
+                  <option key={equip} value={equip}>
+                    {equip}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tracking</label>
+            <select
+              value={form.trackingType ?? ''}
+              onChange={(e) => setForm({ ...form, trackingType: (e.target.value || null) as TrackingType | null })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">Automatic ({getTrackingType(defaultTrackingType(form)).label})</option>
+              {TRACKING_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Secondary Muscles (optional)</label>
+            <div className="flex flex-wrap gap-2">
+              {MUSCLE_GROUPS.filter((group) => group !== form.muscleGroup).map((group) => (
+                <button
+                  key={group}
+                  type="button"
+                  onClick={() => toggleSecondaryMuscle(group)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition ${
+                    form.secondaryMuscles.includes(group)
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {group}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes (optional)</label>
+            <textarea
+              value={form.notes}
+              maxLength={1000}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              rows={3}
+              placeholder="Setup, cues, machine settings..."
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-medium disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : exercise ? 'Save Changes' : 'Create Exercise'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { userAPI } from '@/lib/api';
+
+interface DeleteAccountSettingsProps {
+  showToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+// Security tab section: schedule the account for deletion after re-entering the password.
+// The deletion can be undone here or from the banner until the grace period ends.
+export default function DeleteAccountSettings({ showToast }: DeleteAccountSettingsProps) {
+  const { user, updateUser } = useAuth();
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const scheduledFor = user?.deletionScheduledFor;
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setBusy(true);
+
+    try {
+      const response = await userAPI.deleteAccount(password);
+      updateUser({ ...user, deletionScheduledFor: response.data.deletionScheduledFor });
+      setConfirming(false);
+      setPassword('');
+      showToast(response.data.message, 'info');
+    } catch (err: any) {
+      showToast(err.response?.data?.message ?? 'Error deleting account', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!user) return;
+    setBusy(true);
+
+    try {
+      await userAPI.restoreAccount();
+      updateUser({ ...user, deletionScheduledFor: null });
+      showToast('Account deletion cancelled 🎉', 'success');
+    } catch (err: any) {
+      showToast(err.response?.data?.message ?? 'Error cancelling deletion', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-10 pt-8 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-red-600 dark:text-red-400">Delete Account</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {scheduledFor
+              ? `Your account will be deleted on ${format(new Date(scheduledFor), 'MMMM d, yyyy')}`
+              : 'Permanently delete your account, habits, workouts and custom exercises'}
+          </p>
+        </div>
+        {scheduledFor ? (
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={busy}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition text-sm font-medium disabled:opacity-50"
+          >
+            {busy ? 'Undoing...' : 'Undo Deletion'}
+          </button>
+        ) : (
+          !confirming && (
+            <button
+              type="button"
+              onClick={() => setConfirming(true)}
+              className="flex items-center gap-1 px-4 py-2 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 rounded-lg hover:bg-red-200 dark:hover:bg-red-900/50 transition text-sm font-medium"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete Account
+            </button>
+          )
+        )}
+      </div>
+
+      {confirming && !scheduledFor && (
+        <form
+          onSubmit={handleDelete}
+          className="p-4 border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 rounded-xl space-y-4"
+        >
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Your account will be deleted after 14 days. Until then you can sign in and undo it. After that, all your
+            data is removed for good. Download a backup from the Preferences tab first if you want to keep it.
+          </p>
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-transparent transition"
+            placeholder="Enter your password to confirm"
+          />
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setConfirming(false);
+                setPassword('');
+              }}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !password}
+              className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-medium disabled:opacity-50"
+            >
+              {busy ? 'Deleting...' : 'Delete My Account'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { workoutAPI } from '@/lib/api';
+import CustomExerciseModal, { CustomExercise } from './CustomExerciseModal';
+import { getTrackingType } from '@/lib/tracking';
+import { Edit2, Trash2 } from 'lucide-react';
+
+interface MyExercisesModalProps {
+  onClose: () => void;
+  showToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+// Lists the user's custom exercises, with create, edit and delete
+export default function MyExercisesModal({ onClose, showToast }: MyExercisesModalProps) {
+  const [exercises, setExercises] = useState<CustomExercise[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<CustomExercise | 'new' | null>(null);
+
+  const fetchExercises = async () => {
+    try {
+      const response = await workoutAPI.getExerciseLibrary({ custom: true });
+      setExercises(
+        [...response.data.exercises].sort((a: CustomExercise, b: CustomExercise) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      console.error('Error fetching custom exercises:', error);
+      showToast('Error loading your exercises', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExercises();
+  }, []);
+
+  const handleDelete = async (exercise: CustomExercise) => {
+    if (!confirm(`Delete "${exercise.name}"? Workouts that used it keep their history.`)) return;
+
+    try {
+      await workoutAPI.deleteCustomExercise(exercise._id);
+      setExercises(exercises.filter((e) => e._id !== exercise._id));
+      showToast('Exercise deleted', 'success');
+    } catch (error: any) {
+      showToast(error.response?.data?.message ?? 'Error deleting exercise', 'error');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 my-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">My Exercises</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <button
+          onClick={() => setEditing('new')}
+          className="w-full mb-4 px-4 py-3 bg-primary-100 text-primary-700 rounded-lg hover:bg-primary-200 transition font-medium"
+        >
+          + New Custom Exercise
+        </button>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Loading...</p>
+        ) : exercises.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            No custom exercises yet. Exercises you log that aren&apos;t in the library show up here too.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {exercises.map((exercise) => (
+              <div key={exercise._id} className="flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                <div className="min-w-0">
+                  <div className="font-semibold text-gray-900">{exercise.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {exercise.muscleGroup} • {exercise.equipment}
+                    {exercise.trackingType && ` • ${getTrackingType(exercise.trackingType).label}`}
+                    {exercise.secondaryMuscles.length > 0 && ` • also ${exercise.secondaryMuscles.join(', ')}`}
+                    {exercise.usageCount ? ` • used ${exercise.usageCount}×` : ''}
+                  </div>
+                  {exercise.notes && <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{exercise.notes}</p>}
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => setEditing(exercise)}
+                    className="p-2 text-gray-600 hover:bg-gray-200 rounded-lg transition"
+                    aria-label={`Edit ${exercise.name}`}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(exercise)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    aria-label={`Delete ${exercise.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <CustomExerciseModal
+          exercise={editing === 'new' ? undefined : editing}
+          onClose={() => setEditing(null)}
+          onSaved={(saved) => {
+            const others = exercises.filter((e) => e._id !== saved._id);
+            setExercises([...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+            setEditing(null);
+            showToast(editing === 'new' ? 'Exercise created! 🏷️' : 'Exercise updated', 'success');
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Trophy, X } from 'lucide-react';
+import { PersonalRecord } from '@/lib/offlineQueue';
+
+const CELEBRATION_MS = 8000;
+
+const describeRecord = (record: PersonalRecord) =>
+  record.type === 'estimated1RM' ? 'Estimated 1RM' : `${record.reps}RM`;
+
+interface PRCelebrationProps {
+  records: PersonalRecord[];
+  onClose: () => void;
+}
+
+// Shown in the active workout when a set breaks one or more personal records
+export default function PRCelebration({ records, onClose }: PRCelebrationProps) {
+  useEffect(() => {
+    navigator.vibrate?.([100, 50, 100, 50, 300]);
+    const timeout = setTimeout(onClose, CELEBRATION_MS);
+    return () => clearTimeout(timeout);
+  }, [records]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ type: 'spring', stiffness: 300, damping: 15 }}
+      className="mb-6 rounded-xl border-2 border-yellow-300 bg-gradient-to-r from-yellow-50 to-orange-50 p-4"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <motion.div
+            animate={{ rotate: [0, -15, 15, -10, 10, 0] }}
+            transition={{ duration: 0.8 }}
+          >
+            <Trophy className="w-8 h-8 text-yellow-500" />
+          </motion.div>
+          <div>
+            <p className="text-lg font-bold text-gray-900">
+              🎉 New PR{records.length > 1 ? 's' : ''}! {records[0].exerciseName}
+            </p>
+            <ul className="mt-1 space-y-0.5 text-sm text-gray-700">
+              {records.map((record) => (
+                <li key={`${record.type}-${record.reps}`}>
+                  <span className="font-semibold">{describeRecord(record)}:</span> {record.value}{' '}
+                  {record.weightUnit}
+                  {record.previousValue !== null && (
+                    <span className="text-green-600">
+                      {' '}
+                      (+{Math.round((record.value - record.previousValue) * 10) / 10} {record.weightUnit})
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Dismiss">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Timer, SkipForward } from 'lucide-react';
+
+const PREFERENCES_KEY = 'restTimerPreferences';
+export const DEFAULT_REST_SECONDS = 90;
+export const REST_ADJUST_SECONDS = 15;
+
+// Per-exercise rest lengths chosen with the +/- buttons, stored in localStorage
+export const getRestPreference = (exerciseName: string): number | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const preferences = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? '{}');
+    return preferences[exerciseName.toLowerCase()] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveRestPreference = (exerciseName: string, seconds: number) => {
+  try {
+    const preferences = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? '{}');
+    preferences[exerciseName.toLowerCase()] = seconds;
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error saving rest preference:', error);
+  }
+};
+
+// Three short beeps plus a vibration where the device supports it
+const playRestOverAlert = () => {
+  try {
+    const AudioContextClass = window.AudioContext ?? (window as any).webkitAudioContext;
+    if (AudioContextClass) {
+      const context = new AudioContextClass();
+      [0, 0.3, 0.6].forEach((offset) => {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = 880;
+        gain.gain.setValueAtTime(0.3, context.currentTime + offset);
+        gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.2);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(context.currentTime + offset);
+        oscillator.stop(context.currentTime + offset + 0.2);
+      });
+      setTimeout(() => context.close(), 1000);
+    }
+  } catch (error) {
+    console.error('Error playing rest alert:', error);
+  }
+
+  navigator.vibrate?.([200, 100, 200, 100, 200]);
+};
+
+interface RestTimerProps {
+  exerciseName: string;
+  duration: number;
+  endsAt: number;
+  onAdjust: (seconds: number) => void;
+  onSkip: () => void;
+}
+
+export default function RestTimer({ exerciseName, duration, endsAt, onAdjust, onSkip }: RestTimerProps) {
+  const [remaining, setRemaining] = useState(() => Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)));
+  const alerted = useRef(false);
+
+  useEffect(() => {
+    alerted.current = endsAt <= Date.now();
+
+    const tick = () => {
+      const seconds = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setRemaining(seconds);
+      if (seconds === 0 && !alerted.current) {
+        alerted.current = true;
+        playRestOverAlert();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [endsAt]);
+
+  const finished = remaining === 0;
+  const progress = duration > 0 ? Math.min(100, ((duration - remaining) / duration) * 100) : 100;
+  const minutes = Math.floor(remaining / 60);
+  const seconds = (remaining % 60).toString().padStart(2, '0');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`mb-6 rounded-xl border-2 p-4 ${
+        finished ? 'bg-green-50 border-green-300' : 'bg-blue-50 border-blue-200'
+      }`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Timer className={`w-6 h-6 ${finished ? 'text-green-600' : 'text-blue-600'}`} />
+          <div>
+            <p className="text-xs font-medium text-gray-600">Rest • {exerciseName}</p>
+            <p className={`text-3xl font-mono font-bold ${finished ? 'text-green-600' : 'text-blue-700'}`}>
+              {finished ? 'Go! 💪' : `${minutes}:${seconds}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onAdjust(-REST_ADJUST_SECONDS)}
+            disabled={finished}
+            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition text-sm font-medium disabled:opacity-50"
+          >
+            −{REST_ADJUST_SECONDS}s
+          </button>
+          <button
+            onClick={() => onAdjust(REST_ADJUST_SECONDS)}
+            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition text-sm font-medium"
+          >
+            +{REST_ADJUST_SECONDS}s
+          </button>
+          <button
+            onClick={onSkip}
+            className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition text-sm font-medium flex items-center gap-1"
+          >
+            <SkipForward className="w-4 h-4" />
+            {finished ? 'Dismiss' : 'Skip'}
+          </button>
+        </div>
+      </div>
+      <div className="mt-3 h-1.5 bg-white rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all duration-300 ${finished ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </motion.div>
+  );
+}
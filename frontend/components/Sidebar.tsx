@@ -7,6 +7,7 @@ import { motion } from 'framer-motion';
 import {
   LayoutDashboard,
   Calendar,
+  CalendarDays,
   Dumbbell,
   BarChart3,
   User,
@@ -15,6 +16,7 @@ import {
   Moon,
   Sun,
   LogOut,
+  Scale,
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { useTheme } from 'next-themes';
@@ -23,6 +25,8 @@ const navItems = [
   { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/habits', label: 'Habits', icon: Calendar },
   { href: '/workouts', label: 'Workouts', icon: Dumbbell },
+  { href: '/programs', label: 'Programs', icon: CalendarDays },
+  { href: '/measurements', label: 'Body', icon: Scale },
   { href: '/analytics', label: 'Progress', icon: BarChart3 },
   { href: '/profile', label: 'Profile', icon: User },
 ];
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Droppable, DroppableProps } from 'react-beautiful-dnd';
+
+// react-beautiful-dnd loses track of droppables when React's strict mode mounts them twice,
+// so they are only rendered after the first animation frame
+export default function StrictModeDroppable({ children, ...props }: DroppableProps) {
+  const [enabled, setEnabled] = useState(false);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setEnabled(true));
+    return () => {
+      cancelAnimationFrame(frame);
+      setEnabled(false);
+    };
+  }, []);
+
+  if (!enabled) return null;
+
+  return <Droppable {...props}>{children}</Droppable>;
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { startBackgroundSync, subscribeToSyncState, syncPendingMutations, SyncState } from '@/lib/offlineQueue';
+
+export default function SyncIndicator() {
+  const [syncState, setSyncState] = useState<SyncState>({ pending: 0, syncing: false });
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncState(setSyncState);
+    const stopSync = startBackgroundSync();
+
+    const updateOnline = () => setOnline(navigator.onLine);
+    updateOnline();
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+
+    return () => {
+      unsubscribe();
+      stopSync();
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const { pending, syncing } = syncState;
+
+  return (
+    <AnimatePresence>
+      {pending > 0 && (
+        <motion.button
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 50 }}
+          onClick={() => syncPendingMutations()}
+          disabled={syncing || !online}
+          title={online ? 'Sync now' : 'Changes will sync when you are back online'}
+          className="fixed bottom-4 right-4 z-50 flex items-center gap-2 px-4 py-2 rounded-full shadow-lg border-2 bg-amber-50 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 text-sm font-medium"
+        >
+          {online ? (
+            <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+          ) : (
+            <CloudOff className="w-4 h-4" />
+          )}
+          {pending} {pending === 1 ? 'change' : 'changes'} pending sync
+        </motion.button>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { authAPI } from '@/lib/api';
+import { ShieldCheck, ShieldOff, Copy, Download } from 'lucide-react';
+
+interface TwoFactorSettingsProps {
+  showToast: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+type Step = 'idle' | 'setup' | 'recovery-codes' | 'disable' | 'replace-codes';
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent transition';
+
+// Security tab section: turn two-factor authentication on with an authenticator app,
+// show the recovery codes once, and turn it off again after re-entering the password
+export default function TwoFactorSettings({ showToast }: TwoFactorSettingsProps) {
+  const { user, updateUser } = useAuth();
+  const [step, setStep] = useState<Step>('idle');
+  const [setup, setSetup] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const enabled = user?.twoFactorEnabled ?? false;
+
+  const reset = () => {
+    setStep('idle');
+    setSetup(null);
+    setCode('');
+    setPassword('');
+  };
+
+  const handleStartSetup = async () => {
+    setBusy(true);
+    try {
+      const response = await authAPI.setupTwoFactor();
+      setSetup(response.data);
+      setStep('setup');
+    } catch (err: any) {
+      showToast(err.response?.data?.message ?? 'Error starting two-factor setup', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const response = await authAPI.enableTwoFactor(code.trim());
+      setRecoveryCodes(response.data.recoveryCodes);
+      setStep('recovery-codes');
+      setSetup(null);
+      setCode('');
+      if (user) updateUser({ ...user, twoFactorEnabled: true });
+      showToast('Two-factor authentication enabled 🔒', 'success');
+    } catch (err: any) {
+      showToast(err.response?.data?.message ?? 'Error enabling two-factor authentication', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePasswordConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      if (step === 'disable') {
+        await authAPI.disableTwoFactor(password);
+        if (user) updateUser({ ...user, twoFactorEnabled: false });
+        showToast('Two-factor authentication disabled', 'info');
+        reset();
+      } else {
+        const response = await authAPI.replaceRecoveryCodes(password);
+        setRecoveryCodes(response.data.recoveryCodes);
+        setPassword('');
+        setStep('recovery-codes');
+        showToast('New recovery codes created', 'success');
+      }
+    } catch (err: any) {
+      showToast(err.response?.data?.message ?? 'Something went wrong', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      showToast('Recovery codes copied', 'success');
+    } catch (error) {
+      showToast('Could not copy to the clipboard', 'error');
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([`${recoveryCodes.join('\n')}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'habit-tracker-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-10 pt-8 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            Two-Factor Authentication
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                enabled
+                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                  : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {enabled ? 'On' : 'Off'}
+            </span>
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Ask for a code from an authenticator app every time you sign in
+          </p>
+        </div>
+        {step === 'idle' &&
+          (enabled ? (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setStep('replace-codes')}
+                className="px-4 py-2 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition text-sm font-medium"
+              >
+                New Recovery Codes
+              </button>
+              <button
+                type="button"
+                onClick={() => setStep('disable')}
+                className="flex items-center gap-1 px-4 py-2 bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 rounded-lg hover:bg-red-200 dark:hover:bg-red-900/50 transition text-sm font-medium"
+              >
+                <ShieldOff className="w-4 h-4" />
+                Turn Off
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={handleStartSetup}
+              disabled={busy}
+              className="flex items-center gap-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition text-sm font-medium disabled:opacity-50"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Set Up
+            </button>
+          ))}
+      </div>
+
+      {/* Scan the QR code, then confirm a code from the app */}
+      {step === 'setup' && setup && (
+        <form onSubmit={handleEnable} className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4 items-center">
+            <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-40 h-40 bg-white rounded-lg" />
+            <div className="text-sm text-gray-600 dark:text-gray-400 space-y-2">
+              <p>1. Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy.</p>
+              <p>
+                Can&apos;t scan it? Enter this key instead:
+                <code className="block mt-1 p-2 bg-gray-100 dark:bg-gray-700 rounded text-xs text-gray-900 dark:text-white break-all">
+                  {setup.secret}
+                </code>
+              </p>
+              <p>2. Enter the 6-digit code the app shows.</p>
+            </div>
+          </div>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className={`${inputClass} font-mono tracking-widest`}
+            placeholder="123456"
+          />
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={reset}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || code.trim().length !== 6}
+              className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-medium disabled:opacity-50"
+            >
+              {busy ? 'Checking...' : 'Turn On'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Recovery codes are only shown right after they are created */}
+      {step === 'recovery-codes' && (
+        <div className="p-4 border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 rounded-xl space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator
+            app. They won&apos;t be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode} className="p-2 bg-white dark:bg-gray-800 rounded text-center">
+                {recoveryCode}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={handleCopyCodes}
+              className="flex items-center gap-1 px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-sm font-medium"
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={handleDownloadCodes}
+              className="flex items-center gap-1 px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition text-sm font-medium"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setRecoveryCodes([]);
+                setStep('idle');
+              }}
+              className="ml-auto px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition text-sm font-medium"
+            >
+              I&apos;ve Saved Them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Turning two-factor off or replacing codes needs the password again */}
+      {(step === 'disable' || step === 'replace-codes') && (
+        <form
+          onSubmit={handlePasswordConfirm}
+          className="p-4 border border-gray-200 dark:border-gray-700 rounded-xl space-y-4"
+        >
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {step === 'disable'
+              ? 'Enter your password to turn off two-factor authentication.'
+              : 'Enter your password to create new recovery codes. Your current codes will stop working.'}
+          </p>
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            placeholder="Your password"
+          />
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={reset}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !password}
+              className={`flex-1 px-4 py-2 text-white rounded-lg transition font-medium disabled:opacity-50 ${
+                step === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+              }`}
+            >
+              {busy ? 'Checking...' : step === 'disable' ? 'Turn Off' : 'Create New Codes'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
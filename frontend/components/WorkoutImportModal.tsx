@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { importAPI, workoutAPI } from '@/lib/api';
+import { format, parseISO } from 'date-fns';
+import { Upload } from 'lucide-react';
+
+interface ImportedExercise {
+  sourceName: string;
+  name: string;
+  mapping: 'auto' | 'manual' | 'new';
+  libraryMatch: boolean;
+  suggestions: Array<{ name: string; score: number }>;
+}
+
+interface ImportPreview {
+  source: 'strong' | 'hevy' | 'fitnotes';
+  exercises: ImportedExercise[];
+  workouts: Array<{
+    importKey: string;
+    date: string;
+    notes: string;
+    duplicate: boolean;
+    exercises: Array<{ name: string; sets: number }>;
+  }>;
+  summary: { workouts: number; duplicates: number; sets: number; skippedRows: number };
+}
+
+const SOURCE_NAMES = { strong: 'Strong', hevy: 'Hevy', fitnotes: 'FitNotes' };
+const PREVIEW_LIMIT = 50;
+
+interface WorkoutImportModalProps {
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+export default function WorkoutImportModal({ onClose, onImported }: WorkoutImportModalProps) {
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const { user } = useAuth();
+  const [weightUnit, setWeightUnit] = useState<'kg' | 'lb'>(user?.weightUnit ?? 'kg');
+  const [sourceUnit, setSourceUnit] = useState<'kg' | 'lb'>(user?.weightUnit ?? 'kg');
+  const [mappings, setMappings] = useState<Record<string, string | null>>({});
+  const [previewStale, setPreviewStale] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [library, setLibrary] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    workoutAPI
+      .getExerciseLibrary()
+      .then((response) => setLibrary(response.data.exercises.map((exercise: { name: string }) => exercise.name)))
+      .catch((err) => console.error('Error fetching exercise library:', err));
+  }, []);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+    setFileName(file.name);
+    setMappings({});
+    setPreview(null);
+    setError('');
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    setError('');
+
+    try {
+      const response = await importAPI.previewWorkouts({ csv, weightUnit, sourceUnit, mappings });
+      setPreview(response.data);
+      setPreviewStale(false);
+    } catch (err: any) {
+      setPreview(null);
+      setError(err.response?.data?.message ?? 'Error reading file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+
+    try {
+      const response = await importAPI.commitWorkouts({ csv, weightUnit, sourceUnit, mappings });
+      onImported(response.data.imported);
+    } catch (err: any) {
+      setError(err.response?.data?.message ?? 'Error importing workouts');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateMapping = (sourceName: string, name: string) => {
+    setMappings({ ...mappings, [sourceName]: name });
+    setPreviewStale(true);
+  };
+
+  const newWorkouts = preview ? preview.summary.workouts - preview.summary.duplicates : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full p-6 my-8 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Import Workout History</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+            ×
+          </button>
+        </div>
+
+        {/* File and units */}
+        <div className="space-y-4 mb-6">
+          <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-primary-500 transition">
+            <Upload className="w-8 h-8 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">{fileName || 'Choose a CSV export'}</span>
+            <span className="text-xs text-gray-500">Strong, Hevy or FitNotes</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Import weights as</label>
+              <select
+                value={weightUnit}
+                onChange={(e) => {
+                  setWeightUnit(e.target.value as 'kg' | 'lb');
+                  setPreviewStale(true);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="kg">kg</option>
+                <option value="lb">lb</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Unit used in the file</label>
+              <select
+                value={sourceUnit}
+                onChange={(e) => {
+                  setSourceUnit(e.target.value as 'kg' | 'lb');
+                  setPreviewStale(true);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="kg">kg</option>
+                <option value="lb">lb</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Only used when the export doesn&apos;t name its unit (e.g. Strong)</p>
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {preview && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+              {[
+                { label: `${SOURCE_NAMES[preview.source]} workouts`, value: preview.summary.workouts },
+                { label: 'Sets', value: preview.summary.sets },
+                { label: 'Already imported', value: preview.summary.duplicates },
+                { label: 'Rows skipped', value: preview.summary.skippedRows },
+              ].map((stat) => (
+                <div key={stat.label} className="p-3 bg-gray-50 rounded-lg text-center">
+                  <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                  <div className="text-xs text-gray-600">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Exercise mapping */}
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Exercises</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              Check how each exercise will be named. Pick a library exercise or type any name.
+            </p>
+            <div className="space-y-2 mb-6">
+              {preview.exercises.map((exercise) => (
+                <div key={exercise.sourceName} className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+                  <span className="text-sm text-gray-700">{exercise.sourceName}</span>
+                  <div className="flex items-center gap-2">
+                    <input
+                      list={`import-${exercise.sourceName}`}
+                      value={mappings[exercise.sourceName] ?? exercise.name}
+                      onChange={(e) => updateMapping(exercise.sourceName, e.target.value)}
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <datalist id={`import-${exercise.sourceName}`}>
+                      {Array.from(new Set([...exercise.suggestions.map((s) => s.name), exercise.sourceName, ...library])).map(
+                        (name) => (
+                          <option key={name} value={name} />
+                        )
+                      )}
+                    </datalist>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        exercise.libraryMatch ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                      }`}
+                    >
+                      {exercise.libraryMatch ? 'Matched' : 'New'}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Workouts */}
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Workouts</h3>
+            <div className="space-y-2 mb-6">
+              {preview.workouts.slice(0, PREVIEW_LIMIT).map((workout) => (
+                <div
+                  key={workout.importKey}
+                  className={`p-3 rounded-lg text-sm ${workout.duplicate ? 'bg-gray-100 text-gray-400' : 'bg-gray-50'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">
+                      {format(parseISO(workout.date), 'EEE, MMM d, yyyy HH:mm')}
+                      {workout.notes && ` · ${workout.notes}`}
+                    </span>
+                    {workout.duplicate && <span className="text-xs font-medium">Already imported</span>}
+                  </div>
+                  <div className="text-gray-600">
+                    {workout.exercises.map((exercise) => `${exercise.name} ×${exercise.sets}`).join(', ')}
+                  </div>
+                </div>
+              ))}
+              {preview.workouts.length > PREVIEW_LIMIT && (
+                <p className="text-sm text-gray-500">…and {preview.workouts.length - PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 pt-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition font-medium"
+          >
+            Cancel
+          </button>
+          {!preview || previewStale ? (
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={!csv || busy}
+              className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-medium disabled:opacity-50"
+            >
+              {busy ? 'Reading...' : preview ? 'Update Preview' : 'Preview Import'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={busy || newWorkouts === 0}
+              className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition font-medium disabled:opacity-50"
+            >
+              {busy ? 'Importing...' : `Import ${newWorkouts} Workouts`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,38 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { authAPI, userAPI } from '@/lib/api';
+import { authAPI, onSessionExpired, userAPI } from '@/lib/api';
+import { getBrowserTimeZone } from '@/lib/dates';
+import { OneRepMaxFormula } from '@/lib/oneRepMax';
+import { WeightUnit } from '@/lib/weights';
 
 interface User {
   id: string;
   name: string;
   email: string;
+  timezone?: string;
+  oneRepMaxFormula?: OneRepMaxFormula;
+  weightUnit?: WeightUnit;
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  deletionScheduledFor?: string | null;
+}
+
+interface LoginResult {
+  twoFactorRequired: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (
+    code: string,
+    method: 'code' | 'recovery'
+  ) => Promise<{ recoveryCodesRemaining?: number }>;
   register: (name: string, email: string, password: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   updateUser: (user: User) => void;
 }
 
@@ -24,55 +41,82 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const twoFactorChallenge = useRef<string | null>(null);
   const router = useRouter();
 
   useEffect(() => {
     checkAuth();
+    onSessionExpired(() => setUser(null));
+    return () => onSessionExpired(null);
   }, []);
 
+  // The session lives in httpOnly cookies; the profile request tells whether it is still valid
   const checkAuth = async () => {
-    try {
-      const token = localStorage.getItem('token');
-      if (!token) {
-        setLoading(false);
-        return;
-      }
+    // Tokens used to be kept in localStorage; drop any left behind
+    localStorage.removeItem('token');
 
+    try {
       const response = await userAPI.getProfile();
       setUser(response.data.user);
     } catch (error) {
-      localStorage.removeItem('token');
+      setUser(null);
     } finally {
       setLoading(false);
     }
   };
 
+  // With two-factor on, the password step only returns a challenge; the session
+  // starts once completeTwoFactorLogin gets a valid code for it
   const login = async (email: string, password: string) => {
     try {
       const response = await authAPI.login({ email, password });
-      const { token, user } = response.data;
-      localStorage.setItem('token', token);
-      setUser(user);
+      if (response.data.twoFactorRequired) {
+        twoFactorChallenge.current = response.data.challengeToken;
+        return { twoFactorRequired: true };
+      }
+
+      setUser(response.data.user);
       router.push('/dashboard');
+      return { twoFactorRequired: false };
     } catch (error: any) {
       throw new Error(error.response?.data?.message ?? 'Login failed');
     }
   };
 
-  const register = async (name: string, email: string, password: string) => {
+  const completeTwoFactorLogin = async (code: string, method: 'code' | 'recovery') => {
     try {
-      const response = await authAPI.register({ name, email, password });
-      const { token, user } = response.data;
-      localStorage.setItem('token', token);
-      setUser(user);
+      const response = await authAPI.loginTwoFactor({
+        challengeToken: twoFactorChallenge.current ?? '',
+        ...(method === 'recovery' ? { recoveryCode: code } : { code }),
+      });
+      twoFactorChallenge.current = null;
+      setUser(response.data.user);
       router.push('/dashboard');
+      return { recoveryCodesRemaining: response.data.recoveryCodesRemaining };
+    } catch (error: any) {
+      // The page goes back to the password step when the challenge is used up
+      throw Object.assign(new Error(error.response?.data?.message ?? 'Verification failed'), {
+        challengeExpired: error.response?.data?.challengeExpired ?? false,
+      });
+    }
+  };
+
+  const register = async (name: string, email: string, password: string) => {
+    try {
+      const response = await authAPI.register({ name, email, password, timezone: getBrowserTimeZone() });
+      setUser(response.data.user);
+      router.push('/verify-email');
     } catch (error: any) {
       throw new Error(error.response?.data?.message ?? 'Registration failed');
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
+  const logout = async () => {
+    try {
+      await authAPI.logout();
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
     setUser(null);
     router.push('/');
   };
@@ -82,7 +126,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, register, logout, updateUser }}>
+    <AuthContext.Provider value={{ user, loading, login, completeTwoFactorLogin, register, logout, updateUser }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,31 +1,92 @@
 import axios from 'axios';
+import { OneRepMaxFormula } from './oneRepMax';
+import { WeightUnit } from './weights';
+import { GroupType, SetType } from './exerciseGroups';
+import { TrackingType } from './tracking';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:5000/api';
 
+// Auth tokens live in httpOnly cookies, so every request must send credentials
 const api = axios.create({
   baseURL: API_URL,
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Add token to requests
-api.interceptors.request.use((config) => {
-  if (typeof window !== 'undefined') {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+// Called when the session can no longer be refreshed (expired, or logged out elsewhere)
+let sessionExpiredHandler: (() => void) | null = null;
+export const onSessionExpired = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Access tokens are short-lived: on a 401, refresh once (shared by parallel requests)
+// and retry the original request
+let refreshRequest: Promise<unknown> | null = null;
+const SESSIONLESS_AUTH_ROUTES = [
+  '/auth/login',
+  '/auth/login/two-factor',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/verify-email',
+];
+
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const request = error.config;
+    if (
+      error.response?.status !== 401 ||
+      !request ||
+      request._retried ||
+      SESSIONLESS_AUTH_ROUTES.includes(request.url)
+    ) {
+      return Promise.reject(error);
     }
+
+    request._retried = true;
+    try {
+      refreshRequest =
+        refreshRequest ??
+        api.post('/auth/refresh').finally(() => {
+          refreshRequest = null;
+        });
+      await refreshRequest;
+    } catch (refreshError: any) {
+      if (refreshError.response?.status === 401) {
+        sessionExpiredHandler?.();
+      }
+      return Promise.reject(error);
+    }
+
+    return api(request);
   }
-  return config;
-});
+);
 
 // Auth APIs
 export const authAPI = {
-  register: (data: { name: string; email: string; password: string }) =>
+  register: (data: { name: string; email: string; password: string; timezone?: string }) =>
     api.post('/auth/register', data),
   login: (data: { email: string; password: string }) =>
     api.post('/auth/login', data),
+  loginTwoFactor: (data: { challengeToken: string; code?: string; recoveryCode?: string }) =>
+    api.post('/auth/login/two-factor', data),
+  logout: () => api.post('/auth/logout'),
+  forgotPassword: (email: string) => api.post('/auth/forgot-password', { email }),
+  resetPassword: (data: { token: string; password: string }) => api.post('/auth/reset-password', data),
+  verifyEmail: (token: string) => api.post('/auth/verify-email', { token }),
+  resendVerification: () => api.post('/auth/resend-verification'),
+  getSessions: () => api.get('/auth/sessions'),
+  revokeSession: (id: string) => api.delete(`/auth/sessions/${id}`),
+  revokeAllSessions: () => api.delete('/auth/sessions'),
+  setupTwoFactor: () => api.post('/auth/two-factor/setup'),
+  enableTwoFactor: (code: string) => api.post('/auth/two-factor/enable', { code }),
+  disableTwoFactor: (password: string) => api.post('/auth/two-factor/disable', { password }),
+  replaceRecoveryCodes: (password: string) => api.post('/auth/two-factor/recovery-codes', { password }),
 };
 
 // User APIs
@@ -35,7 +96,81 @@ export const userAPI = {
     api.put('/user/profile', data),
   changePassword: (data: { currentPassword: string; newPassword: string }) =>
     api.put('/user/change-password', data),
+  updatePreferences: (data: {
+    notificationsEnabled?: boolean;
+    timezone?: string;
+    oneRepMaxFormula?: OneRepMaxFormula;
+    weightUnit?: WeightUnit;
+  }) =>
+    api.put('/user/preferences', data),
   getStats: () => api.get('/user/stats'),
+  deleteAccount: (password: string) => api.delete('/user/account', { data: { password } }),
+  restoreAccount: () => api.post('/user/account/restore'),
+};
+
+// Measurement APIs
+export const measurementAPI = {
+  getAll: (params?: { from?: string; to?: string }) => api.get('/measurements', { params }),
+  log: (data: {
+    date?: string;
+    weight?: number | null;
+    weightUnit?: 'kg' | 'lb';
+    bodyFat?: number | null;
+    waist?: number | null;
+    chest?: number | null;
+    arms?: number | null;
+    hips?: number | null;
+    lengthUnit?: 'cm' | 'in';
+    notes?: string;
+  }) => api.post('/measurements', data),
+  update: (
+    id: string,
+    data: {
+      date?: string;
+      weight?: number | null;
+      weightUnit?: 'kg' | 'lb';
+      bodyFat?: number | null;
+      waist?: number | null;
+      chest?: number | null;
+      arms?: number | null;
+      hips?: number | null;
+      lengthUnit?: 'cm' | 'in';
+      notes?: string;
+    }
+  ) => api.put(`/measurements/${id}`, data),
+  delete: (id: string) => api.delete(`/measurements/${id}`),
+};
+
+// Export APIs
+export const exportAPI = {
+  workoutsCsv: () => api.get('/export/workouts.csv', { responseType: 'blob' }),
+  habitsCsv: () => api.get('/export/habits.csv', { responseType: 'blob' }),
+  archive: () => api.get('/export/archive', { responseType: 'blob' }),
+};
+
+// Import APIs
+export const importAPI = {
+  previewWorkouts: (data: {
+    csv: string;
+    weightUnit: 'kg' | 'lb';
+    sourceUnit?: 'kg' | 'lb';
+    mappings?: Record<string, string | null>;
+  }) => api.post('/import/workouts/preview', data),
+  commitWorkouts: (data: {
+    csv: string;
+    weightUnit: 'kg' | 'lb';
+    sourceUnit?: 'kg' | 'lb';
+    mappings?: Record<string, string | null>;
+  }) => api.post('/import/workouts/commit', data),
+  restoreArchive: (archive: unknown, mode: 'merge' | 'replace') => api.post('/import/archive', { archive, mode }),
+};
+
+// Notification APIs
+export const notificationAPI = {
+  getVapidPublicKey: () => api.get('/notifications/vapid-public-key'),
+  subscribe: (subscription: PushSubscriptionJSON) => api.post('/notifications/subscribe', { subscription }),
+  unsubscribe: (endpoint: string) => api.post('/notifications/unsubscribe', { endpoint }),
+  sendTest: () => api.post('/notifications/test'),
 };
 
 // Habit APIs
@@ -77,6 +212,7 @@ export const habitAPI = {
     api.post(`/habits/${id}/complete`, { date, value }),
   uncomplete: (id: string, date?: string) =>
     api.post(`/habits/${id}/uncomplete`, { date }),
+  freeze: (id: string, date: string) => api.post(`/habits/${id}/freeze`, { date }),
   getAnalytics: (id: string, days?: number) =>
     api.get(`/habits/${id}/analytics`, { params: days ? { days } : {} }),
   getDailySummary: (date?: string) =>
@@ -92,29 +228,38 @@ export const workoutAPI = {
     sortBy?: string;
     startDate?: string;
     endDate?: string;
+    status?: 'planned' | 'active' | 'paused' | 'completed';
   }) => api.get('/workouts', { params }),
   getById: (id: string) => api.get(`/workouts/${id}`),
   start: (data?: {
     date?: string;
     workoutType?: string;
     weightUnit?: 'kg' | 'lb';
+    templateId?: string;
+    clientId?: string;
+    occurredAt?: string;
   }) => api.post('/workouts/start', data),
   getActive: () => api.get('/workouts/active/current'),
-  pause: (id: string) => api.post(`/workouts/${id}/pause`),
-  resume: (id: string) => api.post(`/workouts/${id}/resume`),
-  end: (id: string) => api.post(`/workouts/${id}/end`),
+  activate: (id: string) => api.post(`/workouts/${id}/activate`),
+  pause: (id: string, data?: { occurredAt?: string }) => api.post(`/workouts/${id}/pause`, data),
+  resume: (id: string, data?: { occurredAt?: string }) => api.post(`/workouts/${id}/resume`, data),
+  end: (id: string, data?: { occurredAt?: string }) => api.post(`/workouts/${id}/end`, data),
   create: (data: {
     date?: string;
     exercises: Array<{
       name: string;
       muscleGroup?: string;
       equipment?: string;
+      trackingType?: TrackingType;
       sets: Array<{
         reps: number;
         weight: number;
+        duration?: number;
+        distance?: number;
         restTime?: number;
         rpe?: number;
         completed?: boolean;
+        setType?: SetType;
       }>;
     }>;
     notes?: string;
@@ -127,18 +272,65 @@ export const workoutAPI = {
     name: string;
     muscleGroup?: string;
     equipment?: string;
+    trackingType?: TrackingType;
+    clientId?: string;
   }) => api.post(`/workouts/${id}/exercises`, data),
   addSet: (
     id: string,
     exerciseIndex: number,
     data: {
-      reps: number;
-      weight: number;
+      reps?: number;
+      weight?: number;
+      duration?: number;
+      distance?: number;
       restTime?: number;
       rpe?: number;
       completed?: boolean;
+      setType?: SetType;
+      clientId?: string;
+      occurredAt?: string;
     }
   ) => api.post(`/workouts/${id}/exercises/${exerciseIndex}/sets`, data),
+  // `groupType: null` ungroups the exercises
+  groupExercises: (id: string, data: { exerciseIndexes: number[]; groupType: GroupType | null; clientId?: string }) =>
+    api.put(`/workouts/${id}/groups`, data),
+  // `exerciseIndexes` lists every current index in the new order
+  reorderExercises: (id: string, exerciseIndexes: number[]) =>
+    api.put(`/workouts/${id}/exercises/order`, { exerciseIndexes }),
+  updateExercise: (
+    id: string,
+    exerciseIndex: number,
+    data: {
+      name?: string;
+      muscleGroup?: string | null;
+      equipment?: string | null;
+      trackingType?: TrackingType;
+      targetSets?: number | null;
+      targetReps?: number | null;
+      targetWeight?: number | null;
+    }
+  ) => api.put(`/workouts/${id}/exercises/${exerciseIndex}`, data),
+  removeExercise: (id: string, exerciseIndex: number) => api.delete(`/workouts/${id}/exercises/${exerciseIndex}`),
+  // `setIndexes` lists every current set index in the new order
+  reorderSets: (id: string, exerciseIndex: number, setIndexes: number[]) =>
+    api.put(`/workouts/${id}/exercises/${exerciseIndex}/sets/order`, { setIndexes }),
+  updateSet: (
+    id: string,
+    exerciseIndex: number,
+    setIndex: number,
+    data: {
+      reps?: number;
+      weight?: number;
+      duration?: number | null;
+      distance?: number | null;
+      restTime?: number | null;
+      rpe?: number | null;
+      completed?: boolean;
+      setType?: SetType;
+    }
+  ) => api.put(`/workouts/${id}/exercises/${exerciseIndex}/sets/${setIndex}`, data),
+  removeSet: (id: string, exerciseIndex: number, setIndex: number) =>
+    api.delete(`/workouts/${id}/exercises/${exerciseIndex}/sets/${setIndex}`),
   update: (
     id: string,
     data: {
@@ -147,12 +339,16 @@ export const workoutAPI = {
         name: string;
         muscleGroup?: string;
         equipment?: string;
+        trackingType?: TrackingType;
         sets: Array<{
           reps: number;
           weight: number;
+          duration?: number;
+          distance?: number;
           restTime?: number;
           rpe?: number;
           completed?: boolean;
+          setType?: SetType;
         }>;
       }>;
       notes?: string;
@@ -174,8 +370,100 @@ export const workoutAPI = {
     search?: string;
     muscleGroup?: string;
     equipment?: string;
+    custom?: boolean;
   }) => api.get('/workouts/exercises/library', { params }),
+  createCustomExercise: (data: {
+    name: string;
+    muscleGroup: string;
+    equipment: string;
+    trackingType?: TrackingType | null;
+    secondaryMuscles?: string[];
+    notes?: string;
+  }) => api.post('/workouts/exercises/library', data),
+  updateCustomExercise: (
+    id: string,
+    data: {
+      name?: string;
+      muscleGroup?: string;
+      equipment?: string;
+      trackingType?: TrackingType | null;
+      secondaryMuscles?: string[];
+      notes?: string;
+    }
+  ) => api.put(`/workouts/exercises/library/${id}`, data),
+  deleteCustomExercise: (id: string) => api.delete(`/workouts/exercises/library/${id}`),
+  getExerciseHistory: (name: string, params?: { unit?: 'kg' | 'lb' }) =>
+    api.get(`/workouts/exercises/${encodeURIComponent(name)}/history`, { params }),
   getPRs: (params?: { exerciseName?: string }) => api.get('/workouts/prs', { params }),
+  getPersonalRecords: (params?: { exerciseName?: string }) => api.get('/workouts/records', { params }),
+};
+
+// Workout Template APIs
+export const templateAPI = {
+  getAll: () => api.get('/templates'),
+  create: (data: {
+    name: string;
+    workoutType?: string;
+    weightUnit?: 'kg' | 'lb';
+    exercises: Array<{
+      name: string;
+      muscleGroup?: string;
+      equipment?: string;
+      targetSets?: number;
+      targetReps?: number;
+      targetWeight?: number;
+    }>;
+  }) => api.post('/templates', data),
+  createFromWorkout: (workoutId: string, name: string) =>
+    api.post(`/templates/from-workout/${workoutId}`, { name }),
+  update: (
+    id: string,
+    data: {
+      name?: string;
+      workoutType?: string;
+      weightUnit?: 'kg' | 'lb';
+      exercises?: Array<{
+        name: string;
+        muscleGroup?: string;
+        equipment?: string;
+        targetSets?: number;
+        targetReps?: number;
+        targetWeight?: number;
+      }>;
+    }
+  ) => api.put(`/templates/${id}`, data),
+  delete: (id: string) => api.delete(`/templates/${id}`),
+};
+
+// Training Program APIs
+export const programAPI = {
+  getAll: () => api.get('/programs'),
+  getById: (id: string) => api.get(`/programs/${id}`),
+  getToday: () => api.get('/programs/today'),
+  create: (data: {
+    name: string;
+    startDate?: string;
+    weeks: number;
+    weightUnit?: 'kg' | 'lb';
+    sessions: Array<{
+      name: string;
+      dayOfWeek: number;
+      workoutType?: string;
+      exercises: Array<{
+        name: string;
+        muscleGroup?: string;
+        equipment?: string;
+        sets: number;
+        reps: number;
+        progressionType: 'percentage' | 'fixed';
+        trainingMax?: number;
+        weekPercentages?: number[];
+        startWeight?: number;
+        increment?: number;
+      }>;
+    }>;
+  }) => api.post('/programs', data),
+  delete: (id: string) => api.delete(`/programs/${id}`),
 };
 
 export default api;
@@ -0,0 +1,72 @@
+import { addDays, startOfDay, startOfWeek, toDateKey } from './dates';
+import { convertWeight } from './weights';
+
+export interface Measurement {
+  _id: string;
+  date: string;
+  weight: number | null;
+  weightUnit: 'kg' | 'lb';
+  bodyFat: number | null;
+  waist: number | null;
+  chest: number | null;
+  arms: number | null;
+  hips: number | null;
+  lengthUnit: 'cm' | 'in';
+  notes: string;
+}
+
+export interface TrendPoint {
+  date: string;
+  weight: number;
+  trend: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Smoothing per day: each weigh-in moves the trend 10% of the way towards it
+const SMOOTHING = 0.1;
+
+// Exponentially smoothed bodyweight, so day-to-day water swings don't hide the trend.
+// Gaps between weigh-ins count as several days of smoothing. Entries must be sorted by date.
+export const getWeightTrend = (measurements: Measurement[], unit: 'kg' | 'lb'): TrendPoint[] => {
+  const points: TrendPoint[] = [];
+
+  measurements.forEach((m) => {
+    if (m.weight === null) return;
+    const weight = convertWeight(m.weight, m.weightUnit, unit);
+    const previous = points[points.length - 1];
+
+    if (!previous) {
+      points.push({ date: toDateKey(m.date), weight, trend: weight });
+      return;
+    }
+
+    const days = Math.max(1, Math.round((startOfDay(m.date).getTime() - startOfDay(previous.date).getTime()) / DAY_MS));
+    const alpha = 1 - Math.pow(1 - SMOOTHING, days);
+    points.push({ date: toDateKey(m.date), weight, trend: previous.trend + alpha * (weight - previous.trend) });
+  });
+
+  return points;
+};
+
+// Change in trend weight per week (Monday to Monday), scaled to 7 days when weigh-ins are sparse
+export const getWeeklyRates = (trend: TrendPoint[]) => {
+  const lastPerWeek = new Map<string, TrendPoint>();
+  trend.forEach((point) => lastPerWeek.set(toDateKey(startOfWeek(startOfDay(point.date))), point));
+
+  const weeks = Array.from(lastPerWeek.entries());
+  return weeks.slice(1).map(([week, point], index) => {
+    const previous = weeks[index][1];
+    const days = (startOfDay(point.date).getTime() - startOfDay(previous.date).getTime()) / DAY_MS;
+    return { week, change: days > 0 ? ((point.trend - previous.trend) / days) * 7 : 0 };
+  });
+};
+
+// Trend change over the last 7 days, or null without enough data
+export const getCurrentWeeklyRate = (trend: TrendPoint[]) => {
+  if (trend.length < 2) return null;
+  const latest = trend[trend.length - 1];
+  const weekAgo = toDateKey(addDays(startOfDay(latest.date), -7));
+  const earlier = [...trend].reverse().find((point) => point.date <= weekAgo) ?? trend[0];
+  const days = (startOfDay(latest.date).getTime() - startOfDay(earlier.date).getTime()) / DAY_MS;
+  return days > 0 ? ((latest.trend - earlier.trend) / days) * 7 : null;
+};
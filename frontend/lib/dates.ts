@@ -0,0 +1,64 @@
+// Calendar dates are stored and compared as UTC midnight ("2024-01-15T00:00:00.000Z"), so a
+// day means the same thing whatever timezone the server or browser runs in. The user's
+// timezone only decides which calendar date an instant (like "now") falls on.
+//
+// Mirrors backend/utils/dates.js - keep the two in sync.
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar date of a "YYYY-MM-DD" key, or the UTC date of an instant
+export const startOfDay = (date: Date | string) => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+export const addDays = (date: Date, days: number) => {
+  const day = new Date(date);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day;
+};
+
+export const toDateKey = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+// Monday of the calendar date's week
+export const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getUTCDay() + 6) % 7));
+};
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar date an instant falls on in a timezone, e.g. when a workout happened
+export const toLocalDay = (date: Date | string, timeZone?: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  })
+    .formatToParts(new Date(date))
+    .reduce<Record<string, string>>((acc, part) => ({ ...acc, [part.type]: part.value }), {});
+  return startOfDay(`${parts.year}-${parts.month}-${parts.day}`);
+};
+
+// The user's current calendar date (the browser's when no timezone is known yet)
+export const getUserToday = (timeZone?: string) => toLocalDay(new Date(), timeZone);
+
+// date-fns and <input type="date"> work in browser-local time: convert between the two
+export const fromLocalDate = (date: Date) =>
+  startOfDay(`${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`);
+
+export const toLocalDate = (date: Date | string) => {
+  const day = new Date(date);
+  return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+};
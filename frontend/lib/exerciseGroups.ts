@@ -0,0 +1,70 @@
+// Set types and exercise groups (supersets, circuits, giant sets), matching the server's
+// (backend/models/Workout.js)
+
+export type SetType = 'warmup' | 'working' | 'drop' | 'failure' | 'amrap';
+export type GroupType = 'superset' | 'circuit' | 'giantSet';
+
+export const SET_TYPES: { value: SetType; label: string }[] = [
+  { value: 'warmup', label: 'Warm-up' },
+  { value: 'working', label: 'Working' },
+  { value: 'drop', label: 'Drop set' },
+  { value: 'failure', label: 'To failure' },
+  { value: 'amrap', label: 'AMRAP' },
+];
+
+export const GROUP_TYPES: { value: GroupType; label: string }[] = [
+  { value: 'superset', label: 'Superset' },
+  { value: 'circuit', label: 'Circuit' },
+  { value: 'giantSet', label: 'Giant set' },
+];
+
+export const getSetTypeLabel = (setType?: SetType | null) =>
+  SET_TYPES.find((type) => type.value === (setType ?? 'working'))!.label;
+
+export const getGroupLabel = (groupType?: GroupType | null) =>
+  GROUP_TYPES.find((type) => type.value === groupType)?.label ?? 'Group';
+
+// Warm-up sets are logged but left out of volume, 1RM estimates and records
+export const countedSets = <S extends { setType?: SetType | null }>(sets: S[]) =>
+  sets.filter((set) => set.setType !== 'warmup');
+
+interface GroupableExercise {
+  groupId?: string | null;
+  groupType?: GroupType | null;
+}
+
+export interface ExerciseBlock {
+  groupId: string | null;
+  groupType: GroupType | null;
+  // Positions in the workout's exercise list
+  indexes: number[];
+}
+
+// Exercises in display order: each group shown once, where its first exercise is
+export const toExerciseBlocks = (exercises: GroupableExercise[]): ExerciseBlock[] => {
+  const blocks: ExerciseBlock[] = [];
+  exercises.forEach((exercise, index) => {
+    const group = exercise.groupId ? blocks.find((block) => block.groupId === exercise.groupId) : undefined;
+    if (group) {
+      group.indexes.push(index);
+    } else {
+      blocks.push({ groupId: exercise.groupId ?? null, groupType: exercise.groupType ?? null, indexes: [index] });
+    }
+  });
+  return blocks;
+};
+
+// The exercises with each group's members moved up behind its first exercise, as the
+// server does after grouping
+export const gatherGroups = <E extends GroupableExercise>(exercises: E[]) =>
+  toExerciseBlocks(exercises).flatMap((block) => block.indexes.map((index) => exercises[index]));
+
+// The exercise to do after a set of `index`: the next one in its group, wrapping around to
+// the first after the last. Returns null for exercises that aren't grouped.
+export const getNextInGroup = (exercises: GroupableExercise[], index: number) => {
+  const groupId = exercises[index]?.groupId;
+  if (!groupId) return null;
+
+  const members = toExerciseBlocks(exercises).find((block) => block.groupId === groupId)!.indexes;
+  return members[(members.indexOf(index) + 1) % members.length];
+};
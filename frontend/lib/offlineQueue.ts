@@ -0,0 +1,875 @@
+import axios from 'axios';
+import { workoutAPI } from './api';
+import { gatherGroups, GroupType, SetType } from './exerciseGroups';
+import { TrackingType } from './tracking';
+
+// Offline-first layer for the active workout.
+//
+// Mutations are applied to a local copy of the workout immediately and sent to
+// the server when possible. If the network is unreachable they are stored in an
+// IndexedDB queue and replayed in order once the connection returns. Every
+// mutation carries a clientId and the time it happened, so the server can skip
+// duplicates and keep the original timestamps when a replay arrives late.
+
+export interface LocalSet {
+  _id?: string;
+  reps: number;
+  weight: number;
+  duration?: number | null;
+  distance?: number | null;
+  restTime?: number | null;
+  rpe?: number | null;
+  completed?: boolean;
+  setType?: SetType;
+  loggedAt?: string | null;
+  clientId?: string | null;
+}
+
+export interface LocalExercise {
+  _id?: string;
+  name: string;
+  muscleGroup?: string | null;
+  equipment?: string | null;
+  trackingType?: TrackingType;
+  sets: LocalSet[];
+  targetSets?: number | null;
+  targetReps?: number | null;
+  targetWeight?: number | null;
+  order?: number;
+  groupId?: string | null;
+  groupType?: GroupType | null;
+  clientId?: string | null;
+}
+
+export interface LocalWorkout {
+  _id: string;
+  date: string;
+  status?: 'planned' | 'active' | 'paused' | 'completed';
+  startTime?: string | null;
+  endTime?: string | null;
+  pausedAt?: string | null;
+  duration?: number;
+  pausedDuration?: number;
+  workoutType?: string | null;
+  weightUnit?: 'kg' | 'lb';
+  // Only sent with the active workout; kept across changes, whose responses leave it out
+  bodyweight?: number | null;
+  exercises: LocalExercise[];
+  elapsedDuration?: number;
+  clientId?: string | null;
+}
+
+interface StartPayload {
+  date?: string;
+  workoutType?: string;
+  weightUnit?: 'kg' | 'lb';
+  templateId?: string;
+}
+
+interface ExercisePayload {
+  name: string;
+  muscleGroup?: string;
+  equipment?: string;
+  trackingType?: TrackingType;
+}
+
+interface ExerciseRef {
+  exerciseIndex: number;
+  // Used to find the exercise again if the server copy has a different order
+  exerciseName: string;
+  exerciseId?: string | null;
+  exerciseClientId?: string | null;
+}
+
+interface SetRef {
+  setIndex: number;
+  // Used to find the set again if the server copy has a different order
+  setId?: string | null;
+  setClientId?: string | null;
+}
+
+interface SetPayload extends ExerciseRef {
+  set: {
+    reps?: number;
+    weight?: number;
+    duration?: number;
+    distance?: number;
+    restTime?: number;
+    rpe?: number;
+    completed?: boolean;
+    setType?: SetType;
+  };
+}
+
+interface GroupPayload {
+  exercises: ExerciseRef[];
+  groupType: GroupType | null;
+}
+
+export interface ExerciseChanges {
+  name?: string;
+  muscleGroup?: string | null;
+  equipment?: string | null;
+  trackingType?: TrackingType;
+  targetSets?: number | null;
+  targetReps?: number | null;
+  targetWeight?: number | null;
+}
+
+export interface SetChanges {
+  reps?: number;
+  weight?: number;
+  duration?: number | null;
+  distance?: number | null;
+  restTime?: number | null;
+  rpe?: number | null;
+  completed?: boolean;
+  setType?: SetType;
+}
+
+type QueuedMutation = {
+  id?: number;
+  workoutId: string;
+  clientId: string;
+  occurredAt: string;
+} & (
+  | { type: 'start'; payload: StartPayload & { exercises?: LocalExercise[] } }
+  | { type: 'addExercise'; payload: ExercisePayload }
+  | { type: 'addSet'; payload: SetPayload }
+  | { type: 'group'; payload: GroupPayload }
+  // `exercises` in their new order
+  | { type: 'reorderExercises'; payload: { exercises: ExerciseRef[] } }
+  | { type: 'updateExercise'; payload: ExerciseRef & { changes: ExerciseChanges } }
+  | { type: 'removeExercise'; payload: ExerciseRef }
+  // `sets` in their new order
+  | { type: 'reorderSets'; payload: ExerciseRef & { sets: SetRef[] } }
+  | { type: 'updateSet'; payload: ExerciseRef & SetRef & { changes: SetChanges } }
+  | { type: 'removeSet'; payload: ExerciseRef & SetRef }
+  | { type: 'pause' | 'resume' | 'end'; payload: null }
+);
+
+// Distributes Omit over the union so each variant keeps its payload type
+type NewMutation = QueuedMutation extends infer M
+  ? M extends QueuedMutation
+    ? Omit<M, 'id' | 'clientId' | 'occurredAt'>
+    : never
+  : never;
+
+// A record broken by a set, as returned when the set is logged
+export interface PersonalRecord {
+  exerciseName: string;
+  type: 'repMax' | 'estimated1RM';
+  reps: number | null;
+  value: number;
+  previousValue: number | null;
+  weightUnit: 'kg' | 'lb';
+  set: { reps: number; weight: number };
+  workoutId: string;
+  achievedAt: string;
+}
+
+export interface SyncState {
+  pending: number;
+  syncing: boolean;
+}
+
+export interface OfflineResult {
+  workout: LocalWorkout;
+  queued: boolean;
+  // Records broken by a set sent straight to the server; not known for queued sets
+  personalRecords: PersonalRecord[];
+}
+
+interface SentMutation {
+  workout: LocalWorkout;
+  personalRecords: PersonalRecord[];
+}
+
+const DB_NAME = 'habit-gym-tracker-offline';
+const DB_VERSION = 1;
+const MUTATIONS_STORE = 'mutations';
+const WORKOUT_STORE = 'activeWorkout';
+const WORKOUT_KEY = 'current';
+const LOCAL_ID_PREFIX = 'local-';
+const SYNC_INTERVAL_MS = 30000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let syncPromise: Promise<void> | null = null;
+// Local workout ids mapped to the ids the server assigned when their start synced, for
+// mutations already read from the queue or made against a stale copy. The queue and the
+// local copy themselves are rewritten when the start syncs (see removeSyncedStart).
+const serverIds: Record<string, string> = {};
+let state: SyncState = { pending: 0, syncing: false };
+const listeners = new Set<(state: SyncState) => void>();
+
+const isIndexedDBAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(WORKOUT_STORE)) {
+          db.createObjectStore(WORKOUT_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getQueuedMutations = async () => {
+  if (!isIndexedDBAvailable()) return [];
+  const mutations = await runRequest<QueuedMutation[]>(MUTATIONS_STORE, 'readonly', (store) => store.getAll());
+  return mutations.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+const countQueuedMutations = () =>
+  isIndexedDBAvailable()
+    ? runRequest<number>(MUTATIONS_STORE, 'readonly', (store) => store.count())
+    : Promise.resolve(0);
+
+const removeQueuedMutation = (id: number) =>
+  runRequest<void>(MUTATIONS_STORE, 'readwrite', (store) => store.delete(id));
+
+// Remove a synced start and point the changes queued after it, and the local copy, at the
+// workout the server created (or merged it into). It is one transaction, so a reload or a
+// dropped connection before the rest replays can't leave them on the `local-` id.
+const removeSyncedStart = async (start: QueuedMutation, serverId: string) => {
+  const db = await openDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([MUTATIONS_STORE, WORKOUT_STORE], 'readwrite');
+    const mutations = transaction.objectStore(MUTATIONS_STORE);
+    const workouts = transaction.objectStore(WORKOUT_STORE);
+
+    mutations.delete(start.id!);
+    const cursorRequest = mutations.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const mutation = cursor.value as QueuedMutation;
+      if (mutation.workoutId === start.workoutId) cursor.update({ ...mutation, workoutId: serverId });
+      cursor.continue();
+    };
+
+    const workoutRequest = workouts.get(WORKOUT_KEY);
+    workoutRequest.onsuccess = () => {
+      const workout = workoutRequest.result as LocalWorkout | undefined;
+      if (workout?._id === start.workoutId) workouts.put({ ...workout, _id: serverId }, WORKOUT_KEY);
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const readLocalWorkout = async () => {
+  if (!isIndexedDBAvailable()) return null;
+  const workout = await runRequest<LocalWorkout | undefined>(WORKOUT_STORE, 'readonly', (store) =>
+    store.get(WORKOUT_KEY)
+  );
+  return workout ?? null;
+};
+
+// Finished workouts are not kept: the local copy only mirrors the active one
+const saveLocalWorkout = async (workout: LocalWorkout | null) => {
+  if (!isIndexedDBAvailable()) return;
+  await runRequest<void>(WORKOUT_STORE, 'readwrite', (store) =>
+    workout && workout.status !== 'completed' ? store.put(workout, WORKOUT_KEY) : store.delete(WORKOUT_KEY)
+  );
+};
+
+const setState = (changes: Partial<SyncState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener(state));
+};
+
+const refreshPendingCount = async () => {
+  setState({ pending: await countQueuedMutations() });
+};
+
+export const subscribeToSyncState = (listener: (state: SyncState) => void) => {
+  listeners.add(listener);
+  listener(state);
+  refreshPendingCount().catch((error) => console.error('Error reading offline queue:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const generateClientId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Requests that never got an answer: the server was unreachable or timed out. Anything
+// else, including bugs thrown before a request was sent, is not queued for a replay.
+const NETWORK_ERROR_CODES = ['ERR_NETWORK', 'ECONNABORTED', 'ETIMEDOUT'];
+const isNetworkError = (error: unknown) =>
+  axios.isAxiosError(error) && !error.response && NETWORK_ERROR_CODES.includes(error.code ?? '');
+
+const secondsBetween = (from: string | null | undefined, to: string) =>
+  from ? Math.max(0, Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 1000)) : 0;
+
+// Mirrors the elapsed time the server reports for the active workout
+const withElapsedDuration = (workout: LocalWorkout): LocalWorkout => ({
+  ...workout,
+  elapsedDuration:
+    (workout.duration ?? 0) +
+    (workout.status === 'active' ? secondsBetween(workout.startTime, new Date().toISOString()) : 0),
+});
+
+// A superset, circuit or giant set left with a single exercise is dissolved
+const dissolveSingleGroups = (exercises: LocalExercise[]) =>
+  exercises.map((exercise) =>
+    exercise.groupId && exercises.filter((other) => other.groupId === exercise.groupId).length < 2
+      ? { ...exercise, groupId: null, groupType: null }
+      : exercise
+  );
+
+// A copy of the workout with `update` applied to one of its exercises
+const updateExerciseAt = (
+  workout: LocalWorkout,
+  exerciseIndex: number,
+  update: (exercise: LocalExercise) => LocalExercise
+): LocalWorkout => ({
+  ...workout,
+  exercises: workout.exercises.map((exercise, index) => (index === exerciseIndex ? update(exercise) : exercise)),
+});
+
+// Apply a mutation to the local copy the same way the server would
+const applyMutation = (workout: LocalWorkout | null, mutation: QueuedMutation): LocalWorkout => {
+  const { occurredAt, clientId } = mutation;
+
+  if (mutation.type === 'start') {
+    return {
+      _id: mutation.workoutId,
+      clientId,
+      date: mutation.payload.date ?? occurredAt,
+      status: 'active',
+      startTime: occurredAt,
+      endTime: null,
+      pausedAt: null,
+      duration: 0,
+      pausedDuration: 0,
+      workoutType: mutation.payload.workoutType ?? null,
+      weightUnit: mutation.payload.weightUnit ?? 'kg',
+      exercises: mutation.payload.exercises ?? [],
+    };
+  }
+
+  if (!workout) {
+    throw new Error('No active workout to update');
+  }
+
+  switch (mutation.type) {
+    case 'addExercise':
+      return {
+        ...workout,
+        exercises: [
+          ...workout.exercises,
+          {
+            name: mutation.payload.name,
+            muscleGroup: mutation.payload.muscleGroup ?? null,
+            equipment: mutation.payload.equipment ?? null,
+            trackingType: mutation.payload.trackingType,
+            sets: [],
+            order: workout.exercises.length,
+            clientId,
+          },
+        ],
+      };
+    case 'addSet':
+      return {
+        ...workout,
+        exercises: workout.exercises.map((exercise, index) =>
+          index === mutation.payload.exerciseIndex
+            ? {
+                ...exercise,
+                sets: [
+                  ...exercise.sets,
+                  {
+                    ...mutation.payload.set,
+                    reps: mutation.payload.set.reps ?? 0,
+                    weight: mutation.payload.set.weight ?? 0,
+                    completed: mutation.payload.set.completed ?? true,
+                    loggedAt: occurredAt,
+                    clientId,
+                  },
+                ],
+              }
+            : exercise
+        ),
+      };
+    case 'group': {
+      // The mutation's clientId becomes the group id, as on the server
+      const indexes = mutation.payload.exercises.map((ref) => ref.exerciseIndex);
+      const groupId = mutation.payload.groupType ? clientId : null;
+      const exercises = workout.exercises.map((exercise, index) =>
+        indexes.includes(index) ? { ...exercise, groupId, groupType: mutation.payload.groupType } : exercise
+      );
+      return {
+        ...workout,
+        exercises: gatherGroups(dissolveSingleGroups(exercises)).map((exercise, order) => ({ ...exercise, order })),
+      };
+    }
+    case 'reorderExercises':
+      return {
+        ...workout,
+        exercises: mutation.payload.exercises.map((ref, order) => ({
+          ...workout.exercises[ref.exerciseIndex],
+          order,
+        })),
+      };
+    case 'updateExercise':
+      return updateExerciseAt(workout, mutation.payload.exerciseIndex, (exercise) => ({
+        ...exercise,
+        ...mutation.payload.changes,
+      }));
+    case 'removeExercise':
+      return {
+        ...workout,
+        exercises: dissolveSingleGroups(
+          workout.exercises
+            .filter((_, index) => index !== mutation.payload.exerciseIndex)
+            .map((exercise, order) => ({ ...exercise, order }))
+        ),
+      };
+    case 'reorderSets':
+      return updateExerciseAt(workout, mutation.payload.exerciseIndex, (exercise) => ({
+        ...exercise,
+        sets: mutation.payload.sets.map((ref) => exercise.sets[ref.setIndex]),
+      }));
+    case 'updateSet':
+      return updateExerciseAt(workout, mutation.payload.exerciseIndex, (exercise) => ({
+        ...exercise,
+        sets: exercise.sets.map((set, index) =>
+          index === mutation.payload.setIndex ? { ...set, ...mutation.payload.changes } : set
+        ),
+      }));
+    case 'removeSet':
+      return updateExerciseAt(workout, mutation.payload.exerciseIndex, (exercise) => ({
+        ...exercise,
+        sets: exercise.sets.filter((_, index) => index !== mutation.payload.setIndex),
+      }));
+    case 'pause':
+      return {
+        ...workout,
+        status: 'paused',
+        duration: (workout.duration ?? 0) + secondsBetween(workout.startTime, occurredAt),
+        pausedAt: occurredAt,
+      };
+    case 'resume':
+      return {
+        ...workout,
+        status: 'active',
+        pausedDuration: (workout.pausedDuration ?? 0) + secondsBetween(workout.pausedAt, occurredAt),
+        pausedAt: null,
+        startTime: occurredAt,
+      };
+    case 'end':
+      return {
+        ...workout,
+        status: 'completed',
+        duration:
+          (workout.duration ?? 0) +
+          (workout.status === 'active' ? secondsBetween(workout.startTime, occurredAt) : 0),
+        endTime: occurredAt,
+        pausedAt: null,
+      };
+  }
+};
+
+// Find the exercise a queued change refers to in the server's copy of the workout
+const resolveExerciseIndex = (workout: LocalWorkout, payload: ExerciseRef) => {
+  if (payload.exerciseId) {
+    const index = workout.exercises.findIndex((exercise) => exercise._id === payload.exerciseId);
+    if (index !== -1) return index;
+  }
+  if (payload.exerciseClientId) {
+    const index = workout.exercises.findIndex((exercise) => exercise.clientId === payload.exerciseClientId);
+    if (index !== -1) return index;
+  }
+  if (workout.exercises[payload.exerciseIndex]?.name === payload.exerciseName) {
+    return payload.exerciseIndex;
+  }
+  return workout.exercises.findIndex((exercise) => exercise.name === payload.exerciseName);
+};
+
+// Find the set a queued change refers to. Unlike exercises there is no fallback: a set
+// that is gone (e.g. removed by an earlier replay) is not mistaken for another one.
+const resolveSetIndex = (exercise: LocalExercise, payload: SetRef) => {
+  if (payload.setId) return exercise.sets.findIndex((set) => set._id === payload.setId);
+  if (payload.setClientId) return exercise.sets.findIndex((set) => set.clientId === payload.setClientId);
+  return payload.setIndex < exercise.sets.length ? payload.setIndex : -1;
+};
+
+// A new order of `length` items from the positions changes were resolved to, followed by
+// the items they don't mention (e.g. added on another device), so it lists every index once
+const resolveOrder = (length: number, resolved: number[]) => {
+  const indexes = Array.from(new Set(resolved.filter((index) => index !== -1)));
+  for (let index = 0; index < length; index++) {
+    if (!indexes.includes(index)) indexes.push(index);
+  }
+  return indexes;
+};
+
+// Send one mutation to the server. `serverCopy` is the server's current version
+// of the workout, used to resolve exercise positions for queued sets.
+const sendMutation = async (
+  mutation: QueuedMutation,
+  workoutId: string,
+  serverCopy: LocalWorkout | null
+): Promise<SentMutation> => {
+  const data = await requestMutation(mutation, workoutId, serverCopy);
+  return { workout: data.workout, personalRecords: data.personalRecords ?? [] };
+};
+
+// Changes to an exercise or set that is no longer on the server are skipped
+const unchanged = (workout: LocalWorkout) => ({ workout, personalRecords: [] });
+
+// The server's response to a mutation: the updated workout, plus broken records for sets
+const requestMutation = async (mutation: QueuedMutation, workoutId: string, serverCopy: LocalWorkout | null) => {
+  const { clientId, occurredAt } = mutation;
+
+  switch (mutation.type) {
+    case 'start': {
+      const { exercises, ...payload } = mutation.payload;
+      return (await workoutAPI.start({ ...payload, clientId, occurredAt })).data;
+    }
+    case 'addExercise':
+      return (await workoutAPI.addExercise(workoutId, { ...mutation.payload, clientId })).data;
+    case 'addSet': {
+      let base = serverCopy ?? (await workoutAPI.getById(workoutId)).data.workout;
+      let exerciseIndex = resolveExerciseIndex(base, mutation.payload);
+
+      // The exercise is missing on the server (e.g. merged into another device's workout)
+      if (exerciseIndex === -1) {
+        base = (
+          await workoutAPI.addExercise(workoutId, {
+            name: mutation.payload.exerciseName,
+            clientId: mutation.payload.exerciseClientId ?? undefined,
+          })
+        ).data.workout;
+        exerciseIndex = base.exercises.length - 1;
+      }
+
+      return (
+        await workoutAPI.addSet(workoutId, exerciseIndex, { ...mutation.payload.set, clientId, occurredAt })
+      ).data;
+    }
+    case 'group': {
+      const base = serverCopy ?? (await workoutAPI.getById(workoutId)).data.workout;
+      const exerciseIndexes = mutation.payload.exercises
+        .map((ref) => resolveExerciseIndex(base, ref))
+        .filter((index) => index !== -1);
+      return (
+        await workoutAPI.groupExercises(workoutId, { exerciseIndexes, groupType: mutation.payload.groupType, clientId })
+      ).data;
+    }
+    case 'reorderExercises': {
+      const base = serverCopy ?? (await workoutAPI.getById(workoutId)).data.workout;
+      const exerciseIndexes = resolveOrder(
+        base.exercises.length,
+        mutation.payload.exercises.map((ref) => resolveExerciseIndex(base, ref))
+      );
+      return (await workoutAPI.reorderExercises(workoutId, exerciseIndexes)).data;
+    }
+    case 'updateExercise':
+    case 'removeExercise': {
+      const base = serverCopy ?? (await workoutAPI.getById(workoutId)).data.workout;
+      const exerciseIndex = resolveExerciseIndex(base, mutation.payload);
+      if (exerciseIndex === -1) return unchanged(base);
+
+      return mutation.type === 'updateExercise'
+        ? (await workoutAPI.updateExercise(workoutId, exerciseIndex, mutation.payload.changes)).data
+        : (await workoutAPI.removeExercise(workoutId, exerciseIndex)).data;
+    }
+    case 'reorderSets': {
+      const base = serverCopy ?? (await workoutAPI.getById(workoutId)).data.workout;
+      const exerciseIndex = resolveExerciseIndex(base, mutation.payload);
+      if (exerciseIndex === -1) return unchanged(base);
+
+      const exercise = base.exercises[exerciseIndex];
+      const setIndexes = resolveOrder(
+        exercise.sets.length,
+        mutation.payload.sets.map((ref) => resolveSetIndex(exercise, ref))
+      );
+      return (await workoutAPI.reorderSets(workoutId, exerciseIndex, setIndexes)).data;
+    }
+    case 'updateSet':
+    case 'removeSet': {
+      const base = serverCopy ?? (await workoutAPI.getById(workoutId)).data.workout;
+      const exerciseIndex = resolveExerciseIndex(base, mutation.payload);
+      const setIndex = exerciseIndex === -1 ? -1 : resolveSetIndex(base.exercises[exerciseIndex], mutation.payload);
+      if (setIndex === -1) return unchanged(base);
+
+      return mutation.type === 'updateSet'
+        ? (await workoutAPI.updateSet(workoutId, exerciseIndex, setIndex, mutation.payload.changes)).data
+        : (await workoutAPI.removeSet(workoutId, exerciseIndex, setIndex)).data;
+    }
+    case 'pause':
+      return (await workoutAPI.pause(workoutId, { occurredAt })).data;
+    case 'resume':
+      return (await workoutAPI.resume(workoutId, { occurredAt })).data;
+    case 'end':
+      return (await workoutAPI.end(workoutId, { occurredAt })).data;
+  }
+};
+
+const enqueue = async (mutation: QueuedMutation) => {
+  await runRequest<number>(MUTATIONS_STORE, 'readwrite', (store) => store.add(mutation));
+  await refreshPendingCount();
+};
+
+// Apply a mutation locally and send it, queueing it if the server can't be reached.
+// Errors returned by the server (validation, not found) are thrown as before.
+const perform = async (newMutation: NewMutation, base: LocalWorkout | null): Promise<OfflineResult> => {
+  const mutation = {
+    ...newMutation,
+    clientId: generateClientId(),
+    occurredAt: new Date().toISOString(),
+  } as QueuedMutation;
+
+  mutation.workoutId =
+    mutation.type === 'start'
+      ? `${LOCAL_ID_PREFIX}${mutation.clientId}`
+      : serverIds[mutation.workoutId] ?? mutation.workoutId;
+
+  // Anything sent directly while older changes are queued would overtake them
+  const canSendNow = isIndexedDBAvailable() ? (await countQueuedMutations()) === 0 && navigator.onLine : true;
+
+  if (canSendNow) {
+    try {
+      const { workout: sentWorkout, personalRecords } = await sendMutation(mutation, mutation.workoutId, base);
+      const workout = { bodyweight: base?.bodyweight, ...sentWorkout };
+      await saveLocalWorkout(workout);
+      return { workout, queued: false, personalRecords };
+    } catch (error) {
+      if (!isNetworkError(error) || !isIndexedDBAvailable()) throw error;
+    }
+  }
+
+  const workout = applyMutation(base, mutation);
+  await enqueue(mutation);
+  await saveLocalWorkout(workout);
+  return { workout: withElapsedDuration(workout), queued: true, personalRecords: [] };
+};
+
+// Replay queued mutations in order. Mutations the server rejects (for example a
+// pause for a workout another device already ended) are dropped and the server
+// copy wins; a network failure stops the replay and keeps the rest queued.
+export const syncPendingMutations = () => {
+  if (!isIndexedDBAvailable()) return Promise.resolve();
+  if (syncPromise) return syncPromise;
+
+  syncPromise = (async () => {
+    const serverCopies: Record<string, LocalWorkout> = {};
+    let mutations = await getQueuedMutations();
+    if (mutations.length === 0) return;
+
+    setState({ syncing: true });
+
+    try {
+      // Changes made while the replay runs are queued too, so keep going until empty
+      while (mutations.length > 0) {
+        for (const mutation of mutations) {
+          const workoutId = serverIds[mutation.workoutId] ?? mutation.workoutId;
+
+          try {
+            if (workoutId.startsWith(LOCAL_ID_PREFIX) && mutation.type !== 'start') {
+              // Its start was rejected, so there is nothing on the server to update
+              console.warn(`Dropped offline ${mutation.type} change for a workout that was never created`);
+            } else {
+              const { workout } = await sendMutation(mutation, workoutId, serverCopies[workoutId] ?? null);
+              serverIds[mutation.workoutId] = workout._id;
+              serverCopies[workout._id] = workout;
+            }
+          } catch (error: any) {
+            if (isNetworkError(error)) return;
+
+            // Another device started a workout meanwhile: merge the offline session into it
+            const activeWorkoutId = error.response?.data?.activeWorkoutId;
+            if (mutation.type === 'start' && activeWorkoutId) {
+              serverIds[mutation.workoutId] = activeWorkoutId;
+            } else {
+              console.warn(
+                `Dropped offline ${mutation.type} change rejected by the server:`,
+                error.response?.data?.message
+              );
+            }
+          }
+
+          const serverId = serverIds[mutation.workoutId];
+          if (mutation.type === 'start' && serverId) {
+            await removeSyncedStart(mutation, serverId);
+          } else {
+            await removeQueuedMutation(mutation.id!);
+          }
+          await refreshPendingCount();
+        }
+
+        mutations = await getQueuedMutations();
+      }
+
+      // The server copy is the source of truth once the queue is drained
+      const response = await workoutAPI.getActive();
+      await saveLocalWorkout(response.data.workout ?? null);
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    }
+  })().finally(() => {
+    syncPromise = null;
+    setState({ syncing: false });
+  });
+
+  return syncPromise;
+};
+
+// Replay the queue whenever the browser comes back online, and periodically in
+// case the online event was missed. Returns a cleanup function.
+export const startBackgroundSync = () => {
+  if (!isIndexedDBAvailable()) return () => {};
+
+  const sync = () => {
+    if (navigator.onLine) syncPendingMutations();
+  };
+
+  window.addEventListener('online', sync);
+  const interval = setInterval(sync, SYNC_INTERVAL_MS);
+  sync();
+
+  return () => {
+    window.removeEventListener('online', sync);
+    clearInterval(interval);
+  };
+};
+
+// How a queued change refers to an exercise of the local copy
+const toExerciseRef = (workout: LocalWorkout, exerciseIndex: number): ExerciseRef => ({
+  exerciseIndex,
+  exerciseName: workout.exercises[exerciseIndex]?.name ?? '',
+  exerciseId: workout.exercises[exerciseIndex]?._id ?? null,
+  exerciseClientId: workout.exercises[exerciseIndex]?.clientId ?? null,
+});
+
+const toSetRef = (workout: LocalWorkout, exerciseIndex: number, setIndex: number): SetRef => {
+  const set = workout.exercises[exerciseIndex]?.sets[setIndex];
+  return { setIndex, setId: set?._id ?? null, setClientId: set?.clientId ?? null };
+};
+
+// Offline-aware counterparts of the workoutAPI calls used while training
+export const offlineWorkoutAPI = {
+  // Returns the local copy while changes are pending or the server is unreachable
+  getActive: async (): Promise<LocalWorkout | null> => {
+    if ((await countQueuedMutations()) === 0) {
+      try {
+        const workout = (await workoutAPI.getActive()).data.workout ?? null;
+        await saveLocalWorkout(workout);
+        return workout;
+      } catch (error) {
+        if (!isNetworkError(error) || !isIndexedDBAvailable()) throw error;
+      }
+    }
+
+    const workout = await readLocalWorkout();
+    return workout ? withElapsedDuration(workout) : null;
+  },
+  // `exercises` seeds the local copy (e.g. from a template) if the start is queued
+  start: (data: StartPayload, exercises?: LocalExercise[]) =>
+    perform({ type: 'start', workoutId: '', payload: { ...data, exercises } }, null),
+  addExercise: (workout: LocalWorkout, exercise: ExercisePayload) =>
+    perform({ type: 'addExercise', workoutId: workout._id, payload: exercise }, workout),
+  addSet: (workout: LocalWorkout, exerciseIndex: number, set: SetPayload['set']) =>
+    perform(
+      {
+        type: 'addSet',
+        workoutId: workout._id,
+        payload: { ...toExerciseRef(workout, exerciseIndex), set },
+      },
+      workout
+    ),
+  // Group exercises into a superset, circuit or giant set, or ungroup them with `groupType: null`
+  groupExercises: (workout: LocalWorkout, exerciseIndexes: number[], groupType: GroupType | null) =>
+    perform(
+      {
+        type: 'group',
+        workoutId: workout._id,
+        payload: {
+          exercises: exerciseIndexes.map((exerciseIndex) => toExerciseRef(workout, exerciseIndex)),
+          groupType,
+        },
+      },
+      workout
+    ),
+  // `exerciseIndexes` lists every current index in the new order
+  reorderExercises: (workout: LocalWorkout, exerciseIndexes: number[]) =>
+    perform(
+      {
+        type: 'reorderExercises',
+        workoutId: workout._id,
+        payload: { exercises: exerciseIndexes.map((exerciseIndex) => toExerciseRef(workout, exerciseIndex)) },
+      },
+      workout
+    ),
+  updateExercise: (workout: LocalWorkout, exerciseIndex: number, changes: ExerciseChanges) =>
+    perform(
+      { type: 'updateExercise', workoutId: workout._id, payload: { ...toExerciseRef(workout, exerciseIndex), changes } },
+      workout
+    ),
+  removeExercise: (workout: LocalWorkout, exerciseIndex: number) =>
+    perform({ type: 'removeExercise', workoutId: workout._id, payload: toExerciseRef(workout, exerciseIndex) }, workout),
+  // `setIndexes` lists every current set index of the exercise in the new order
+  reorderSets: (workout: LocalWorkout, exerciseIndex: number, setIndexes: number[]) =>
+    perform(
+      {
+        type: 'reorderSets',
+        workoutId: workout._id,
+        payload: {
+          ...toExerciseRef(workout, exerciseIndex),
+          sets: setIndexes.map((setIndex) => toSetRef(workout, exerciseIndex, setIndex)),
+        },
+      },
+      workout
+    ),
+  updateSet: (workout: LocalWorkout, exerciseIndex: number, setIndex: number, changes: SetChanges) =>
+    perform(
+      {
+        type: 'updateSet',
+        workoutId: workout._id,
+        payload: { ...toExerciseRef(workout, exerciseIndex), ...toSetRef(workout, exerciseIndex, setIndex), changes },
+      },
+      workout
+    ),
+  removeSet: (workout: LocalWorkout, exerciseIndex: number, setIndex: number) =>
+    perform(
+      {
+        type: 'removeSet',
+        workoutId: workout._id,
+        payload: { ...toExerciseRef(workout, exerciseIndex), ...toSetRef(workout, exerciseIndex, setIndex) },
+      },
+      workout
+    ),
+  pause: (workout: LocalWorkout) => perform({ type: 'pause', workoutId: workout._id, payload: null }, workout),
+  resume: (workout: LocalWorkout) => perform({ type: 'resume', workoutId: workout._id, payload: null }, workout),
+  end: (workout: LocalWorkout) => perform({ type: 'end', workoutId: workout._id, payload: null }, workout),
+};
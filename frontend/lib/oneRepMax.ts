@@ -0,0 +1,53 @@
+// Estimated one-rep max formulas, matching the server's (backend/utils/weights.js)
+
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi' | 'rpe';
+
+export const ONE_REP_MAX_FORMULAS: { value: OneRepMaxFormula; label: string; description: string }[] = [
+  { value: 'epley', label: 'Epley', description: 'weight × (1 + reps / 30)' },
+  { value: 'brzycki', label: 'Brzycki', description: 'weight × 36 / (37 − reps)' },
+  { value: 'lombardi', label: 'Lombardi', description: 'weight × reps^0.1' },
+  { value: 'rpe', label: 'RPE-based', description: 'RPE chart, using the RPE logged with each set' },
+];
+
+// Share of the one-rep max that can be lifted for 1-12 reps to failure (RPE 10)
+const RPE_PERCENTAGES = [100, 95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68];
+
+const epley = (weight: number, reps: number) => weight * (1 + reps / 30);
+
+const rpePercentage = (repsToFailure: number) => {
+  const index = repsToFailure - 1;
+  if (index > RPE_PERCENTAGES.length - 1) return null;
+  const lower = Math.floor(index);
+  if (lower === index) return RPE_PERCENTAGES[index];
+  return RPE_PERCENTAGES[lower] + (RPE_PERCENTAGES[lower + 1] - RPE_PERCENTAGES[lower]) * (index - lower);
+};
+
+// Sets without an RPE count as taken to failure for the RPE formula
+export const estimateOneRepMax = (
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = 'epley',
+  rpe?: number | null
+) => {
+  if (!weight || !reps) return 0;
+
+  switch (formula) {
+    case 'brzycki':
+      return reps === 1 ? weight : reps < 37 ? (weight * 36) / (37 - reps) : epley(weight, reps);
+    case 'lombardi':
+      return weight * Math.pow(reps, 0.1);
+    case 'rpe': {
+      const repsToFailure = reps + 10 - (rpe ?? 10);
+      const percentage = rpePercentage(repsToFailure);
+      return percentage ? (weight * 100) / percentage : epley(weight, repsToFailure);
+    }
+    default:
+      return reps === 1 ? weight : epley(weight, reps);
+  }
+};
+
+// Best estimate over a list of sets, each estimated on its own
+export const bestOneRepMax = (
+  sets: { weight: number; reps: number; rpe?: number | null }[],
+  formula?: OneRepMaxFormula
+) => sets.reduce((best, set) => Math.max(best, estimateOneRepMax(set.weight, set.reps, formula, set.rpe)), 0);
@@ -0,0 +1,173 @@
+// Exercise tracking types, matching the server's (backend/utils/tracking.js). Durations are
+// in seconds and distances in metres.
+
+import { countedSets, SetType } from './exerciseGroups';
+
+export type TrackingType =
+  | 'weightReps'
+  | 'bodyweightReps'
+  | 'weightedBodyweight'
+  | 'assistedBodyweight'
+  | 'duration'
+  | 'distanceDuration'
+  | 'distanceWeight';
+
+export type SetField = 'reps' | 'weight' | 'duration' | 'distance';
+
+// `fields` are the set inputs shown for the type, `required` the ones a set can't be saved
+// without. `weightLabel` names what the weight means for the bodyweight types.
+export const TRACKING_TYPES: {
+  value: TrackingType;
+  label: string;
+  fields: SetField[];
+  required: SetField[];
+  weightLabel?: string;
+}[] = [
+  { value: 'weightReps', label: 'Weight × reps', fields: ['weight', 'reps'], required: ['weight', 'reps'] },
+  { value: 'bodyweightReps', label: 'Bodyweight reps', fields: ['reps'], required: ['reps'] },
+  {
+    value: 'weightedBodyweight',
+    label: 'Weighted bodyweight',
+    fields: ['weight', 'reps'],
+    required: ['reps'],
+    weightLabel: 'Added weight',
+  },
+  {
+    value: 'assistedBodyweight',
+    label: 'Assisted bodyweight',
+    fields: ['weight', 'reps'],
+    required: ['reps'],
+    weightLabel: 'Assistance',
+  },
+  { value: 'duration', label: 'Duration', fields: ['duration'], required: ['duration'] },
+  {
+    value: 'distanceDuration',
+    label: 'Distance + time',
+    fields: ['distance', 'duration'],
+    required: ['distance', 'duration'],
+  },
+  {
+    value: 'distanceWeight',
+    label: 'Distance + weight',
+    fields: ['weight', 'distance'],
+    required: ['weight', 'distance'],
+  },
+];
+
+export const getTrackingType = (trackingType?: TrackingType | null) =>
+  TRACKING_TYPES.find((type) => type.value === (trackingType ?? 'weightReps'))!;
+
+// Tracking type of an exercise without one, from its muscle group and equipment
+export const defaultTrackingType = ({
+  muscleGroup,
+  equipment,
+}: {
+  muscleGroup?: string | null;
+  equipment?: string | null;
+}): TrackingType => {
+  if (muscleGroup === 'Cardio') return 'distanceDuration';
+  if (equipment === 'Bodyweight') return 'bodyweightReps';
+  return 'weightReps';
+};
+
+export const isCardioTracking = (trackingType?: TrackingType | null) =>
+  trackingType === 'duration' || trackingType === 'distanceDuration';
+
+// Fields a set is missing for its tracking type, e.g. ['distance']
+export const getMissingSetFields = (
+  trackingType: TrackingType | null | undefined,
+  set: Partial<Record<SetField, number | null>>
+) =>
+  getTrackingType(trackingType).required.filter((field) => !((set[field] ?? 0) > 0));
+
+// Whether the type's sets are counted in reps, rather than measured by time or distance
+export const isRepTracking = (trackingType?: TrackingType | null) => getTrackingType(trackingType).fields.includes('reps');
+
+// Whether an exercise's logged weight is added to the lifter's bodyweight (1), taken off it
+// (-1, the assistance of assisted pull-ups) or is the whole load (0), as on the server
+const BODYWEIGHT_LOADS: Partial<Record<TrackingType, number>> = {
+  bodyweightReps: 1,
+  weightedBodyweight: 1,
+  assistedBodyweight: -1,
+};
+
+// The sets of an exercise that count towards volume and 1RM estimates, with the load each
+// lifted. Bodyweight exercises add the workout's `bodyweight`; without it they count only
+// added weight, and assisted sets none.
+export const loadedSets = <S extends { reps: number; weight: number; setType?: SetType | null }>(
+  exercise: { trackingType?: TrackingType | null; equipment?: string | null; sets: S[] },
+  bodyweight?: number | null
+) => {
+  const load =
+    BODYWEIGHT_LOADS[exercise.trackingType ?? 'weightReps'] ?? (exercise.equipment === 'Bodyweight' ? 1 : 0);
+  return countedSets(exercise.sets).map((set) => {
+    if (load === 0) return set;
+    if (load === 1) return { ...set, weight: (bodyweight ?? 0) + set.weight };
+    return { ...set, weight: bodyweight ? Math.max(0, bodyweight - set.weight) : 0 };
+  });
+};
+
+// Seconds per kilometre, or null without both a distance and a duration
+export const paceOf = (distance: number, duration: number) =>
+  distance > 0 && duration > 0 ? Math.round((duration / distance) * 1000) : null;
+
+// Total distance and time of an exercise's sets, and the average pace over them
+export const cardioTotals = (sets: { distance?: number | null; duration?: number | null; setType?: SetType | null }[]) => {
+  const counted = countedSets(sets);
+  const distance = counted.reduce((sum, set) => sum + (set.distance ?? 0), 0);
+  const duration = counted.reduce((sum, set) => sum + (set.duration ?? 0), 0);
+  return { distance, duration, pace: paceOf(distance, duration) };
+};
+
+// "45s", "12:30" or "1:05:00"
+export const formatDuration = (seconds?: number | null) => {
+  if (!seconds) return '0s';
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}s`;
+
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+// Seconds from "90", "12:30" or "1:05:00"; null for anything else
+export const parseDuration = (text: string) => {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+  const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds > 0 ? Math.round(seconds) : null;
+};
+
+// Metres under a kilometre as they are, e.g. carries; longer distances in km
+export const formatDistance = (metres?: number | null) => {
+  if (!metres) return '0 m';
+  return metres < 1000 ? `${Math.round(metres)} m` : `${Math.round(metres / 10) / 100} km`;
+};
+
+// Pace in seconds per km, e.g. "5:12 /km"
+export const formatPace = (secondsPerKm?: number | null) => (secondsPerKm ? `${formatDuration(secondsPerKm)} /km` : '—');
+
+// One set in a line, e.g. "10 reps × 60 kg", "5 km in 25:00" or "8 reps × +20 kg"
+export const describeSet = (
+  set: { reps?: number; weight?: number; duration?: number | null; distance?: number | null },
+  trackingType: TrackingType | null | undefined,
+  unit: string
+) => {
+  switch (trackingType) {
+    case 'bodyweightReps':
+      return `${set.reps} reps`;
+    case 'weightedBodyweight':
+      return set.weight ? `${set.reps} reps × +${set.weight} ${unit}` : `${set.reps} reps`;
+    case 'assistedBodyweight':
+      return set.weight ? `${set.reps} reps × −${set.weight} ${unit}` : `${set.reps} reps`;
+    case 'duration':
+      return formatDuration(set.duration);
+    case 'distanceDuration':
+      return `${formatDistance(set.distance)} in ${formatDuration(set.duration)}`;
+    case 'distanceWeight':
+      return `${formatDistance(set.distance)} × ${set.weight} ${unit}`;
+    default:
+      return `${set.reps} reps × ${set.weight} ${unit}`;
+  }
+};
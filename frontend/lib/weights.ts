@@ -0,0 +1,36 @@
+// Weight units, matching the server's (backend/utils/weights.js)
+
+export type WeightUnit = 'kg' | 'lb';
+
+const KG_PER_LB = 0.45359237;
+
+export const convertWeight = (value: number, from: WeightUnit, to: WeightUnit) => {
+  if (from === to) return value;
+  return from === 'kg' ? value / KG_PER_LB : value * KG_PER_LB;
+};
+
+// A weight logged in `from`, rounded to 1 decimal in `to` for display
+export const displayWeight = (value: number, from: WeightUnit = 'kg', to: WeightUnit = 'kg') =>
+  Math.round(convertWeight(value, from, to) * 10) / 10;
+
+// A copy of a workout with every set's weight, and its bodyweight, in `unit`, for display
+// alongside workouts logged in the other unit
+export const normalizeWorkout = <
+  W extends { weightUnit?: WeightUnit; bodyweight?: number | null; exercises: { sets: { weight: number }[] }[] }
+>(
+  workout: W,
+  unit: WeightUnit
+): W => {
+  const from = workout.weightUnit ?? 'kg';
+  if (from === unit) return workout;
+
+  return {
+    ...workout,
+    weightUnit: unit,
+    bodyweight: workout.bodyweight == null ? workout.bodyweight : displayWeight(workout.bodyweight, from, unit),
+    exercises: workout.exercises.map((exercise) => ({
+      ...exercise,
+      sets: exercise.sets.map((set) => ({ ...set, weight: displayWeight(set.weight, from, unit) })),
+    })),
+  };
+};